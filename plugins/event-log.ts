@@ -0,0 +1,69 @@
+import { definePlugin } from "nitro";
+import { defaults, type LogConfig, loadBytesideConfig } from "../src/config";
+import { appendEvent, getLogDir } from "../src/event-log";
+import { onStateChange } from "./state";
+
+/**
+ * Last queued write. Appends are chained so lines keep their order.
+ */
+let pending: Promise<void> = Promise.resolve();
+
+/**
+ * Resolved once the plugin has decided whether to log (and started logging if so).
+ */
+let markStarted: () => void = () => {};
+const started = new Promise<void>((resolve) => {
+	markStarted = resolve;
+});
+
+/**
+ * Start writing every state transition to the event log.
+ * @param dir Log directory (defaults to ~/.byteside/logs)
+ * @returns Unsubscribe function to stop logging.
+ */
+export function startEventLog(config: LogConfig = {}, dir: string = getLogDir()): () => void {
+	let reported = false;
+
+	return onStateChange((state, timestamp, { previous, source, sessionId, context }) => {
+		const entry = { state, previous, timestamp, source, sessionId, context };
+		pending = pending
+			.then(() => appendEvent(entry, config, dir))
+			.catch((err) => {
+				// Report the first failure only; a broken log must not flood the server output
+				if (!reported) {
+					reported = true;
+					console.error("[byteside] Failed to write event log:", err);
+				}
+			});
+	});
+}
+
+/**
+ * Wait until the plugin has started logging, or decided not to.
+ */
+export function whenEventLogStarted(): Promise<void> {
+	return started;
+}
+
+/**
+ * Wait until all queued log writes have finished.
+ */
+export function flushEventLog(): Promise<void> {
+	return pending;
+}
+
+export default definePlugin(() => {
+	loadBytesideConfig(process.env["BYTESIDE_CWD"])
+		.then((config) => {
+			const logConfig = { ...defaults.log, ...config.log };
+			if (!logConfig.enabled) {
+				return;
+			}
+			startEventLog(logConfig);
+			console.log(`[byteside] Logging state transitions to ${getLogDir()}`);
+		})
+		.catch((err) => {
+			console.error("[byteside] Failed to start event log:", err);
+		})
+		.finally(markStarted);
+});
@@ -0,0 +1,36 @@
+import { definePlugin } from "nitro";
+import { createStateSocketServer, getSocketPath, listenOnSocket } from "../src/socket";
+import { applyStateUpdate, whenStateReady } from "./state";
+
+/**
+ * Port the server listens on, resolved like the node-server preset does.
+ */
+export function getServerPort(): number {
+	return Number.parseInt(process.env["NITRO_PORT"] || process.env["PORT"] || "", 10) || 3000;
+}
+
+/**
+ * Listen for state updates on ~/.byteside/run/<port>.sock alongside POST /state.
+ * `byteside trigger` writes a single line there, which is faster than an HTTP request.
+ */
+export default definePlugin((nitroApp) => {
+	const socketPath = getSocketPath(getServerPort());
+	// Custom states are only valid once the avatar's manifest has loaded
+	const server = createStateSocketServer(async (update) => {
+		await whenStateReady();
+		return applyStateUpdate(update);
+	});
+
+	listenOnSocket(server, socketPath)
+		.then(() => {
+			console.log(`[byteside] Accepting states on ${socketPath}`);
+		})
+		.catch((err) => {
+			console.error("[byteside] Failed to open state socket:", err);
+		});
+
+	// Closing the server also removes the socket file
+	nitroApp.hooks.hook("close", () => {
+		server.close();
+	});
+});
@@ -0,0 +1,66 @@
+import { definePlugin } from "nitro";
+import { defaults, loadBytesideConfig } from "../src/config";
+import { freshSpoolEntries, getSpoolDir, latestSpoolEntries, takeSpool } from "../src/spool";
+import { whenEventLogStarted } from "./event-log";
+import { getServerPort } from "./socket";
+import {
+	endSession,
+	isValidSessionId,
+	isValidState,
+	replayState,
+	resolveState,
+	whenStateReady,
+} from "./state";
+
+/**
+ * Replay the triggers spooled for a port while no server was running on it.
+ * Only the latest valid entry of each session is replayed, entries older than
+ * `maxAgeMs` are discarded, and the spool is emptied either way.
+ * @returns Number of triggers replayed.
+ */
+export async function replaySpool(
+	port: number,
+	maxAgeMs: number,
+	dir: string = getSpoolDir(),
+	now: number = Date.now(),
+): Promise<number> {
+	const valid = freshSpoolEntries(await takeSpool(port, dir), maxAgeMs, now).filter(
+		(entry) =>
+			isValidState(entry.state) &&
+			(entry.sessionId === undefined || isValidSessionId(entry.sessionId)),
+	);
+
+	let replayed = 0;
+	for (const entry of latestSpoolEntries(valid)) {
+		if (replayState(resolveState(entry.state), entry.sessionId, entry.context, entry.timestamp)) {
+			replayed++;
+		}
+		if (entry.endSession && entry.sessionId) {
+			endSession(entry.sessionId);
+		}
+	}
+	return replayed;
+}
+
+export default definePlugin(() => {
+	// Wait for the avatar's states (to validate entries) and the event log (to record them)
+	Promise.all([
+		loadBytesideConfig(process.env["BYTESIDE_CWD"]),
+		whenStateReady(),
+		whenEventLogStarted(),
+	])
+		.then(([config]) => {
+			const { maxAgeMs = 0 } = { ...defaults.spool, ...config.spool };
+			return replaySpool(getServerPort(), maxAgeMs);
+		})
+		.then((replayed) => {
+			if (replayed > 0) {
+				console.log(
+					`[byteside] Replayed ${replayed} state${replayed === 1 ? "" : "s"} sent while the server wasn't running`,
+				);
+			}
+		})
+		.catch((err) => {
+			console.error("[byteside] Failed to replay spooled states:", err);
+		});
+});
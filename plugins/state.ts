@@ -1,17 +1,133 @@
 import { definePlugin } from "nitro";
-import type { AvatarState, StateResponse } from "../src/types";
+import { useRuntimeConfig } from "nitro/runtime-config";
+import { loadAvatarManifest } from "../src/avatar";
+import { defaults, loadBytesideConfig, type StateConfig } from "../src/config";
+import { CONTEXT_FIELDS, isValidStateContext, normalizeContext } from "../src/context";
+import type { AvatarManifest } from "../src/manifest";
+import {
+	type AvatarState,
+	OPTIONAL_STATE_FALLBACKS,
+	type SessionInfo,
+	type StateContext,
+	type StateHistoryEntry,
+	type StatePostError,
+	type StatePostResponse,
+	type StateResponse,
+	type StateSource,
+} from "../src/types";
+
+/**
+ * Extra information passed to listeners alongside each state change.
+ */
+export interface StateChangeDetails {
+	/** State that was active before this change (per session when one is given) */
+	previous: AvatarState;
+	/** What caused the change */
+	source: StateSource;
+	/** Claude Code session that triggered the change, if known */
+	sessionId?: string | undefined;
+	/** What the agent is doing, if the trigger said */
+	context?: StateContext | undefined;
+	/** True when only the session changed and the overall state stayed the same */
+	background: boolean;
+}
+
+/**
+ * Resolved once the state settings and the active avatar's manifest are loaded
+ * (or failed to load), so custom states can be validated.
+ */
+let markReady: () => void = () => {};
+const ready = new Promise<void>((resolve) => {
+	markReady = resolve;
+});
 
 /**
  * Listener function type for state changes.
  */
-export type StateChangeListener = (state: AvatarState, timestamp: number) => void;
+export type StateChangeListener = (
+	state: AvatarState,
+	timestamp: number,
+	details: StateChangeDetails,
+) => void;
+
+/**
+ * Sessions that haven't sent a state for this long are no longer listed as live.
+ */
+export const SESSION_TTL_MS = 30 * 60 * 1000;
+
+/**
+ * Maximum number of transitions kept in the history buffer.
+ */
+export const HISTORY_SIZE = 500;
+
+/**
+ * Options for querying the state history.
+ */
+export interface HistoryQuery {
+	/** Only return entries newer than this timestamp (ms) */
+	since?: number | undefined;
+	/** Return at most this many of the most recent entries */
+	limit?: number | undefined;
+}
 
 /**
  * In-memory state manager for the avatar.
- * Stores the current state and timestamp.
+ * Stores the most recent state across all sessions and its timestamp.
  */
 let currentState: AvatarState = "idle";
 let stateTimestamp: number = Date.now();
+let currentSessionId: string | undefined;
+let currentContext: StateContext | undefined;
+
+/**
+ * Manifest of the active avatar, used for duration/transition_to timing
+ * and for the custom states it declares.
+ */
+let activeManifest: AvatarManifest | null = null;
+
+/**
+ * Inactivity fallback settings (see StateConfig).
+ * Disabled until configureState() is called.
+ */
+let idleTimeoutMs = 0;
+let idleTimeouts: Record<string, number> = {};
+let idleState: AvatarState = "idle";
+
+/**
+ * Anti-flicker settings (see StateConfig).
+ * A state is shown for at least its minimum dwell time unless a
+ * higher-priority state preempts it. Disabled until configureState() is called.
+ */
+let minDwellMs = 0;
+let minDwells: Record<string, number> = {};
+let priority: readonly string[] = [];
+
+/**
+ * Hide file paths and command arguments in context (see StateConfig).
+ */
+let redactContext = false;
+
+/**
+ * Pending timers, keyed by session id ("" for session-less updates).
+ */
+type Timers = Map<string, ReturnType<typeof setTimeout>>;
+const transitionTimers: Timers = new Map();
+const idleTimers: Timers = new Map();
+const dwellTimers: Timers = new Map();
+const NO_SESSION_KEY = "";
+
+/**
+ * Latest state for each session, keyed by Claude Code session_id.
+ */
+const sessions = new Map<
+	string,
+	{ state: AvatarState; timestamp: number; context?: StateContext | undefined }
+>();
+
+/**
+ * Bounded log of recent transitions, oldest first.
+ */
+const history: StateHistoryEntry[] = [];
 
 /**
  * Set of listeners to notify when state changes.
@@ -22,16 +138,236 @@ const listeners = new Set<StateChangeListener>();
  * Notify all listeners of a state change.
  * Errors in listeners are logged but don't stop other listeners.
  */
-function notifyListeners(): void {
+function notifyListeners(state: AvatarState, timestamp: number, details: StateChangeDetails): void {
 	for (const listener of listeners) {
 		try {
-			listener(currentState, stateTimestamp);
+			listener(state, timestamp, details);
 		} catch (err) {
 			console.error("[byteside] Error in state change listener:", err);
 		}
 	}
 }
 
+/**
+ * Drop sessions that have been quiet for longer than SESSION_TTL_MS.
+ */
+function pruneSessions(now: number): void {
+	for (const [sessionId, entry] of sessions) {
+		if (now - entry.timestamp > SESSION_TTL_MS) {
+			sessions.delete(sessionId);
+		}
+	}
+}
+
+/**
+ * Add a transition to the history, evicting the oldest entry when full.
+ * Replayed transitions can be older than recorded ones, so entries are inserted in timestamp order.
+ */
+function recordHistory(entry: StateHistoryEntry): void {
+	let index = history.length;
+	while (index > 0 && (history[index - 1]?.timestamp ?? 0) > entry.timestamp) {
+		index--;
+	}
+	history.splice(index, 0, entry);
+	if (history.length > HISTORY_SIZE) {
+		history.shift();
+	}
+}
+
+/**
+ * Cancel the pending timer for a key, if any.
+ */
+function cancelTimer(timers: Timers, key: string): void {
+	const timer = timers.get(key);
+	if (timer) {
+		clearTimeout(timer);
+		timers.delete(key);
+	}
+}
+
+/**
+ * Cancel all pending timers (timed transition, inactivity, deferred trigger) for a key.
+ */
+function cancelTimers(key: string): void {
+	cancelTimer(transitionTimers, key);
+	cancelTimer(idleTimers, key);
+	cancelTimer(dwellTimers, key);
+}
+
+/**
+ * Start a one-shot timer that removes itself before firing.
+ */
+function startTimer(timers: Timers, key: string, delayMs: number, fire: () => void): void {
+	timers.set(
+		key,
+		setTimeout(() => {
+			timers.delete(key);
+			fire();
+		}, delayMs),
+	);
+}
+
+/**
+ * Start a timer that runs `delayMs` after `since`. If that time has already
+ * passed (for replayed states), it fires right away with the time it was due.
+ */
+function startTimerSince(
+	timers: Timers,
+	key: string,
+	since: number,
+	delayMs: number,
+	fire: (at: number) => void,
+): void {
+	const remainingMs = since + delayMs - Date.now();
+	if (remainingMs > 0) {
+		startTimer(timers, key, remainingMs, () => fire(Date.now()));
+	} else {
+		startTimer(timers, key, 0, () => fire(since + delayMs));
+	}
+}
+
+/**
+ * Schedule the manifest's transition_to for a state that declares a duration.
+ * @param since When the state was entered
+ */
+function scheduleTransition(
+	state: AvatarState,
+	sessionId: string | undefined,
+	since: number,
+): void {
+	const stateConfig = activeManifest?.states[state];
+	if (!stateConfig?.duration || !stateConfig.transition_to) {
+		return;
+	}
+
+	const target = stateConfig.transition_to;
+	if (!isValidState(target)) {
+		return;
+	}
+
+	startTimerSince(
+		transitionTimers,
+		sessionId ?? NO_SESSION_KEY,
+		since,
+		stateConfig.duration,
+		(at) => {
+			applyState(target, sessionId, "transition", undefined, at);
+		},
+	);
+}
+
+/**
+ * Schedule the fallback to idleState if nothing else happens for a while.
+ * @param since When the state was entered
+ */
+function scheduleIdleTimeout(
+	state: AvatarState,
+	sessionId: string | undefined,
+	since: number,
+): void {
+	const target = resolveIdleState();
+	if (state === target) {
+		return;
+	}
+
+	const timeoutMs = idleTimeouts[state] ?? idleTimeoutMs;
+	if (!(timeoutMs > 0)) {
+		return;
+	}
+
+	startTimerSince(idleTimers, sessionId ?? NO_SESSION_KEY, since, timeoutMs, (at) => {
+		applyState(resolveIdleState(), sessionId, "timeout", undefined, at);
+	});
+}
+
+/**
+ * The configured idle state, or idle if the current avatar doesn't define it.
+ * Resolved lazily because custom states depend on which manifest is loaded.
+ */
+function resolveIdleState(): AvatarState {
+	return isValidState(idleState) ? idleState : "idle";
+}
+
+/**
+ * Rank of a state in the priority list; higher wins, unlisted states rank 0.
+ */
+function priorityOf(state: AvatarState): number {
+	const index = priority.indexOf(state);
+	return index === -1 ? 0 : priority.length - index;
+}
+
+/**
+ * How much longer the active state must stay on screen before `next` may replace it.
+ */
+function remainingDwell(
+	active: { state: AvatarState; timestamp: number },
+	next: AvatarState,
+): number {
+	if (next === active.state || priorityOf(next) > priorityOf(active.state)) {
+		return 0;
+	}
+	const dwellMs = minDwells[active.state] ?? minDwellMs;
+	if (!(dwellMs > 0)) {
+		return 0;
+	}
+	return Math.min(dwellMs, active.timestamp + dwellMs - Date.now());
+}
+
+/**
+ * Hold a trigger until the active state's dwell time has passed.
+ * Only the latest deferred trigger per key is kept.
+ */
+function deferState(
+	newState: AvatarState,
+	sessionId: string | undefined,
+	context: StateContext | undefined,
+	delayMs: number,
+): void {
+	// A trigger arrived, so the pending transition and inactivity fallback no longer apply
+	const key = sessionId ?? NO_SESSION_KEY;
+	cancelTimers(key);
+	startTimer(dwellTimers, key, delayMs, () => {
+		applyState(newState, sessionId, "trigger", context);
+	});
+}
+
+/**
+ * Apply a state change, record it and notify listeners.
+ * @returns The previous state (of the session, when one is given).
+ */
+function applyState(
+	newState: AvatarState,
+	sessionId: string | undefined,
+	source: StateSource,
+	context?: StateContext,
+	now: number = Date.now(),
+): AvatarState {
+	const previous = sessionId ? (sessions.get(sessionId)?.state ?? "idle") : currentState;
+
+	// A timer-driven change only moves the overall state if its session still owns it
+	const timed = source === "transition" || source === "timeout";
+	const background = timed && sessionId !== currentSessionId;
+
+	cancelTimers(sessionId ?? NO_SESSION_KEY);
+	if (!background) {
+		// Session-less timers describe the overall state, which just changed
+		cancelTimers(NO_SESSION_KEY);
+		currentState = newState;
+		stateTimestamp = now;
+		currentSessionId = sessionId;
+		currentContext = context;
+	}
+	if (sessionId) {
+		sessions.set(sessionId, { state: newState, timestamp: now, context });
+	}
+
+	scheduleTransition(newState, sessionId, now);
+	scheduleIdleTimeout(newState, sessionId, now);
+	recordHistory({ state: newState, previous, timestamp: now, source, sessionId, context });
+	notifyListeners(newState, now, { previous, source, sessionId, context, background });
+	return previous;
+}
+
 /**
  * Register a listener for state changes.
  * @returns Unsubscribe function to remove the listener.
@@ -44,25 +380,152 @@ export function onStateChange(listener: StateChangeListener): () => void {
 }
 
 /**
- * Get the current avatar state.
+ * Get the current avatar state (the most recent state from any session).
  */
 export function getState(): StateResponse {
 	return {
 		state: currentState,
 		timestamp: stateTimestamp,
+		...(currentContext && { context: currentContext }),
 	};
 }
 
+/**
+ * Get the current state of a single session.
+ * @returns The session's state, or null if the session is unknown or expired.
+ */
+export function getSessionState(sessionId: string): StateResponse | null {
+	pruneSessions(Date.now());
+	const entry = sessions.get(sessionId);
+	if (!entry) {
+		return null;
+	}
+	return {
+		state: entry.state,
+		timestamp: entry.timestamp,
+		sessionId,
+		...(entry.context && { context: entry.context }),
+	};
+}
+
+/**
+ * List live sessions, most recently active first.
+ */
+export function getSessions(): SessionInfo[] {
+	pruneSessions(Date.now());
+	return [...sessions.entries()]
+		.map(([sessionId, { context, ...entry }]) => ({
+			sessionId,
+			...entry,
+			...(context && { context }),
+		}))
+		.sort((a, b) => b.timestamp - a.timestamp);
+}
+
+/**
+ * Get recorded transitions, oldest first.
+ */
+export function getHistory(query: HistoryQuery = {}): StateHistoryEntry[] {
+	const { since, limit } = query;
+	const entries = since === undefined ? history : history.filter((e) => e.timestamp > since);
+	if (limit === undefined) {
+		return entries.slice();
+	}
+	return limit > 0 ? entries.slice(-limit) : [];
+}
+
+/**
+ * Clear the recorded history, so each test starts from an empty log.
+ * For tests only: the server keeps its history until it stops.
+ */
+export function resetHistoryForTests(): void {
+	history.length = 0;
+}
+
+/**
+ * Forget a session so it no longer appears in getSessions().
+ * Its pending timers are cancelled, so they can't bring it back.
+ * @returns True if the session was known.
+ */
+export function endSession(sessionId: string): boolean {
+	cancelTimers(sessionId);
+	return sessions.delete(sessionId);
+}
+
 /**
  * Set the avatar state.
- * @returns The previous state.
+ * When a session id is given, the change is also recorded for that session.
+ * If the active state hasn't been shown for its minimum dwell time and the new
+ * state doesn't outrank it, the change is deferred until the dwell time has passed.
+ * Context is cleaned up (and redacted, if configured) before it is stored or broadcast.
+ * @returns The previous state (of the session, when one is given).
  */
-export function setState(newState: AvatarState): AvatarState {
-	const previous = currentState;
-	currentState = newState;
-	stateTimestamp = Date.now();
-	notifyListeners();
-	return previous;
+export function setState(
+	newState: AvatarState,
+	sessionId?: string,
+	context?: StateContext,
+): AvatarState {
+	const cleaned = context && normalizeContext(context, { redact: redactContext });
+	const active = sessionId
+		? sessions.get(sessionId)
+		: { state: currentState, timestamp: stateTimestamp };
+	if (active) {
+		const delayMs = remainingDwell(active, newState);
+		if (delayMs > 0) {
+			deferState(newState, sessionId, cleaned, delayMs);
+			return active.state;
+		}
+	}
+	return applyState(newState, sessionId, "trigger", cleaned);
+}
+
+/**
+ * Replay a trigger that was spooled while the server wasn't running, with the time it was sent.
+ * There is no minimum dwell time, and triggers received since the server started win.
+ * Timed transitions and the idle timeout count from the time it was sent.
+ * @returns False if a newer trigger was already received.
+ */
+export function replayState(
+	newState: AvatarState,
+	sessionId: string | undefined,
+	context: StateContext | undefined,
+	timestamp: number,
+): boolean {
+	const superseded = history.some(
+		(entry) => entry.source === "trigger" && entry.timestamp >= timestamp,
+	);
+	if (superseded) {
+		return false;
+	}
+	const cleaned = context && normalizeContext(context, { redact: redactContext });
+	applyState(newState, sessionId, "spool", cleaned, timestamp);
+	return true;
+}
+
+/**
+ * Set the manifest whose duration/transition_to settings drive timed transitions.
+ * Pass null to disable timed transitions. Pending transitions are cancelled.
+ */
+export function setManifest(manifest: AvatarManifest | null): void {
+	activeManifest = manifest;
+	for (const key of [...transitionTimers.keys()]) {
+		cancelTimer(transitionTimers, key);
+	}
+}
+
+/**
+ * Apply state behaviour settings from the byteside config.
+ * Only affects timers started after the call.
+ */
+export function configureState(config: StateConfig = {}): void {
+	idleTimeoutMs = config.idleTimeoutMs ?? 0;
+	idleTimeouts = config.idleTimeouts ?? {};
+	minDwellMs = config.minDwellMs ?? 0;
+	minDwells = config.minDwells ?? {};
+	// Custom states are allowed here; entries the avatar doesn't define are never matched
+	priority = config.priority ?? [];
+	idleState = config.idleState ?? "idle";
+	redactContext = config.redactContext ?? false;
 }
 
 /**
@@ -78,14 +541,134 @@ export const VALID_STATES: readonly AvatarState[] = [
 	"waiting",
 ] as const;
 
+/**
+ * All states accepted right now: the core states, the optional states and any
+ * custom states declared by the active avatar manifest.
+ */
+export function getValidStates(): AvatarState[] {
+	const extra = [
+		...Object.keys(OPTIONAL_STATE_FALLBACKS),
+		...Object.keys(activeManifest?.states ?? {}),
+	].filter((state) => !VALID_STATES.includes(state));
+	return [...new Set([...VALID_STATES, ...extra])];
+}
+
 /**
  * Check if a string is a valid avatar state.
+ * Custom states are only valid when the active manifest declares them;
+ * optional states are always accepted (see resolveState()).
  */
 export function isValidState(state: unknown): state is AvatarState {
-	return typeof state === "string" && VALID_STATES.includes(state as AvatarState);
+	if (typeof state !== "string") {
+		return false;
+	}
+	return (
+		VALID_STATES.includes(state) ||
+		Object.hasOwn(OPTIONAL_STATE_FALLBACKS, state) ||
+		Object.hasOwn(activeManifest?.states ?? {}, state)
+	);
+}
+
+/**
+ * Map an optional state the active avatar doesn't declare to its core fallback.
+ * Other states are returned unchanged.
+ */
+export function resolveState(state: AvatarState): AvatarState {
+	if (Object.hasOwn(activeManifest?.states ?? {}, state)) {
+		return state;
+	}
+	return Object.hasOwn(OPTIONAL_STATE_FALLBACKS, state)
+		? (OPTIONAL_STATE_FALLBACKS[state] ?? state)
+		: state;
+}
+
+/**
+ * Check if a value is usable as a session id.
+ */
+export function isValidSessionId(sessionId: unknown): sessionId is string {
+	return typeof sessionId === "string" && sessionId.length > 0 && sessionId.length <= 128;
+}
+
+/**
+ * Validate a state update from POST /state or the state socket and apply it.
+ * Optional states the avatar doesn't declare are shown as their core fallback.
+ * With `endSession`, the session is forgotten once its state is applied.
+ */
+export function applyStateUpdate(body: unknown): StatePostResponse | StatePostError {
+	const validStates = getValidStates();
+	const update = (typeof body === "object" && body !== null ? body : {}) as Record<string, unknown>;
+	const sessionId = update["sessionId"];
+	const context = update["context"];
+
+	if (!isValidState(update["state"])) {
+		return {
+			ok: false,
+			error: `Invalid state. Must be one of: ${validStates.join(", ")}`,
+			validStates,
+		};
+	}
+
+	if (sessionId !== undefined && !isValidSessionId(sessionId)) {
+		return {
+			ok: false,
+			error: "Invalid sessionId. Must be a non-empty string of at most 128 characters",
+			validStates,
+		};
+	}
+
+	if (context !== undefined && !isValidStateContext(context)) {
+		return {
+			ok: false,
+			error: `Invalid context. Must be an object with string fields: ${CONTEXT_FIELDS.join(", ")}`,
+			validStates,
+		};
+	}
+
+	if (update["endSession"] !== undefined && typeof update["endSession"] !== "boolean") {
+		return { ok: false, error: "Invalid endSession. Must be a boolean", validStates };
+	}
+
+	const state = resolveState(update["state"]);
+	if (update["endSession"] && sessionId) {
+		// The session's last state isn't held back by the dwell time, as nothing follows it
+		const cleaned = context && normalizeContext(context, { redact: redactContext });
+		const previous = applyState(state, sessionId, "trigger", cleaned);
+		endSession(sessionId);
+		return { ok: true, state, previous, sessionId };
+	}
+	const previous = setState(state, sessionId, context);
+	return { ok: true, state, previous, sessionId };
+}
+
+/**
+ * Wait until the state plugin has loaded its settings and the avatar's manifest.
+ */
+export function whenStateReady(): Promise<void> {
+	return ready;
 }
 
 export default definePlugin(() => {
 	// Plugin initializes the state module
 	console.log("[byteside] State manager initialized with idle state");
+
+	// Load state settings and the active avatar's manifest so the server owns timed transitions
+	const runtimeConfig = useRuntimeConfig();
+	const avatar = (runtimeConfig.public?.avatar as string) || "default";
+	loadBytesideConfig(process.env["BYTESIDE_CWD"])
+		.then((config) => {
+			configureState({ ...defaults.state, ...config.state });
+			return loadAvatarManifest(avatar, config.avatarPaths ?? ["~/.byteside/avatars"]);
+		})
+		.then((manifest) => {
+			if (manifest) {
+				setManifest(manifest);
+				console.log(`[byteside] Loaded state transitions from avatar "${avatar}"`);
+			} else {
+				console.warn(`[byteside] Avatar "${avatar}" not found, timed transitions disabled`);
+			}
+		})
+		.catch((err) => {
+			console.error("[byteside] Failed to load avatar manifest:", err);
+		})
+		.finally(markReady);
 });
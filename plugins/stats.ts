@@ -0,0 +1,158 @@
+import { definePlugin } from "nitro";
+import type {
+	AvatarState,
+	SessionStats,
+	StateSource,
+	StateStats,
+	StatsResponse,
+} from "../src/types";
+import { getState, onStateChange, type StateChangeDetails } from "./state";
+
+/**
+ * Maximum number of sessions whose statistics are kept.
+ * The least recently active session is dropped first.
+ */
+export const MAX_STATS_SESSIONS = 100;
+
+/**
+ * States entered when a tool is called.
+ */
+const TOOL_STATES: readonly AvatarState[] = ["writing", "bash"];
+
+/**
+ * Running counters for one timeline (overall or a single session).
+ */
+interface Tracker {
+	stats: StateStats;
+	/** State the timeline is currently in */
+	state: AvatarState;
+	/** When the current state was entered */
+	enteredAt: number;
+}
+
+function createTracker(state: AvatarState, now: number): Tracker {
+	return {
+		stats: { durations: {}, toolCalls: 0, errors: 0, waits: 0, transitions: 0, since: now },
+		state,
+		enteredAt: now,
+	};
+}
+
+/**
+ * Overall timeline, following the state shown by the viewer.
+ */
+let overall = createTracker(getState().state, Date.now());
+
+/**
+ * Per-session timelines, least recently active first.
+ */
+const sessions = new Map<string, Tracker>();
+
+/**
+ * Add time spent in a state; states with no time spent are left out.
+ */
+function addTime(durations: Record<string, number>, state: AvatarState, ms: number): void {
+	if (ms > 0) {
+		durations[state] = (durations[state] ?? 0) + ms;
+	}
+}
+
+/**
+ * Close the current state's time slice and count the new state.
+ */
+function advance(
+	tracker: Tracker,
+	state: AvatarState,
+	timestamp: number,
+	source: StateSource,
+): void {
+	const { stats } = tracker;
+	addTime(stats.durations, tracker.state, timestamp - tracker.enteredAt);
+	tracker.state = state;
+	tracker.enteredAt = timestamp;
+
+	stats.transitions++;
+	if ((source === "trigger" || source === "spool") && TOOL_STATES.includes(state)) {
+		stats.toolCalls++;
+	}
+	if (state === "error") {
+		stats.errors++;
+	}
+	if (state === "waiting") {
+		stats.waits++;
+	}
+}
+
+/**
+ * Stats of a timeline including the time spent in its current state so far.
+ */
+function snapshot(tracker: Tracker, now: number): StateStats {
+	const durations = { ...tracker.stats.durations };
+	addTime(durations, tracker.state, now - tracker.enteredAt);
+	return { ...tracker.stats, durations };
+}
+
+/**
+ * Update the counters for a state change (registered with onStateChange).
+ */
+export function recordStateChange(
+	state: AvatarState,
+	timestamp: number,
+	{ previous, source, sessionId, background }: StateChangeDetails,
+): void {
+	if (!background) {
+		advance(overall, state, timestamp, source);
+	}
+
+	if (sessionId) {
+		const tracker = sessions.get(sessionId) ?? createTracker(previous, timestamp);
+		advance(tracker, state, timestamp, source);
+
+		// Re-insert so the map stays ordered by activity
+		sessions.delete(sessionId);
+		sessions.set(sessionId, tracker);
+		if (sessions.size > MAX_STATS_SESSIONS) {
+			const oldest = sessions.keys().next().value;
+			if (oldest !== undefined) {
+				sessions.delete(oldest);
+			}
+		}
+	}
+}
+
+/**
+ * Get overall statistics and those of every tracked session.
+ */
+export function getStats(): StatsResponse {
+	const now = Date.now();
+	return {
+		overall: snapshot(overall, now),
+		sessions: [...sessions.entries()]
+			.reverse()
+			.map(([sessionId, tracker]) => ({ sessionId, ...snapshot(tracker, now) })),
+	};
+}
+
+/**
+ * Get statistics for a single session.
+ * @returns The session's stats, or null if the session is unknown.
+ */
+export function getSessionStats(sessionId: string): SessionStats | null {
+	const tracker = sessions.get(sessionId);
+	return tracker ? { sessionId, ...snapshot(tracker, Date.now()) } : null;
+}
+
+/**
+ * Forget all statistics and start counting from the current state, so each
+ * test starts from zero. For tests only: the server counts until it stops.
+ */
+export function resetStatsForTests(): void {
+	overall = createTracker(getState().state, Date.now());
+	sessions.clear();
+}
+
+onStateChange(recordStateChange);
+
+export default definePlugin(() => {
+	console.log("[byteside] Session statistics enabled");
+});
@@ -7,6 +7,7 @@
 	const videoA = document.getElementById("avatar-video-a");
 	const videoB = document.getElementById("avatar-video-b");
 	const stateLabel = document.getElementById("state-label");
+	const stateCaption = document.getElementById("state-caption");
 	const debugPanel = document.getElementById("debug-panel");
 	const connectionIndicator = document.getElementById("connection-indicator");
 
@@ -15,6 +16,8 @@
 	const debugState = document.getElementById("debug-state");
 	const debugPrevious = document.getElementById("debug-previous");
 	const debugTimestamp = document.getElementById("debug-timestamp");
+	const debugSession = document.getElementById("debug-session");
+	const debugHistory = document.getElementById("debug-history");
 
 	// State
 	let ws = null;
@@ -24,7 +27,6 @@
 	let reconnectTimeout = null;
 	let pingInterval = null;
 	let manifest = null;
-	let transitionTimeout = null;
 	let activeVideo = videoA;
 	let inactiveVideo = videoB;
 	const preloadedVideos = {};
@@ -34,10 +36,14 @@
 	const MAX_RECONNECT_DELAY = 30000;
 	const PING_INTERVAL = 30000;
 	const CROSSFADE_DURATION = 300; // ms, should match CSS transition
+	const MAX_HISTORY_ITEMS = 10;
 
 	// Config (loaded from server)
 	let avatarName = "default";
 
+	// Session to follow (?session=<id>); null follows all sessions
+	const followSession = new URLSearchParams(window.location.search).get("session");
+
 	/**
 	 * Build WebSocket URL based on current location
 	 */
@@ -90,7 +96,8 @@
 	async function preloadVideos() {
 		if (!manifest || !manifest.states) return;
 
-		const states = Object.keys(manifest.states);
+		// Alias states without a file reuse their fallback's video
+		const states = Object.keys(manifest.states).filter((state) => manifest.states[state].file);
 		console.log(`[byteside] Preloading ${states.length} videos...`);
 
 		const promises = states.map((state) => {
@@ -125,36 +132,50 @@
 		console.log("[byteside] All videos preloaded");
 	}
 
+	/**
+	 * Resolve a state to the first state in its fallback chain that has a video
+	 * (state -> fallback -> ... -> idle). Mirrors getFallbackChain in src/manifest.ts.
+	 */
+	function resolveState(state) {
+		if (!manifest?.states) return state;
+
+		const seen = new Set();
+		let current = state;
+		while (current && !seen.has(current)) {
+			seen.add(current);
+			const config = manifest.states[current];
+			if (config?.file) return current;
+			current = config?.fallback;
+		}
+		return "idle";
+	}
+
 	/**
 	 * Get video URL for a state
 	 */
 	function getVideoUrl(state) {
+		state = resolveState(state);
+
 		// Use preloaded URL if available
 		if (preloadedVideos[state]) {
 			return preloadedVideos[state];
 		}
 
-		// Fallback to constructing URL
-		if (!manifest || !manifest.states[state]) {
-			state = "idle";
-		}
-		const stateConfig = manifest.states[state];
+		const stateConfig = manifest?.states?.[state];
 		if (!stateConfig) return null;
 		return `/avatars/${avatarName}/${stateConfig.file}`;
 	}
 
 	/**
-	 * Get state configuration
+	 * Get state configuration, following the fallback chain to a state with a video
 	 */
 	function getStateConfig(state) {
-		if (!manifest || !manifest.states[state]) {
-			return manifest?.states?.idle || null;
-		}
-		return manifest.states[state];
+		return manifest?.states?.[resolveState(state)] || null;
 	}
 
 	/**
 	 * Crossfade to a new video
+	 * Timed transitions (duration/transition_to) arrive from the server as state messages.
 	 */
 	function crossfadeTo(state) {
 		const videoUrl = getVideoUrl(state);
@@ -162,12 +183,6 @@
 
 		const stateConfig = getStateConfig(state);
 
-		// Clear any pending transition
-		if (transitionTimeout) {
-			clearTimeout(transitionTimeout);
-			transitionTimeout = null;
-		}
-
 		// Set up the inactive video with the new source
 		inactiveVideo.src = videoUrl;
 
@@ -201,13 +216,6 @@
 
 		inactiveVideo.addEventListener("canplay", onCanPlay);
 		inactiveVideo.load();
-
-		// Handle one-shot states with transitions
-		if (isOneShot && stateConfig.transition_to) {
-			transitionTimeout = setTimeout(() => {
-				updateStateDisplay(stateConfig.transition_to);
-			}, stateConfig.duration);
-		}
 	}
 
 	/**
@@ -229,6 +237,25 @@
 		});
 	}
 
+	/**
+	 * One-line caption for a state's context. Mirrors formatCaption in src/context.ts.
+	 */
+	function formatCaption(context) {
+		if (!context) return "";
+		if (context.message) return context.message;
+		if (context.command) return `$ ${context.command}`;
+		return [context.tool, context.file].filter(Boolean).join(" ");
+	}
+
+	/**
+	 * Show what the agent is doing under the avatar
+	 */
+	function updateCaption(context) {
+		const caption = formatCaption(context);
+		stateCaption.textContent = caption;
+		stateCaption.title = caption;
+	}
+
 	/**
 	 * Update the main state display
 	 */
@@ -271,6 +298,31 @@
 		debugTimestamp.textContent = date.toLocaleTimeString();
 	}
 
+	/**
+	 * Prepend a transition to the recent history list (newest first)
+	 */
+	function addHistoryItem(state, timestamp) {
+		const item = document.createElement("li");
+		item.textContent = `${new Date(timestamp).toLocaleTimeString()} ${state}`;
+		debugHistory.prepend(item);
+
+		while (debugHistory.children.length > MAX_HISTORY_ITEMS) {
+			debugHistory.lastElementChild.remove();
+		}
+	}
+
+	/**
+	 * Replace the recent history list with the server's replayed tail
+	 */
+	function showHistory(entries) {
+		debugHistory.replaceChildren();
+		for (const entry of entries) {
+			if (isFollowed(entry.sessionId)) {
+				addHistoryItem(entry.state, entry.timestamp);
+			}
+		}
+	}
+
 	/**
 	 * Calculate reconnect delay with exponential backoff
 	 */
@@ -301,6 +353,21 @@
 		}
 	}
 
+	/**
+	 * Check whether a state message belongs to the followed session
+	 */
+	function isFollowed(sessionId) {
+		return !followSession || sessionId === followSession;
+	}
+
+	/**
+	 * Check whether a state message should change the display.
+	 * Background messages only move their own session, not the overall state.
+	 */
+	function shouldDisplay(msg) {
+		return followSession ? msg.sessionId === followSession : !msg.background;
+	}
+
 	/**
 	 * Handle incoming WebSocket message
 	 */
@@ -309,14 +376,26 @@
 			const msg = JSON.parse(event.data);
 
 			switch (msg.type) {
-				case "welcome":
-					updateStateDisplay(msg.state);
-					updateTimestamp(msg.timestamp);
+				case "welcome": {
+					// When following a session, start from that session's last known state
+					const session = followSession
+						? (msg.sessions || []).find((s) => s.sessionId === followSession)
+						: null;
+					const state = followSession ? (session?.state ?? "idle") : msg.state;
+					updateStateDisplay(state);
+					updateCaption(followSession ? session?.context : msg.context);
+					updateTimestamp(session?.timestamp ?? msg.timestamp);
+					showHistory(msg.history || []);
 					break;
+				}
 
 				case "state":
+					if (!shouldDisplay(msg)) break;
 					updateStateDisplay(msg.state);
+					updateCaption(msg.context);
 					updateTimestamp(msg.timestamp);
+					debugSession.textContent = msg.sessionId || "-";
+					addHistoryItem(msg.state, msg.timestamp);
 					break;
 
 				case "pong":
@@ -405,6 +484,11 @@
 			return;
 		}
 
+		if (followSession) {
+			console.log("[byteside] Following session:", followSession);
+			debugSession.textContent = followSession;
+		}
+
 		// Preload all videos for smooth transitions
 		await preloadVideos();
 
@@ -1,7 +1,12 @@
 import { defineWebSocketHandler, type Peer } from "nitro/h3";
-import { getState, onStateChange } from "../plugins/state";
+import { getHistory, getSessions, getState, onStateChange } from "../plugins/state";
 import type { WsPongMessage, WsStateMessage, WsWelcomeMessage } from "../src/types";
 
+/**
+ * Number of recent transitions replayed to a client when it connects.
+ */
+const WELCOME_HISTORY_LIMIT = 20;
+
 /**
  * Set of connected WebSocket peers.
  */
@@ -22,11 +27,15 @@ function broadcast(message: WsStateMessage): void {
 }
 
 // Register state change listener at module load
-onStateChange((state, timestamp) => {
+onStateChange((state, timestamp, { source, sessionId, context, background }) => {
 	const message: WsStateMessage = {
 		type: "state",
 		state,
 		timestamp,
+		source,
+		sessionId,
+		context,
+		background: background || undefined,
 	};
 	broadcast(message);
 });
@@ -40,12 +49,15 @@ export default defineWebSocketHandler({
 		peers.add(peer);
 		console.log(`[byteside] WebSocket client connected (${peers.size} total)`);
 
-		// Send welcome message with current state
-		const { state, timestamp } = getState();
+		// Send welcome message with current state, live sessions and recent history
+		const { state, timestamp, context } = getState();
 		const welcome: WsWelcomeMessage = {
 			type: "welcome",
 			state,
 			timestamp,
+			context,
+			sessions: getSessions(),
+			history: getHistory({ limit: WELCOME_HISTORY_LIMIT }),
 		};
 		peer.send(JSON.stringify(welcome));
 	},
@@ -0,0 +1,10 @@
+import { defineHandler } from "nitro/h3";
+import { getSessions } from "../plugins/state";
+import type { SessionsResponse } from "../src/types";
+
+/**
+ * GET /sessions - Lists live Claude Code sessions and their current states.
+ */
+export default defineHandler((): SessionsResponse => {
+	return { sessions: getSessions() };
+});
@@ -1,10 +1,27 @@
-import { defineHandler } from "nitro/h3";
-import { getState } from "../plugins/state";
+import { defineHandler, getQuery, setResponseStatus } from "nitro/h3";
+import { getSessionState, getState } from "../plugins/state";
 import type { StateResponse } from "../src/types";
 
+interface StateGetError {
+	ok: false;
+	error: string;
+}
+
 /**
  * GET /state - Returns the current avatar state.
+ * Pass ?session=<id> to get the state of a single Claude Code session.
  */
-export default defineHandler((): StateResponse => {
+export default defineHandler((event): StateResponse | StateGetError => {
+	const { session } = getQuery(event);
+
+	if (typeof session === "string" && session.length > 0) {
+		const sessionState = getSessionState(session);
+		if (!sessionState) {
+			setResponseStatus(event, 404);
+			return { ok: false, error: `Unknown session: ${session}` };
+		}
+		return sessionState;
+	}
+
 	return getState();
 });
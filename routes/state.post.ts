@@ -1,39 +1,19 @@
 import { defineHandler, readBody, setResponseStatus } from "nitro/h3";
-import { isValidState, setState, VALID_STATES } from "../plugins/state";
-import type { AvatarState, StateUpdate } from "../src/types";
-
-interface StatePostResponse {
-	ok: true;
-	state: AvatarState;
-	previous: AvatarState;
-}
-
-interface StatePostError {
-	ok: false;
-	error: string;
-	validStates: readonly AvatarState[];
-}
+import { applyStateUpdate, whenStateReady } from "../plugins/state";
+import type { StatePostError, StatePostResponse, StateUpdate } from "../src/types";
 
 /**
  * POST /state - Updates the avatar state.
+ * An optional sessionId records the change for that Claude Code session,
+ * and an optional context describes what the agent is doing.
  */
 export default defineHandler(async (event): Promise<StatePostResponse | StatePostError> => {
 	const body = await readBody<StateUpdate>(event);
-
-	if (!body || !isValidState(body.state)) {
+	// Custom states are only valid once the avatar's manifest has loaded
+	await whenStateReady();
+	const result = applyStateUpdate(body);
+	if (!result.ok) {
 		setResponseStatus(event, 400);
-		return {
-			ok: false,
-			error: `Invalid state. Must be one of: ${VALID_STATES.join(", ")}`,
-			validStates: VALID_STATES,
-		};
 	}
-
-	const previous = setState(body.state);
-
-	return {
-		ok: true,
-		state: body.state,
-		previous,
-	};
+	return result;
 });
@@ -0,0 +1,39 @@
+import { defineHandler, getQuery, setResponseStatus } from "nitro/h3";
+import { getHistory, HISTORY_SIZE } from "../../plugins/state";
+import type { StateHistoryResponse } from "../../src/types";
+
+interface StateHistoryError {
+	ok: false;
+	error: string;
+}
+
+/**
+ * Parse a non-negative integer query parameter.
+ * Returns undefined when absent and null when invalid.
+ */
+function parseIntParam(value: unknown): number | undefined | null {
+	if (value === undefined || value === "") {
+		return undefined;
+	}
+	const parsed = Number(value);
+	return Number.isInteger(parsed) && parsed >= 0 ? parsed : null;
+}
+
+/**
+ * GET /state/history - Returns recent state transitions, oldest first.
+ * Query: ?since=<timestamp ms>&limit=<count>
+ */
+export default defineHandler((event): StateHistoryResponse | StateHistoryError => {
+	const query = getQuery(event);
+	const since = parseIntParam(query["since"]);
+	const limit = parseIntParam(query["limit"]);
+
+	if (since === null || limit === null) {
+		setResponseStatus(event, 400);
+		return { ok: false, error: "since and limit must be non-negative integers" };
+	}
+
+	return {
+		entries: getHistory({ since, limit: Math.min(limit ?? HISTORY_SIZE, HISTORY_SIZE) }),
+	};
+});
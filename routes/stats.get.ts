@@ -0,0 +1,27 @@
+import { defineHandler, getQuery, setResponseStatus } from "nitro/h3";
+import { getSessionStats, getStats } from "../plugins/stats";
+import type { SessionStats, StatsResponse } from "../src/types";
+
+interface StatsGetError {
+	ok: false;
+	error: string;
+}
+
+/**
+ * GET /stats - Returns time spent per state, tool calls, errors and waits.
+ * Pass ?session=<id> to get the statistics of a single Claude Code session.
+ */
+export default defineHandler((event): StatsResponse | SessionStats | StatsGetError => {
+	const { session } = getQuery(event);
+
+	if (typeof session === "string" && session.length > 0) {
+		const sessionStats = getSessionStats(session);
+		if (!sessionStats) {
+			setResponseStatus(event, 404);
+			return { ok: false, error: `Unknown session: ${session}` };
+		}
+		return sessionStats;
+	}
+
+	return getStats();
+});
@@ -0,0 +1,37 @@
+import { existsSync } from "node:fs";
+import { dirname } from "node:path";
+import {
+	DEFAULT_TOOL_MAPPING,
+	generateHookConfig,
+	getClaudeSettingsPath,
+	getHookStatus,
+	HOOK_EVENTS,
+	HOOK_SCOPES,
+	installHooks,
+	stateForHookInput,
+	uninstallHooks,
+} from "../hooks.js";
+import type { AgentAdapter } from "./types.js";
+
+/**
+ * Claude Code: hooks in ~/.claude/settings.json, .claude/settings.json and
+ * .claude/settings.local.json.
+ */
+export const claudeAdapter: AgentAdapter = {
+	name: "claude",
+	displayName: "Claude Code",
+	scopes: HOOK_SCOPES,
+	events: HOOK_EVENTS,
+	toolEvent: "PreToolUse",
+	sessionEndEvent: "SessionEnd",
+	defaultToolMapping: DEFAULT_TOOL_MAPPING,
+	settingsPath: getClaudeSettingsPath,
+	detect: () =>
+		existsSync(dirname(getClaudeSettingsPath("global"))) ||
+		existsSync(dirname(getClaudeSettingsPath("project"))),
+	generateHooks: generateHookConfig,
+	install: installHooks,
+	uninstall: uninstallHooks,
+	status: getHookStatus,
+	stateForEvent: stateForHookInput,
+};
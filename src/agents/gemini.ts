@@ -0,0 +1,129 @@
+import { existsSync } from "node:fs";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { HookInput } from "../hook-input.js";
+import {
+	type ClaudeHooks,
+	getHookStatus,
+	getToolMapping,
+	type HookScope,
+	hookCommand,
+	installHooks,
+	isToolFailure,
+	stateForTool,
+	type ToolMapping,
+	uninstallHooks,
+} from "../hooks.js";
+import type { HookTarget } from "../instances.js";
+import type { AvatarState } from "../types.js";
+import type { AgentAdapter } from "./types.js";
+
+/**
+ * Gemini CLI hook events byteside installs a handler for.
+ */
+export const GEMINI_HOOK_EVENTS = [
+	"BeforeAgent",
+	"BeforeTool",
+	"AfterTool",
+	"Notification",
+	"AfterAgent",
+	"PreCompress",
+	"SessionStart",
+	"SessionEnd",
+] as const;
+
+/**
+ * Built-in tool mapping for Gemini CLI's tool names.
+ */
+export const DEFAULT_GEMINI_TOOL_MAPPING: Readonly<Record<string, AvatarState>> = {
+	"write_file|replace": "writing",
+	run_shell_command: "bash",
+};
+
+/**
+ * Get the Gemini CLI settings path of a scope: ~/.gemini/settings.json or
+ * .gemini/settings.json. Gemini CLI has no local settings file.
+ */
+export function getGeminiSettingsPath(scope: HookScope): string {
+	const dir = scope === "global" ? homedir() : process.cwd();
+	return join(dir, ".gemini", "settings.json");
+}
+
+/**
+ * Generate the byteside hooks for Gemini CLI. Like the Claude Code hooks, each
+ * event gets one `byteside hook <event> --agent gemini` entry and BeforeTool
+ * only matches mapped tools. Gemini CLI waits for hooks, so they have to stay quick.
+ */
+export function generateGeminiHookConfig(
+	mapping: ToolMapping[] = getToolMapping({}, DEFAULT_GEMINI_TOOL_MAPPING),
+	target: HookTarget = {},
+): ClaudeHooks {
+	const hooks: ClaudeHooks = {};
+	for (const event of GEMINI_HOOK_EVENTS) {
+		const matcher =
+			event === "BeforeTool" ? mapping.map(({ pattern }) => pattern).join("|") : undefined;
+		hooks[event] = [
+			{
+				...(matcher && { matcher }),
+				hooks: [{ type: "command", command: hookCommand(event, target, "gemini") }],
+			},
+		];
+	}
+	return hooks;
+}
+
+/**
+ * Decide the avatar state for a Gemini CLI hook payload.
+ * @param mapping Tool mapping used for BeforeTool (defaults to the built-in Gemini mapping)
+ */
+export function stateForGeminiHookInput(
+	input: HookInput,
+	mapping: ToolMapping[] = getToolMapping({}, DEFAULT_GEMINI_TOOL_MAPPING),
+): AvatarState | null {
+	switch (input.hook_event_name) {
+		case "BeforeAgent":
+			return "thinking";
+		case "BeforeTool":
+			return input.tool_name ? stateForTool(input.tool_name, mapping) : null;
+		case "AfterTool":
+			return isToolFailure(input) ? "error" : "thinking";
+		case "Notification":
+			return "waiting";
+		case "AfterAgent":
+			return "success";
+		case "PreCompress":
+			return "compacting";
+		case "SessionStart":
+			return "starting";
+		case "SessionEnd":
+			return "idle";
+		default:
+			return null;
+	}
+}
+
+/**
+ * Gemini CLI: hooks in ~/.gemini/settings.json and .gemini/settings.json.
+ */
+export const geminiAdapter: AgentAdapter = {
+	name: "gemini",
+	displayName: "Gemini CLI",
+	scopes: ["global", "project"],
+	events: GEMINI_HOOK_EVENTS,
+	toolEvent: "BeforeTool",
+	sessionEndEvent: "SessionEnd",
+	defaultToolMapping: DEFAULT_GEMINI_TOOL_MAPPING,
+	settingsPath: getGeminiSettingsPath,
+	detect: () =>
+		existsSync(dirname(getGeminiSettingsPath("global"))) ||
+		existsSync(dirname(getGeminiSettingsPath("project"))),
+	generateHooks: generateGeminiHookConfig,
+	install: (path, options = {}) =>
+		installHooks(path, {
+			...options,
+			hooks: options.hooks ?? generateGeminiHookConfig(options.mapping, options.target),
+		}),
+	uninstall: uninstallHooks,
+	status: getHookStatus,
+	stateForEvent: stateForGeminiHookInput,
+};
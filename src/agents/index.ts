@@ -0,0 +1,35 @@
+import { claudeAdapter } from "./claude.js";
+import { geminiAdapter } from "./gemini.js";
+import type { AgentAdapter } from "./types.js";
+
+export { claudeAdapter } from "./claude.js";
+export {
+	DEFAULT_GEMINI_TOOL_MAPPING,
+	GEMINI_HOOK_EVENTS,
+	geminiAdapter,
+	generateGeminiHookConfig,
+	getGeminiSettingsPath,
+	stateForGeminiHookInput,
+} from "./gemini.js";
+export type { AgentAdapter, UninstallOptions } from "./types.js";
+
+/**
+ * Agents byteside can install hooks for, by name.
+ */
+export const AGENTS: Readonly<Record<string, AgentAdapter>> = {
+	[claudeAdapter.name]: claudeAdapter,
+	[geminiAdapter.name]: geminiAdapter,
+};
+
+/**
+ * Agent used when --agent isn't given.
+ */
+export const DEFAULT_AGENT = claudeAdapter.name;
+
+/**
+ * Look up an agent adapter by name.
+ * @returns The adapter, or null if byteside doesn't support the agent.
+ */
+export function getAgent(name: string = DEFAULT_AGENT): AgentAdapter | null {
+	return Object.hasOwn(AGENTS, name) ? (AGENTS[name] ?? null) : null;
+}
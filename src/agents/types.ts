@@ -0,0 +1,55 @@
+import type { HookInput } from "../hook-input.js";
+import type {
+	ClaudeHooks,
+	HookResult,
+	HookScope,
+	HookStatus,
+	InstallOptions,
+	ToolMapping,
+} from "../hooks.js";
+import type { HookTarget } from "../instances.js";
+import type { AvatarState } from "../types.js";
+
+/**
+ * Options for removing byteside hooks.
+ */
+export interface UninstallOptions {
+	noBackup?: boolean;
+	dryRun?: boolean;
+}
+
+/**
+ * An AI coding agent byteside can install hooks for.
+ * Agents keep their hooks in JSON settings files with the Claude Code layout:
+ * hook entries (with an optional tool matcher) keyed by event name.
+ */
+export interface AgentAdapter {
+	/** Name used with --agent and in generated hook commands */
+	readonly name: string;
+	/** Name shown to users */
+	readonly displayName: string;
+	/** Settings scopes the agent reads hooks from */
+	readonly scopes: readonly HookScope[];
+	/** Events byteside installs a `byteside hook <event>` handler for */
+	readonly events: readonly string[];
+	/** Event whose state comes from the tool mapping, i.e. the one sent before a tool runs */
+	readonly toolEvent: string;
+	/** Event sent when a session ends, after which the server forgets the session */
+	readonly sessionEndEvent: string;
+	/** Built-in tool mapping for the agent's tool names */
+	readonly defaultToolMapping: Readonly<Record<string, AvatarState>>;
+	/** Settings file of a scope */
+	settingsPath(scope: HookScope): string;
+	/** Check whether the agent has a settings directory globally or in the current project */
+	detect(): boolean;
+	/** Generate the hooks byteside installs */
+	generateHooks(mapping?: ToolMapping[], target?: HookTarget): ClaudeHooks;
+	install(path: string, options?: InstallOptions): Promise<HookResult>;
+	uninstall(path: string, options?: UninstallOptions): Promise<HookResult>;
+	status(path: string): Promise<HookStatus>;
+	/**
+	 * Decide the avatar state for a hook payload.
+	 * @returns The state to show, or null when the event shouldn't change it.
+	 */
+	stateForEvent(input: HookInput, mapping?: ToolMapping[]): AvatarState | null;
+}
@@ -3,7 +3,7 @@ import { cp, mkdir, readdir, readFile } from "node:fs/promises";
 import { homedir } from "node:os";
 import { dirname, join, resolve } from "node:path";
 import { fileURLToPath } from "node:url";
-import { parseManifest } from "./manifest.js";
+import { type AvatarManifest, parseManifest } from "./manifest.js";
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
@@ -155,3 +155,36 @@ export async function resolveAvatarPath(name: string, paths: string[]): Promise<
 	const found = avatars.find((a) => a.name === name);
 	return found?.path ?? null;
 }
+
+/**
+ * Load the manifest of an avatar by name.
+ * Searches configured avatar paths first, then the bundled avatars.
+ *
+ * @param name Avatar name to load
+ * @param paths Array of paths to search
+ * @returns The validated manifest, or null if the avatar is missing or invalid
+ */
+export async function loadAvatarManifest(
+	name: string,
+	paths: string[],
+): Promise<AvatarManifest | null> {
+	let avatarDir = await resolveAvatarPath(name, paths);
+	if (!avatarDir) {
+		const bundledAvatarDir = join(getBundledAvatarsDir(), name);
+		if (existsSync(join(bundledAvatarDir, "manifest.json"))) {
+			avatarDir = bundledAvatarDir;
+		}
+	}
+
+	if (!avatarDir) {
+		return null;
+	}
+
+	try {
+		const manifestContent = await readFile(join(avatarDir, "manifest.json"), "utf-8");
+		const result = parseManifest(manifestContent);
+		return result.valid && result.manifest ? result.manifest : null;
+	} catch {
+		return null;
+	}
+}
@@ -0,0 +1,124 @@
+import { existsSync } from "node:fs";
+import { copyFile, readdir, readFile, stat, unlink } from "node:fs/promises";
+import { basename, dirname, join } from "node:path";
+import { type ClaudeSettings, countBytesideHooks, createBackup, type HookResult } from "./hooks";
+import { parseJsonc } from "./jsonc";
+
+/**
+ * Backup file names written by createBackup(): <name>.backup-<ISO time with : and . as ->.json
+ */
+const BACKUP_TIMESTAMP_REGEX = /^(\d{4}-\d{2}-\d{2})T(\d{2})-(\d{2})-(\d{2})-(\d{3})Z$/;
+
+/**
+ * A backup of a Claude settings file.
+ */
+export interface SettingsBackup {
+	path: string;
+	createdAt: number;
+	size: number;
+	/** Number of byteside hooks in the backup, or null if it isn't valid JSON */
+	hookCount: number | null;
+}
+
+/**
+ * Parse the creation time from a backup file name.
+ * @returns The time (ms), or null if the name isn't a backup of `settingsPath`.
+ */
+export function parseBackupTime(settingsPath: string, fileName: string): number | null {
+	const prefix = `${basename(settingsPath, ".json")}.backup-`;
+	if (!fileName.startsWith(prefix) || !fileName.endsWith(".json")) {
+		return null;
+	}
+
+	const match = BACKUP_TIMESTAMP_REGEX.exec(fileName.slice(prefix.length, -".json".length));
+	if (!match) {
+		return null;
+	}
+	const [, date, hours, minutes, seconds, ms] = match;
+	return Date.parse(`${date}T${hours}:${minutes}:${seconds}.${ms}Z`);
+}
+
+/**
+ * Count the byteside hooks in a settings file's content.
+ * @returns The count, or null if the content isn't valid JSON (comments are allowed).
+ */
+function countHooksInContent(content: string): number | null {
+	try {
+		return countBytesideHooks(parseJsonc(content) as ClaudeSettings);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * List the backups of a settings file, newest first.
+ */
+export async function listBackups(settingsPath: string): Promise<SettingsBackup[]> {
+	const dir = dirname(settingsPath);
+	if (!existsSync(dir)) {
+		return [];
+	}
+
+	const backups: SettingsBackup[] = [];
+	for (const name of await readdir(dir)) {
+		const createdAt = parseBackupTime(settingsPath, name);
+		if (createdAt === null) continue;
+
+		const path = join(dir, name);
+		const [info, content] = await Promise.all([stat(path), readFile(path, "utf-8")]);
+		backups.push({ path, createdAt, size: info.size, hookCount: countHooksInContent(content) });
+	}
+	return backups.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/**
+ * Find a backup by its position in listBackups() (1 is the newest), file name or path.
+ */
+export function findBackup(backups: SettingsBackup[], id: string): SettingsBackup | null {
+	if (/^\d+$/.test(id)) {
+		return backups[Number(id) - 1] ?? null;
+	}
+	return backups.find((backup) => backup.path === id || basename(backup.path) === id) ?? null;
+}
+
+/**
+ * Restore a backup over a settings file.
+ * The current file is backed up first (unless disabled), so a restore can be undone.
+ */
+export async function restoreBackup(
+	settingsPath: string,
+	backupPath: string,
+	options: { noBackup?: boolean } = {},
+): Promise<HookResult> {
+	try {
+		const content = await readFile(backupPath, "utf-8");
+		if (countHooksInContent(content) === null) {
+			return { success: false, message: `Invalid JSON in ${backupPath}; not restoring it.` };
+		}
+
+		const currentBackup = options.noBackup ? null : await createBackup(settingsPath);
+		await copyFile(backupPath, settingsPath);
+		return {
+			success: true,
+			message: `Restored ${basename(backupPath)} to ${settingsPath}`,
+			backupPath: currentBackup ?? undefined,
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return { success: false, message: `Failed to restore backup: ${message}` };
+	}
+}
+
+/**
+ * Delete all but the `keep` most recent backups of a settings file.
+ * @returns Paths of the deleted backups.
+ */
+export async function pruneBackups(settingsPath: string, keep: number): Promise<string[]> {
+	const backups = await listBackups(settingsPath);
+	const removed: string[] = [];
+	for (const backup of backups.slice(Math.max(0, keep))) {
+		await unlink(backup.path);
+		removed.push(backup.path);
+	}
+	return removed;
+}
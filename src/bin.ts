@@ -0,0 +1,11 @@
+#!/usr/bin/env node
+import { quickHook, quickTrigger } from "./trigger.js";
+
+// Hooks run `byteside trigger` and `byteside hook` on every agent event, so their
+// start-up time is the avatar's latency. They are handled here, and commander and
+// the rest of the CLI are only loaded for other commands.
+const args = process.argv.slice(2);
+if (!(await quickTrigger(args)) && !(await quickHook(args))) {
+	const { main } = await import("./cli.js");
+	await main();
+}
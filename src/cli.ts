@@ -1,36 +1,91 @@
-#!/usr/bin/env node
 import { spawn } from "node:child_process";
-import { dirname, resolve } from "node:path";
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { basename, dirname, resolve } from "node:path";
+import { emitKeypressEvents } from "node:readline";
 import { fileURLToPath } from "node:url";
 import { program } from "commander";
 import open from "open";
 import pc from "picocolors";
-import { discoverAvatars, ensureUserAvatars, resolveAvatarPath } from "./avatar.js";
-import { ensureGlobalConfig, loadBytesideConfig } from "./config.js";
 import {
-	generateHookConfig,
-	getGlobalClaudeSettingsPath,
-	getHookStatus,
-	getProjectClaudeSettingsPath,
-	installHooks,
-	uninstallHooks,
+	AGENTS,
+	type AgentAdapter,
+	claudeAdapter,
+	DEFAULT_AGENT,
+	getAgent,
+} from "./agents/index.js";
+import {
+	discoverAvatars,
+	ensureUserAvatars,
+	loadAvatarManifest,
+	resolveAvatarPath,
+} from "./avatar.js";
+import { findBackup, listBackups, pruneBackups, restoreBackup } from "./backups.js";
+import { type BytesideConfig, ensureGlobalConfig, loadBytesideConfig } from "./config.js";
+import { formatCaption } from "./context.js";
+import { type DiffLine, diffLines, formatUnifiedDiff, hasChanges } from "./diff.js";
+import { getLogDir, parseSince, readEvents } from "./event-log.js";
+import {
+	getGitHookStatus,
+	getGitHooksDir,
+	installGitHooks,
+	uninstallGitHooks,
+} from "./git-hooks.js";
+import { contextFromHookInput, readHookInput } from "./hook-input.js";
+import {
+	type ClaudeSettings,
+	diagnoseHooks,
+	getClaudeSettingsPath,
+	getEffectiveHooks,
+	getInstalledTarget,
+	getToolMapping,
+	HOOK_SCOPES,
+	type HookScope,
+	readClaudeSettings,
+	repairHooks,
+	type ToolMapping,
+	validateToolMapping,
 } from "./hooks.js";
-import { type AvatarManifest, validateAvatar } from "./manifest.js";
 import {
-	createTerminalRenderer,
-	isTerminalCapable,
-	type TerminalRenderer,
-} from "./terminal/index.js";
-import { type AvatarState, REQUIRED_STATES } from "./types.js";
+	type HookTarget,
+	INSTANCE_NAME_REGEX,
+	listInstances,
+	registerInstance,
+	resolveServerUrl,
+	unregisterInstance,
+} from "./instances.js";
+import { type AvatarManifest, STATE_NAME_REGEX, validateAvatar } from "./manifest.js";
+import { loadTimeline, parseSpeed, ReplayPlayer } from "./replay.js";
+import { loadScenario, PRESET_SCENARIOS, scenarioTimeline } from "./scenario.js";
+import {
+	DEFAULT_MIN_DURATION,
+	generateShellInit,
+	isShell,
+	parseIgnoredCommands,
+	SHELLS,
+} from "./shell.js";
+import type { TerminalRenderer } from "./terminal/index.js";
+import { sendOrSpoolState, sendState, triggerUpdate } from "./trigger.js";
+import {
+	OPTIONAL_STATE_FALLBACKS,
+	REQUIRED_STATES,
+	type SessionStats,
+	type StateHistoryEntry,
+	type StateStats,
+	type StatsResponse,
+} from "./types.js";
 
 // Get the root directory (where nitro.config.ts is)
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = dirname(__filename);
 const rootDir = resolve(__dirname, "..");
 
-// Viewer window dimensions (256px video + 64px padding + 24px gap + 20px label + margin)
+// Viewer window dimensions (256px video + 64px padding + 36px gaps + 20px label + 16px caption + margin)
 const VIEWER_WIDTH = 340;
-const VIEWER_HEIGHT = 390;
+const VIEWER_HEIGHT = 420;
+
+// Time for a freshly opened viewer to connect before `simulate` starts sending states
+const VIEWER_STARTUP_MS = 3000;
 
 // Chrome paths by platform
 const CHROME_PATHS: Record<string, string[]> = {
@@ -145,10 +200,22 @@ function shutdown(signal: string): void {
 process.on("SIGINT", () => shutdown("SIGINT"));
 process.on("SIGTERM", () => shutdown("SIGTERM"));
 
+// Port of the server this process registered in the instance registry
+let registeredPort: number | null = null;
+
+// Drop the registry entry however the process ends
+process.on("exit", () => {
+	if (registeredPort !== null) {
+		unregisterInstance(registeredPort);
+	}
+});
+
 /**
  * Options for starting the server.
  */
 interface StartServerOptions {
+	/** Instance name in the registry, used by `--instance` */
+	name: string;
 	port: number;
 	avatar: string;
 	shouldOpen: boolean;
@@ -157,11 +224,69 @@ interface StartServerOptions {
 	avatarPath: string | null;
 }
 
+/**
+ * Path to the built Nitro server.
+ */
+function getServerPath(): string {
+	return resolve(rootDir, ".output", "server", "index.mjs");
+}
+
+/**
+ * Environment for the spawned Nitro server.
+ */
+function serverEnv(port: number, avatar: string): NodeJS.ProcessEnv {
+	return {
+		...process.env,
+		// Pass port and avatar via environment variables
+		NITRO_PORT: port.toString(),
+		NITRO_PUBLIC_AVATAR: avatar,
+		// Let the server read .byteside.json from the directory byteside was started in
+		BYTESIDE_CWD: process.cwd(),
+	};
+}
+
+/**
+ * Check whether a byteside server answers on a port.
+ */
+async function isServerRunning(url: string): Promise<boolean> {
+	try {
+		const response = await fetch(`${url}/state`, {
+			signal: AbortSignal.timeout(1000),
+		});
+		return response.ok;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Start a server without the banner or viewer and wait until it listens.
+ * Stopped by the shutdown handler like the main server.
+ * @returns False if the server exited before listening.
+ */
+function startBackgroundServer(port: number, avatar: string): Promise<boolean> {
+	return new Promise((resolveStarted) => {
+		nitroProcess = spawn("node", [getServerPath()], {
+			cwd: rootDir,
+			env: serverEnv(port, avatar),
+			stdio: ["ignore", "pipe", "inherit"],
+		});
+		nitroProcess.stdout?.on("data", (data: Buffer) => {
+			if (data.toString().includes("Listening on:")) {
+				resolveStarted(true);
+			}
+		});
+		nitroProcess.on("close", () => {
+			resolveStarted(false);
+		});
+	});
+}
+
 /**
  * Start the byteside server with the given configuration.
  */
 async function startServer(options: StartServerOptions): Promise<void> {
-	const { port, avatar, shouldOpen, noTerminal, manifest, avatarPath } = options;
+	const { name, port, avatar, shouldOpen, noTerminal, manifest, avatarPath } = options;
 
 	printBanner();
 	printStatus(`Starting server on port ${port}...`);
@@ -170,6 +295,9 @@ async function startServer(options: StartServerOptions): Promise<void> {
 	const url = `http://localhost:${port}`;
 	let serverReady = false;
 
+	// Loaded here rather than at the top so `byteside trigger` doesn't pay for it
+	const { createTerminalRenderer, isTerminalCapable } = await import("./terminal/index.js");
+
 	// Check if terminal mode is available and enabled
 	const useTerminalMode =
 		!noTerminal &&
@@ -182,15 +310,9 @@ async function startServer(options: StartServerOptions): Promise<void> {
 	}
 
 	// Spawn built Nitro server with runtime config via environment variables
-	const serverPath = resolve(rootDir, ".output", "server", "index.mjs");
-	nitroProcess = spawn("node", [serverPath], {
+	nitroProcess = spawn("node", [getServerPath()], {
 		cwd: rootDir,
-		env: {
-			...process.env,
-			// Pass port and avatar via environment variables
-			NITRO_PORT: port.toString(),
-			NITRO_PUBLIC_AVATAR: avatar,
-		},
+		env: serverEnv(port, avatar),
 		stdio: ["inherit", "pipe", "pipe"],
 	});
 
@@ -203,10 +325,27 @@ async function startServer(options: StartServerOptions): Promise<void> {
 			serverReady = true;
 			printStatus(`Server running at ${url}`, "success");
 
+			// Let hooks and triggers find this server from its project directory or name
+			registerInstance({
+				name,
+				port,
+				pid: process.pid,
+				cwd: process.cwd(),
+				avatar,
+				startedAt: Date.now(),
+			})
+				.then(() => {
+					registeredPort = port;
+				})
+				.catch((err) => {
+					printStatus(`Failed to register instance: ${err.message}`, "warn");
+				});
+
 			// Start terminal renderer or open browser based on mode
 			if (useTerminalMode && manifest && avatarPath) {
 				// Terminal mode: start renderer
-				const renderer = createTerminalRenderer(manifest, avatarPath, 12);
+				// Draw below the status lines, fitting the avatar and its caption row in the window
+				const renderer = createTerminalRenderer(manifest, avatarPath, 12, process.stdout.rows);
 				if (renderer) {
 					terminalRenderer = renderer;
 					renderer
@@ -293,6 +432,311 @@ async function listAvatars(): Promise<void> {
 	}
 }
 
+/**
+ * Colors for state names in CLI tables.
+ */
+const STATE_COLORS: Record<string, (text: string) => string> = {
+	thinking: pc.cyan,
+	writing: pc.green,
+	bash: pc.yellow,
+	error: pc.red,
+	success: pc.green,
+	waiting: pc.cyan,
+};
+
+/**
+ * Format a duration in ms as e.g. "1h 05m", "3m 20s" or "12s".
+ */
+function formatDuration(ms: number): string {
+	const seconds = Math.round(ms / 1000);
+	if (seconds < 60) {
+		return `${seconds}s`;
+	}
+	const minutes = Math.floor(seconds / 60);
+	if (minutes < 60) {
+		return `${minutes}m ${String(seconds % 60).padStart(2, "0")}s`;
+	}
+	return `${Math.floor(minutes / 60)}h ${String(minutes % 60).padStart(2, "0")}m`;
+}
+
+/**
+ * Print time per state and counters for one set of statistics.
+ */
+function printStats(title: string, stats: StateStats): void {
+	const total = Object.values(stats.durations).reduce((sum, ms) => sum + ms, 0);
+	const states = Object.entries(stats.durations).sort(([, a], [, b]) => b - a);
+	const stateWidth = Math.max(12, ...states.map(([state]) => state.length));
+
+	console.log(pc.bold(title));
+	console.log(
+		`${pc.bold("State".padEnd(stateWidth))}  ${pc.bold("Time".padStart(8))}  ${pc.bold("Share".padStart(6))}`,
+	);
+	console.log(pc.dim("─".repeat(stateWidth + 20)));
+
+	for (const [state, ms] of states) {
+		const color = STATE_COLORS[state] ?? pc.dim;
+		const share = total > 0 ? `${Math.round((ms / total) * 100)}%` : "-";
+		console.log(
+			`${color(state.padEnd(stateWidth))}  ${formatDuration(ms).padStart(8)}  ${share.padStart(6)}`,
+		);
+	}
+
+	console.log(pc.dim("─".repeat(stateWidth + 20)));
+	console.log(`${"Tool calls".padEnd(stateWidth)}  ${String(stats.toolCalls).padStart(8)}`);
+	console.log(
+		`${"Errors".padEnd(stateWidth)}  ${(stats.errors > 0 ? pc.red : pc.dim)(String(stats.errors).padStart(8))}`,
+	);
+	console.log(`${"Waits".padEnd(stateWidth)}  ${String(stats.waits).padStart(8)}`);
+	console.log(`${"Transitions".padEnd(stateWidth)}  ${String(stats.transitions).padStart(8)}`);
+}
+
+/**
+ * Show statistics from a running server.
+ */
+async function statsCommand(
+	options: TargetOptions & { session?: string; json?: boolean },
+): Promise<void> {
+	const url = await commandServerUrl(options);
+	const query = options.session ? `?session=${encodeURIComponent(options.session)}` : "";
+
+	let response: Response;
+	try {
+		response = await fetch(`${url}/stats${query}`, {
+			signal: AbortSignal.timeout(2000),
+		});
+	} catch {
+		printStatus(`No byteside server running at ${url}`, "error");
+		process.exit(1);
+	}
+
+	if (response.status === 404) {
+		printStatus(`Unknown session: ${options.session}`, "error");
+		process.exit(1);
+	}
+
+	const data = (await response.json()) as StatsResponse | SessionStats;
+	if (options.json) {
+		console.log(JSON.stringify(data, null, 2));
+		return;
+	}
+
+	if ("sessionId" in data) {
+		printStats(`Session ${data.sessionId}`, data);
+		return;
+	}
+
+	printStats(`Overall (since ${new Date(data.overall.since).toLocaleTimeString()})`, data.overall);
+	for (const session of data.sessions) {
+		console.log();
+		printStats(`Session ${session.sessionId}`, session);
+	}
+}
+
+/**
+ * Format a logged transition as a single line.
+ */
+function formatEvent(entry: StateHistoryEntry): string {
+	const time = new Date(entry.timestamp).toLocaleTimeString();
+	const color = STATE_COLORS[entry.state] ?? pc.dim;
+	const session = entry.sessionId ? entry.sessionId.slice(0, 8) : "-";
+	const caption = formatCaption(entry.context);
+	return [
+		pc.dim(time),
+		color(entry.state.padEnd(10)),
+		pc.dim(`← ${entry.previous ?? "-"}`.padEnd(12)),
+		(entry.source ?? "trigger").padEnd(10),
+		pc.dim(session.padEnd(8)),
+		caption,
+	]
+		.join("  ")
+		.trimEnd();
+}
+
+/**
+ * Print logged transitions, optionally as raw JSONL.
+ */
+function printEvents(entries: StateHistoryEntry[], json = false): void {
+	if (entries.length === 0 && !json) {
+		console.log(pc.dim(`No events logged in ${getLogDir()}`));
+		return;
+	}
+	for (const entry of entries) {
+		console.log(json ? JSON.stringify(entry) : formatEvent(entry));
+	}
+}
+
+/**
+ * Play a timeline against a running server, printing each state as it is sent.
+ * On a TTY: space pauses/resumes, n/→ steps while paused, q quits.
+ * @returns Number of states sent and the total.
+ */
+async function playTimeline(
+	entries: StateHistoryEntry[],
+	url: string,
+	speed: number,
+): Promise<{ sent: number; total: number }> {
+	const first = entries[0]?.timestamp ?? 0;
+
+	const player = new ReplayPlayer(entries, {
+		speed,
+		send: async (entry, index) => {
+			const offset = formatDuration(entry.timestamp - first).padStart(7);
+			console.log(`${pc.dim(`${String(index + 1).padStart(4)} ${offset}`)}  ${formatEvent(entry)}`);
+			await sendState(url, {
+				state: entry.state,
+				...(entry.sessionId && { sessionId: entry.sessionId }),
+				...(entry.context && { context: entry.context }),
+			});
+		},
+	});
+
+	const interactive = process.stdin.isTTY;
+	if (interactive) {
+		console.log(pc.dim("  space pause/resume · n step · q quit"));
+		emitKeypressEvents(process.stdin);
+		process.stdin.setRawMode(true);
+		process.stdin.on("keypress", (_text: string, key: { name?: string; ctrl?: boolean }) => {
+			if (key.name === "q" || (key.ctrl && key.name === "c")) {
+				player.stop();
+			} else if (key.name === "space") {
+				if (player.isPaused) {
+					player.resume();
+				} else {
+					player.pause();
+					console.log(pc.dim("  paused"));
+				}
+			} else if (key.name === "n" || key.name === "right") {
+				void player.step();
+			}
+		});
+	}
+	console.log();
+
+	player.start();
+	await player.done;
+
+	if (interactive) {
+		process.stdin.setRawMode(false);
+		process.stdin.pause();
+	}
+	return player.position;
+}
+
+/**
+ * Parse a --speed option, exiting on invalid values.
+ */
+function speedOption(value: string): number {
+	const speed = parseSpeed(value);
+	if (speed === null) {
+		printStatus(`Invalid --speed value: ${value}`, "error");
+		process.exit(1);
+	}
+	return speed;
+}
+
+/**
+ * Replay a recorded timeline against a running server.
+ */
+async function replayCommand(
+	file: string,
+	options: TargetOptions & { speed: string },
+): Promise<void> {
+	const speed = speedOption(options.speed);
+
+	let entries: StateHistoryEntry[];
+	try {
+		entries = await loadTimeline(resolve(file));
+	} catch {
+		printStatus(`Cannot read timeline: ${file}`, "error");
+		process.exit(1);
+	}
+	if (entries.length === 0) {
+		printStatus(`No states found in ${file}`, "warn");
+		return;
+	}
+
+	const url = await commandServerUrl(options);
+
+	printStatus(`Replaying ${entries.length} states at ${speed}x to ${url}`);
+	const { sent, total } = await playTimeline(entries, url, speed);
+	printStatus(`Replayed ${sent} of ${total} states`, sent === total ? "success" : "warn");
+}
+
+/**
+ * List the built-in simulator scenarios.
+ */
+function listScenarios(): void {
+	const names = Object.keys(PRESET_SCENARIOS);
+	const nameWidth = Math.max(20, ...names.map((name) => name.length));
+
+	console.log(`${pc.bold("Scenario".padEnd(nameWidth))}  ${pc.bold("Description")}`);
+	console.log(pc.dim("─".repeat(nameWidth + 50)));
+	for (const scenario of Object.values(PRESET_SCENARIOS)) {
+		console.log(`${scenario.name.padEnd(nameWidth)}  ${scenario.description ?? ""}`);
+	}
+}
+
+/**
+ * Run a scripted scenario against a running server, starting one if needed.
+ */
+async function simulateCommand(
+	nameOrPath: string | undefined,
+	options: TargetOptions & { speed: string; list?: boolean; open?: boolean; avatar?: string },
+): Promise<void> {
+	if (options.list || !nameOrPath) {
+		listScenarios();
+		return;
+	}
+
+	const speed = speedOption(options.speed);
+	const result = await loadScenario(nameOrPath);
+	if (!result.valid || !result.scenario) {
+		printStatus("Invalid scenario", "error");
+		console.log();
+		for (const error of result.errors) {
+			console.log(`  ${pc.red("✗")} ${error}`);
+		}
+		process.exit(1);
+	}
+
+	const config = await loadBytesideConfig();
+	const url = await commandServerUrl(options, config);
+
+	// Spin up a server when none is running, so the scenario can be watched right away
+	const started = !(await isServerRunning(url));
+	if (started) {
+		const { hostname, port: urlPort } = new URL(url);
+		const port = Number(urlPort);
+		if (hostname !== "localhost" || !port) {
+			printStatus(`No byteside server running at ${url}`, "error");
+			process.exit(1);
+		}
+		const avatar = options.avatar ?? config.avatar ?? "default";
+		printStatus(`No server on port ${port}, starting one with avatar ${avatar}...`);
+		if (!(await startBackgroundServer(port, avatar))) {
+			printStatus("Failed to start server", "error");
+			process.exit(1);
+		}
+		printStatus(`Server running at ${url}`, "success");
+
+		if (options.open !== false) {
+			await openViewer(url);
+			// Give the viewer time to connect and preload videos
+			await new Promise((resolveDelay) => setTimeout(resolveDelay, VIEWER_STARTUP_MS));
+		}
+	}
+
+	const { scenario } = result;
+	printStatus(`Simulating ${scenario.name} (${scenario.steps.length} steps) at ${speed}x`);
+	const { sent, total } = await playTimeline(scenarioTimeline(scenario, Date.now()), url, speed);
+	printStatus(`Simulated ${sent} of ${total} steps`, sent === total ? "success" : "warn");
+
+	if (started) {
+		console.log();
+		console.log(`  ${pc.dim("Press Ctrl+C to stop the server")}`);
+	}
+}
+
 /**
  * Validate an avatar package.
  */
@@ -338,9 +782,557 @@ async function validateAvatarCommand(path: string): Promise<void> {
 }
 
 /**
- * Main entry point - sets up CLI and parses commands.
+ * --url/--port/--instance options of commands that talk to a server.
+ */
+interface TargetOptions {
+	url?: string;
+	port?: string;
+	instance?: string;
+}
+
+/**
+ * Turn --url/--port/--instance options into a target.
+ * @returns The target, or null if a value is invalid.
  */
-async function main(): Promise<void> {
+function parseTargetOptions(options: TargetOptions): HookTarget | null {
+	const target: HookTarget = {};
+	if (options.url !== undefined) {
+		try {
+			const url = new URL(options.url);
+			if (url.protocol !== "http:" && url.protocol !== "https:") {
+				return null;
+			}
+			target.url = url.origin;
+		} catch {
+			return null;
+		}
+	}
+	if (options.port !== undefined) {
+		const port = Number(options.port);
+		if (!Number.isInteger(port) || port < 1 || port > 65535) {
+			return null;
+		}
+		target.port = port;
+	}
+	if (options.instance !== undefined) {
+		if (!INSTANCE_NAME_REGEX.test(options.instance)) {
+			return null;
+		}
+		target.instance = options.instance;
+	}
+	return target;
+}
+
+/**
+ * Find the server a hook or trigger sends its state to.
+ * @param cwd Project directory of the hook (from the payload, else the current directory)
+ * @returns The server's base URL, or null (with a non-zero exit code) if the target is invalid or not running.
+ */
+async function hookServerUrl(
+	config: BytesideConfig,
+	options: TargetOptions,
+	cwd: string,
+): Promise<string | null> {
+	const target = parseTargetOptions(options);
+	const url = target && (await resolveServerUrl(target, cwd, config.server?.port ?? 3333));
+	if (!url) {
+		// Silent failure for hooks
+		process.exitCode = 1;
+	}
+	return url;
+}
+
+/**
+ * Find the server a command like `stats` or `replay` talks to, exiting if there is none.
+ * Without options this is the instance for the current directory, as for hooks.
+ */
+async function commandServerUrl(options: TargetOptions, config?: BytesideConfig): Promise<string> {
+	const target = parseTargetOptions(options);
+	if (!target) {
+		printStatus("Invalid --url, --port or --instance value", "error");
+		process.exit(1);
+	}
+
+	const url = await resolveServerUrl(target, process.cwd(), async () => {
+		const loaded = config ?? (await loadBytesideConfig());
+		return loaded.server?.port ?? 3333;
+	});
+	if (!url) {
+		printStatus(`No running instance named ${target.instance}`, "error");
+		process.exit(1);
+	}
+	return url;
+}
+
+/**
+ * List running byteside servers from the instance registry.
+ */
+async function listInstancesCommand(): Promise<void> {
+	const instances = await listInstances();
+	if (instances.length === 0) {
+		console.log(pc.yellow("No byteside servers running."));
+		return;
+	}
+
+	const nameWidth = Math.max(16, ...instances.map((instance) => instance.name.length));
+	console.log(
+		`${pc.bold("Name".padEnd(nameWidth))}  ${pc.bold("Port".padEnd(6))}  ${pc.bold("Avatar".padEnd(16))}  ${pc.bold("Directory")}`,
+	);
+	console.log(pc.dim("─".repeat(nameWidth + 60)));
+	for (const instance of instances) {
+		console.log(
+			`${instance.name.padEnd(nameWidth)}  ${String(instance.port).padEnd(6)}  ${instance.avatar.padEnd(16)}  ${pc.dim(instance.cwd)}`,
+		);
+	}
+}
+
+/**
+ * Get the effective tool mapping of an agent, checking hooks.mapping against
+ * the states of the configured avatar.
+ */
+async function resolveToolMapping(
+	config: BytesideConfig,
+	agent: AgentAdapter = claudeAdapter,
+): Promise<{ mapping: ToolMapping[]; problems: string[] }> {
+	const configured = config.hooks?.mapping;
+	if (configured === undefined) {
+		return { mapping: getToolMapping({}, agent.defaultToolMapping), problems: [] };
+	}
+
+	const manifest = await loadAvatarManifest(
+		config.avatar ?? "default",
+		config.avatarPaths ?? ["~/.byteside/avatars"],
+	);
+	const validStates = [
+		...REQUIRED_STATES,
+		...Object.keys(OPTIONAL_STATE_FALLBACKS),
+		...Object.keys(manifest?.states ?? {}),
+	];
+	return {
+		mapping: getToolMapping(configured, agent.defaultToolMapping),
+		problems: validateToolMapping(configured, validStates),
+	};
+}
+
+/**
+ * -g/--global, -p/--project and -l/--local options.
+ */
+type ScopeOptions = Partial<Record<HookScope, boolean>>;
+
+/**
+ * Settings files of the given scopes. Scopes the agent doesn't have, and a
+ * scope whose file is the same as an earlier one (the project directory is
+ * the home directory), are left out.
+ */
+function settingsScopes(
+	scopes: readonly HookScope[],
+	agent: AgentAdapter = claudeAdapter,
+): { scope: HookScope; path: string }[] {
+	return scopes
+		.filter((scope) => agent.scopes.includes(scope))
+		.map((scope) => ({ scope, path: agent.settingsPath(scope) }))
+		.filter((entry, index, all) => all.findIndex((e) => e.path === entry.path) === index);
+}
+
+/**
+ * The single scope selected by -g/--global, -l/--local or -p/--project (the default).
+ */
+function selectedScope(options: ScopeOptions): HookScope {
+	return options.global ? "global" : options.local ? "local" : "project";
+}
+
+/**
+ * Print the shell integration snippet for `eval "$(byteside shell-init <shell>)"`.
+ */
+function shellInitCommand(
+	shell: string,
+	options: TargetOptions & { minDuration: string; ignore?: string },
+): void {
+	if (!isShell(shell)) {
+		printStatus(`Unsupported shell "${shell}". Supported shells: ${SHELLS.join(", ")}`, "error");
+		process.exit(1);
+	}
+
+	const minDuration = Number(options.minDuration);
+	if (!Number.isInteger(minDuration) || minDuration < 0) {
+		printStatus(`Invalid --min-duration value: ${options.minDuration}`, "error");
+		process.exit(1);
+	}
+
+	const ignore = options.ignore === undefined ? undefined : parseIgnoredCommands(options.ignore);
+	if (ignore === null) {
+		printStatus(`Invalid --ignore value: ${options.ignore}`, "error");
+		process.exit(1);
+	}
+
+	const target = parseTargetOptions(options);
+	if (!target) {
+		printStatus("Invalid --url, --port or --instance value", "error");
+		process.exit(1);
+	}
+
+	process.stdout.write(
+		generateShellInit(shell, { minDuration, target, ...(ignore && { ignore }) }),
+	);
+}
+
+/**
+ * Find the hooks directory of the current git repository, exiting outside a repository.
+ */
+async function requireGitHooksDir(): Promise<string> {
+	const hooksDir = await getGitHooksDir();
+	if (!hooksDir) {
+		printStatus("Not a git repository (or git isn't installed)", "error");
+		process.exit(1);
+	}
+	return hooksDir;
+}
+
+/**
+ * Show which byteside git hooks are installed in the current repository.
+ */
+async function gitStatusCommand(): Promise<void> {
+	const hooksDir = await requireGitHooksDir();
+
+	console.log(pc.bold("Git Hooks Status"));
+	console.log(pc.dim("─".repeat(40)));
+	console.log(`  ${pc.dim(hooksDir)}`);
+	const statuses = await getGitHookStatus(hooksDir);
+	for (const hook of statuses) {
+		const label = hook.name.padEnd(14);
+		if (hook.installed) {
+			const chained = hook.chained ? pc.dim(` (runs ${hook.name}.byteside-chained first)`) : "";
+			console.log(`  ${pc.green("✓")} ${label} installed${chained}`);
+		} else if (hook.foreign) {
+			console.log(`  ${pc.yellow("!")} ${label} another hook is installed`);
+		} else {
+			console.log(`  ${pc.yellow("!")} ${label} not installed`);
+		}
+	}
+
+	if (!statuses.every((hook) => hook.installed)) {
+		console.log();
+		console.log(`  ${pc.dim("Run 'byteside git install' to install the git hooks")}`);
+	}
+}
+
+/**
+ * Look up the agent selected with --agent, exiting if byteside doesn't support it.
+ */
+function requireAgent(name?: string): AgentAdapter {
+	const agent = getAgent(name);
+	if (!agent) {
+		printStatus(
+			`Unknown agent "${name}". Supported agents: ${Object.keys(AGENTS).join(", ")}`,
+			"error",
+		);
+		process.exit(1);
+	}
+	return agent;
+}
+
+/**
+ * The --agent flag to repeat in suggested commands (empty for the default agent).
+ */
+function agentFlag(agent: AgentAdapter): string {
+	return agent === claudeAdapter ? "" : ` --agent ${agent.name}`;
+}
+
+/**
+ * Format a file size for display.
+ */
+function formatBytes(bytes: number): string {
+	return bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+}
+
+/**
+ * List settings backups of the selected scopes (all scopes by default).
+ */
+async function backupsListCommand(options: ScopeOptions): Promise<void> {
+	const selected = HOOK_SCOPES.filter((scope) => options[scope]);
+	for (const { scope, path } of settingsScopes(selected.length > 0 ? selected : HOOK_SCOPES)) {
+		console.log(`${pc.bold(scope)} ${pc.dim(path)}`);
+
+		const backups = await listBackups(path);
+		if (backups.length === 0) {
+			console.log(`  ${pc.dim("No backups")}`);
+			console.log();
+			continue;
+		}
+
+		console.log(
+			`  ${pc.bold("#".padStart(3))}  ${pc.bold("Created".padEnd(22))}  ${pc.bold("Size".padStart(8))}  ${pc.bold("Hooks")}  ${pc.bold("File")}`,
+		);
+		backups.forEach((backup, index) => {
+			const created = new Date(backup.createdAt).toLocaleString();
+			const hooks = backup.hookCount === null ? pc.red("invalid") : String(backup.hookCount);
+			console.log(
+				`  ${String(index + 1).padStart(3)}  ${created.padEnd(22)}  ${formatBytes(backup.size).padStart(8)}  ${hooks.padEnd(5)}  ${pc.dim(basename(backup.path))}`,
+			);
+		});
+		console.log();
+	}
+}
+
+/**
+ * Find a backup of the selected scope, exiting if it doesn't exist.
+ */
+async function requireBackup(
+	id: string,
+	options: ScopeOptions,
+): Promise<{ path: string; backupPath: string }> {
+	const path = getClaudeSettingsPath(selectedScope(options));
+	const backup = findBackup(await listBackups(path), id);
+	if (!backup) {
+		printStatus(`No backup "${id}" for ${path}. Run 'byteside hooks backups list'.`, "error");
+		process.exit(1);
+	}
+	return { path, backupPath: backup.path };
+}
+
+/**
+ * Print a unified diff with colors.
+ */
+function printDiff(lines: string[]): void {
+	for (const line of lines) {
+		if (line.startsWith("+++") || line.startsWith("---")) {
+			console.log(pc.bold(line));
+		} else if (line.startsWith("@@")) {
+			console.log(pc.cyan(line));
+		} else if (line.startsWith("+")) {
+			console.log(pc.green(line));
+		} else if (line.startsWith("-")) {
+			console.log(pc.red(line));
+		} else {
+			console.log(pc.dim(line));
+		}
+	}
+}
+
+/**
+ * Print the changes a dry run would make to a settings file.
+ */
+function printDryRun(path: string, diff: DiffLine[] | undefined): void {
+	if (!diff || !hasChanges(diff)) {
+		printStatus(`No changes to ${path}`, "info");
+		return;
+	}
+	printDiff(formatUnifiedDiff(diff, path, path));
+}
+
+/**
+ * Show what restoring a backup would change in the current settings file.
+ */
+async function backupsDiffCommand(id: string, options: ScopeOptions): Promise<void> {
+	const { path, backupPath } = await requireBackup(id, options);
+	const current = existsSync(path) ? await readFile(path, "utf-8") : "";
+	const lines = diffLines(current, await readFile(backupPath, "utf-8"));
+
+	if (!hasChanges(lines)) {
+		printStatus("The backup matches the current settings", "success");
+		return;
+	}
+	printDiff(formatUnifiedDiff(lines, path, backupPath));
+}
+
+/**
+ * Restore a backup, backing up the current settings file first.
+ */
+async function backupsRestoreCommand(
+	id: string,
+	options: ScopeOptions & { backup: boolean },
+): Promise<void> {
+	const { path, backupPath } = await requireBackup(id, options);
+	const result = await restoreBackup(path, backupPath, { noBackup: !options.backup });
+	if (!result.success) {
+		printStatus(result.message, "error");
+		process.exit(1);
+	}
+	printStatus(result.message, "success");
+	if (result.backupPath) {
+		printStatus(`Backup created: ${result.backupPath}`, "info");
+	}
+}
+
+/**
+ * Delete all but the most recent backups of the selected scopes (all scopes by default).
+ */
+async function backupsPruneCommand(options: ScopeOptions & { keep: string }): Promise<void> {
+	const keep = Number(options.keep);
+	if (!Number.isInteger(keep) || keep < 0) {
+		printStatus(`Invalid --keep value: ${options.keep}`, "error");
+		process.exit(1);
+	}
+
+	const selected = HOOK_SCOPES.filter((scope) => options[scope]);
+	let removed = 0;
+	for (const { path } of settingsScopes(selected.length > 0 ? selected : HOOK_SCOPES)) {
+		for (const backupPath of await pruneBackups(path, keep)) {
+			console.log(`  ${pc.dim("-")} ${pc.dim(backupPath)}`);
+			removed++;
+		}
+	}
+	printStatus(
+		removed === 0 ? "Nothing to prune" : `Removed ${removed} backups`,
+		removed === 0 ? "info" : "success",
+	);
+}
+
+/**
+ * Show where byteside hooks are installed, and which hooks the agent
+ * ends up running when all scopes are combined.
+ */
+async function hooksStatusCommand(options: ScopeOptions & { agent?: string }): Promise<void> {
+	const agent = requireAgent(options.agent);
+	const selected = HOOK_SCOPES.filter((scope) => options[scope]);
+	const scopes = settingsScopes(selected.length > 0 ? selected : HOOK_SCOPES, agent);
+
+	console.log(pc.bold(`Hooks Status (${agent.displayName})`));
+	console.log(pc.dim("─".repeat(40)));
+
+	const settingsByScope: Partial<Record<HookScope, ClaudeSettings | null>> = {};
+	for (const { scope, path } of scopes) {
+		const status = await agent.status(path);
+		settingsByScope[scope] = await readClaudeSettings(path).catch(() => null);
+
+		const summary = status.installed
+			? `${pc.green("✓")} ${status.hookCount} byteside hooks installed`
+			: `${pc.yellow("!")} ${status.exists ? "No byteside hooks found" : "No settings file"}`;
+		console.log(`  ${pc.bold(scope.padEnd(8))} ${summary}`);
+		console.log(`  ${" ".repeat(8)} ${pc.dim(path)}`);
+	}
+
+	const effective = getEffectiveHooks(settingsByScope, agent.events);
+	if (effective.every(({ count }) => count === 0)) {
+		console.log();
+		console.log(`  ${pc.dim(`Run 'byteside init${agentFlag(agent)}' to install hooks`)}`);
+		return;
+	}
+	if (selected.length > 0) {
+		return;
+	}
+
+	console.log();
+	console.log(pc.bold("Effective Hooks"));
+	console.log(pc.dim("─".repeat(40)));
+	const eventWidth = Math.max(16, ...effective.map(({ event }) => event.length));
+	for (const { event, scopes: installedIn, count } of effective) {
+		const label = event.padEnd(eventWidth);
+		if (count === 0) {
+			console.log(`  ${pc.yellow("!")} ${label} ${pc.dim("not installed")}`);
+		} else if (count === 1) {
+			console.log(`  ${pc.green("✓")} ${label} ${pc.dim(installedIn.join(", "))}`);
+		} else {
+			console.log(
+				`  ${pc.yellow("!")} ${label} ${pc.yellow(`runs ${count} times`)} ${pc.dim(`(${installedIn.join(", ")})`)}`,
+			);
+		}
+	}
+}
+
+/**
+ * Check the byteside hooks in every settings scope against the current
+ * configuration and optionally repair them.
+ */
+async function hooksDoctorCommand(
+	config: BytesideConfig,
+	options: { fix?: boolean; backup: boolean; agent?: string },
+): Promise<void> {
+	const agent = requireAgent(options.agent);
+	const { mapping, problems } = await resolveToolMapping(config, agent);
+	const scopes = settingsScopes(HOOK_SCOPES, agent);
+
+	console.log(pc.bold(`Hooks Doctor (${agent.displayName})`));
+	console.log(pc.dim("─".repeat(40)));
+	for (const problem of problems) {
+		console.log(`  ${pc.yellow("!")} ${problem}`);
+	}
+
+	const installedIn: string[] = [];
+	let unresolved = 0;
+	for (const { scope: name, path } of scopes) {
+		console.log();
+		console.log(`  ${pc.bold(name)} ${pc.dim(path)}`);
+
+		let settings: ClaudeSettings | null;
+		try {
+			settings = await readClaudeSettings(path);
+		} catch {
+			console.log(`    ${pc.red("✗")} Invalid JSON. Please fix the file manually.`);
+			process.exitCode = 1;
+			continue;
+		}
+		const status = await agent.status(path);
+		if (!status.installed) {
+			console.log(`    ${pc.dim(status.exists ? "No byteside hooks" : "No settings file")}`);
+			continue;
+		}
+		installedIn.push(name);
+
+		// Keep the server target the hooks were installed with
+		const target = getInstalledTarget(settings);
+		const expected = agent.generateHooks(mapping, target);
+		const issues = diagnoseHooks(settings, expected);
+		if (issues.length === 0) {
+			console.log(`    ${pc.green("✓")} ${status.hookCount} byteside hooks up to date`);
+			continue;
+		}
+		for (const issue of issues) {
+			console.log(
+				`    ${pc.yellow("!")} ${issue.event} ${pc.dim(`(${issue.kind})`)}: ${issue.message}`,
+			);
+		}
+
+		if (!options.fix) {
+			unresolved++;
+			continue;
+		}
+		const result = await repairHooks(path, {
+			noBackup: !options.backup,
+			mapping,
+			target,
+			hooks: expected,
+		});
+		if (result.success) {
+			console.log(`    ${pc.green("✓")} ${result.message}`);
+			if (result.backupPath) {
+				console.log(`    ${pc.dim(`Backup created: ${result.backupPath}`)}`);
+			}
+		} else {
+			console.log(`    ${pc.red("✗")} ${result.message}`);
+			process.exitCode = 1;
+		}
+	}
+
+	console.log();
+	if (installedIn.length === 0) {
+		printStatus(
+			`No byteside hooks installed. Run 'byteside init${agentFlag(agent)}' to install them.`,
+			"warn",
+		);
+		return;
+	}
+	if (installedIn.length > 1) {
+		// The agent runs the hooks of every scope, so each event triggers once per scope
+		printStatus(
+			`Hooks are installed in ${installedIn.join(" and ")} settings; every event triggers ${installedIn.length} times. Remove all but one with 'byteside hooks uninstall${agentFlag(agent)}'.`,
+			"warn",
+		);
+		process.exitCode = 1;
+	}
+	if (unresolved > 0) {
+		printStatus(`Run 'byteside hooks doctor${agentFlag(agent)} --fix' to repair the hooks`, "warn");
+		process.exitCode = 1;
+	} else if (process.exitCode !== 1) {
+		printStatus("Hooks are up to date", "success");
+	}
+}
+
+/**
+ * Full CLI - sets up commander and parses commands.
+ * Loaded by bin.ts for everything its quick path doesn't handle.
+ */
+export async function main(): Promise<void> {
 	// Load configuration from files
 	const config = await loadBytesideConfig();
 
@@ -348,6 +1340,8 @@ async function main(): Promise<void> {
 		.name("byteside")
 		.description("Animated avatar companion for AI coding agents")
 		.version("0.0.1")
+		// Program options only apply before a subcommand, so subcommands can have their own --port
+		.enablePositionalOptions()
 		.hook("preAction", async () => {
 			// Ensure global config and user avatars exist on first run
 			await ensureGlobalConfig();
@@ -358,10 +1352,17 @@ async function main(): Promise<void> {
 	program
 		.option("-p, --port <number>", "Port to run server on", String(config.server?.port ?? 3333))
 		.option("-a, --avatar <name>", "Avatar to use", config.avatar ?? "default")
+		.option("-n, --name <name>", "Instance name for hooks' --instance (default: directory name)")
 		.option("--no-open", "Don't auto-open browser")
 		.option("--no-terminal", "Disable terminal avatar rendering")
 		.action(async (options) => {
 			const port = parseInt(options.port, 10);
+			const name: string =
+				options.name ?? (basename(process.cwd()).replace(/[^A-Za-z0-9._-]/g, "-") || "byteside");
+			if (!INSTANCE_NAME_REGEX.test(name)) {
+				printStatus("Instance names may only contain letters, digits, '.', '_' and '-'", "error");
+				process.exit(1);
+			}
 			const avatar = options.avatar;
 			const shouldOpen = options.open !== false && config.viewer?.autoOpen !== false;
 			const noTerminal = options.terminal === false;
@@ -379,6 +1380,7 @@ async function main(): Promise<void> {
 			}
 
 			await startServer({
+				name,
 				port,
 				avatar,
 				shouldOpen,
@@ -391,6 +1393,23 @@ async function main(): Promise<void> {
 	// List command
 	program.command("list").description("List installed avatars").action(listAvatars);
 
+	// Instances command
+	program
+		.command("instances")
+		.description("List running byteside servers")
+		.action(listInstancesCommand);
+
+	// Stats command
+	program
+		.command("stats")
+		.description("Show time per state, tool calls, errors and waits")
+		.option("-s, --session <id>", "Only show one Claude Code session")
+		.option("--json", "Print raw JSON")
+		.option("--url <url>", "Server to read statistics from")
+		.option("--port <number>", "Port of the server on localhost")
+		.option("--instance <name>", "Name of a running byteside instance")
+		.action(statsCommand);
+
 	// Validate command
 	program
 		.command("validate <path>")
@@ -400,20 +1419,59 @@ async function main(): Promise<void> {
 	// Init command - install hooks
 	program
 		.command("init")
-		.description("Install Claude Code hooks for avatar state changes")
+		.description("Install Claude Code (or other agent) hooks for avatar state changes")
 		.option("-g, --global", "Install to global settings (~/.claude/settings.json)")
 		.option("-p, --project", "Install to project settings (.claude/settings.json)", true)
+		.option("-l, --local", "Install to local project settings (.claude/settings.local.json)")
+		.option(
+			"--agent <name>",
+			`Agent to install hooks for (${Object.keys(AGENTS).join(", ")})`,
+			DEFAULT_AGENT,
+		)
 		.option("-f, --force", "Overwrite existing hooks")
 		.option("--no-backup", "Skip backup creation")
+		.option("--dry-run", "Show the changes to the settings file without writing them")
+		.option("--url <url>", "Send states to this server instead of discovering it")
+		.option("--port <number>", "Send states to this port on localhost")
+		.option("--instance <name>", "Send states to the running instance with this name")
 		.action(async (options) => {
-			const path = options.global ? getGlobalClaudeSettingsPath() : getProjectClaudeSettingsPath();
+			const agent = requireAgent(options.agent);
+			const scope = selectedScope(options);
+			if (!agent.scopes.includes(scope)) {
+				printStatus(`${agent.displayName} has no ${scope} settings`, "error");
+				process.exit(1);
+			}
+			if (!agent.detect()) {
+				printStatus(
+					`${agent.displayName} doesn't seem to be set up here; installing anyway`,
+					"warn",
+				);
+			}
+			const path = agent.settingsPath(scope);
+
+			const target = parseTargetOptions(options);
+			if (!target) {
+				printStatus("Invalid --url, --port or --instance value", "error");
+				process.exit(1);
+			}
+
+			const { mapping, problems } = await resolveToolMapping(config, agent);
+			for (const problem of problems) {
+				printStatus(problem, "warn");
+			}
 
-			const result = await installHooks(path, {
+			const result = await agent.install(path, {
 				force: options.force,
 				noBackup: !options.backup,
+				dryRun: options.dryRun,
+				mapping,
+				target,
 			});
 
-			if (result.success) {
+			if (result.success && options.dryRun) {
+				printStatus(result.message, "info");
+				printDryRun(path, result.diff);
+			} else if (result.success) {
 				printStatus(result.message, "success");
 				if (result.backupPath) {
 					printStatus(`Backup created: ${result.backupPath}`, "info");
@@ -428,85 +1486,253 @@ async function main(): Promise<void> {
 	program
 		.command("trigger <state>")
 		.description("Set avatar state (used by Claude Code hooks)")
-		.action(async (state: string) => {
-			// Validate state
-			if (!REQUIRED_STATES.includes(state as AvatarState)) {
+		.option("-s, --session <id>", "Session the state belongs to (default: session_id from stdin)")
+		.option("-m, --message <text>", "Caption to show under the avatar")
+		.option(
+			"--detect-error",
+			"Set error instead when the PostToolUse payload on stdin reports a failure",
+		)
+		.option("--url <url>", "Server to send the state to")
+		.option("--port <number>", "Port of the server on localhost")
+		.option("--instance <name>", "Name of a running byteside instance")
+		.action(async (state: string, options) => {
+			// Validate state name; custom states are checked by the server against the active avatar
+			if (!STATE_NAME_REGEX.test(state)) {
 				// Silent failure for hooks
 				process.exit(1);
 			}
 
-			// Load config to get port
-			const port = config.server?.port ?? 3333;
+			// Hooks pipe their payload on stdin, which carries the session id and tool details
+			const input = await readHookInput();
+			const serverUrl = await hookServerUrl(config, options, input?.cwd ?? process.cwd());
+			if (!serverUrl) {
+				return;
+			}
 
-			// POST to server (silent, fail gracefully)
-			try {
-				await fetch(`http://localhost:${port}/state`, {
-					method: "POST",
-					headers: { "Content-Type": "application/json" },
-					body: JSON.stringify({ state }),
-					signal: AbortSignal.timeout(1000),
-				});
-			} catch {
-				// Silent failure - server may not be running
+			// Send to server (silent, fail gracefully; spooled until the server starts)
+			await sendOrSpoolState(serverUrl, triggerUpdate(state, options, input));
+		});
+
+	// Hook command - map a raw agent hook payload to a state
+	program
+		.command("hook <event>")
+		.description("Handle an agent hook event from the JSON payload on stdin")
+		.option("--agent <name>", "Agent that runs the hook", DEFAULT_AGENT)
+		.option("--url <url>", "Server to send the state to")
+		.option("--port <number>", "Port of the server on localhost")
+		.option("--instance <name>", "Name of a running byteside instance")
+		.action(async (event: string, options: TargetOptions & { agent: string }) => {
+			const agent = getAgent(options.agent);
+			if (!agent) {
+				// Silent failure for hooks
+				process.exit(1);
 			}
+			const input = { ...(await readHookInput()), hook_event_name: event };
+			const state = agent.stateForEvent(
+				input,
+				getToolMapping(config.hooks?.mapping, agent.defaultToolMapping),
+			);
+			if (!state) {
+				// Event doesn't change the avatar (e.g. a tool without its own state)
+				return;
+			}
+
+			const serverUrl = await hookServerUrl(config, options, input.cwd ?? process.cwd());
+			if (!serverUrl) {
+				return;
+			}
+			const context = contextFromHookInput(input);
+			await sendOrSpoolState(serverUrl, {
+				state,
+				...(input.session_id && { sessionId: input.session_id }),
+				...(context && { context }),
+				...(event === agent.sessionEndEvent && { endSession: true }),
+			});
 		});
 
-	// Hooks subcommand group
-	const hooksCmd = program.command("hooks").description("Manage Claude Code hooks");
+	// Git subcommand group
+	const gitCmd = program
+		.command("git")
+		.description("Manage git hooks that react to commits, pushes, merges and checkouts");
+
+	gitCmd
+		.command("install")
+		.description("Install git hooks in the current repository (existing hooks keep running)")
+		.option("-f, --force", "Overwrite existing byteside git hooks")
+		.option("--url <url>", "Send states to this server instead of discovering it")
+		.option("--port <number>", "Send states to this port on localhost")
+		.option("--instance <name>", "Send states to the running instance with this name")
+		.action(async (options) => {
+			const target = parseTargetOptions(options);
+			if (!target) {
+				printStatus("Invalid --url, --port or --instance value", "error");
+				process.exit(1);
+			}
 
-	// hooks status
-	hooksCmd
+			const result = await installGitHooks(await requireGitHooksDir(), {
+				force: options.force,
+				target,
+			});
+			if (!result.success) {
+				printStatus(result.message, "error");
+				process.exit(1);
+			}
+			printStatus(result.message, "success");
+		});
+
+	gitCmd
 		.command("status")
-		.description("Show hooks installation status")
-		.option("-g, --global", "Check global settings")
-		.option("-p, --project", "Check project settings", true)
-		.action(async (options) => {
-			const path = options.global ? getGlobalClaudeSettingsPath() : getProjectClaudeSettingsPath();
+		.description("Show which git hooks are installed in the current repository")
+		.action(gitStatusCommand);
 
-			const status = await getHookStatus(path);
+	gitCmd
+		.command("uninstall")
+		.description("Remove the git hooks, restoring the hooks they chained")
+		.action(async () => {
+			const result = await uninstallGitHooks(await requireGitHooksDir());
+			if (!result.success) {
+				printStatus(result.message, "error");
+				process.exit(1);
+			}
+			printStatus(result.message, "success");
+		});
 
-			console.log(pc.bold("Hooks Status"));
-			console.log(pc.dim("─".repeat(40)));
-			console.log(`  ${pc.bold("Path:")} ${status.path}`);
-			console.log(
-				`  ${pc.bold("File exists:")} ${status.exists ? pc.green("yes") : pc.yellow("no")}`,
+	// Shell integration
+	program
+		.command("shell-init <shell>")
+		.description(
+			`Print shell integration (${SHELLS.join(", ")}) so the avatar reacts to your own long-running commands`,
+		)
+		.option(
+			"--min-duration <seconds>",
+			"Only react to commands running at least this long",
+			String(DEFAULT_MIN_DURATION),
+		)
+		.option("--ignore <commands>", "Comma-separated commands to ignore (replaces the defaults)")
+		.option("--url <url>", "Send states to this server instead of discovering it")
+		.option("--port <number>", "Send states to this port on localhost")
+		.option("--instance <name>", "Send states to the running instance with this name")
+		.action(shellInitCommand);
+
+	// Replay command
+	program
+		.command("replay <file>")
+		.description("Replay a recorded state timeline (JSONL) against a running server")
+		.option("--speed <factor>", "Playback speed, e.g. 2x or 0.5x", "1x")
+		.option("--url <url>", "Server to replay the timeline to")
+		.option("--port <number>", "Port of the server on localhost")
+		.option("--instance <name>", "Name of a running byteside instance")
+		.action(replayCommand);
+
+	// Simulate command
+	program
+		.command("simulate [scenario]")
+		.description("Run a scripted scenario (preset name or JSON file) to check avatar animations")
+		.option("--speed <factor>", "Playback speed, e.g. 2x or 0.5x", "1x")
+		.option("-a, --avatar <name>", "Avatar to use if a server has to be started")
+		.option("--no-open", "Don't open the viewer when starting a server")
+		.option("-l, --list", "List built-in scenarios")
+		.option("--url <url>", "Server to run the scenario against")
+		.option("--port <number>", "Port of the server on localhost (started if not running)")
+		.option("--instance <name>", "Name of a running byteside instance")
+		.action(simulateCommand);
+
+	// Log subcommand group
+	const logCmd = program.command("log").description("Show the state transition log");
+
+	// log tail
+	logCmd
+		.command("tail")
+		.description("Show the most recent transitions")
+		.option("-n, --lines <count>", "Number of transitions to show", "20")
+		.option("--json", "Print raw JSONL")
+		.action(async (options) => {
+			const count = Number.parseInt(options.lines, 10);
+			const entries = await readEvents();
+			printEvents(
+				Number.isInteger(count) && count > 0 ? entries.slice(-count) : entries,
+				options.json,
 			);
+		});
 
-			if (status.installed) {
-				console.log(`  ${pc.green("✓")} ${status.hookCount} byteside hooks installed`);
-			} else {
-				console.log(`  ${pc.yellow("!")} No byteside hooks found`);
-				console.log();
-				console.log(`  ${pc.dim("Run 'byteside init' to install hooks")}`);
+	// log show
+	logCmd
+		.command("show")
+		.description("Show logged transitions")
+		.option("--since <time>", "Only show transitions after this time (e.g. 10m, 2h, 1d, or a date)")
+		.option("-s, --session <id>", "Only show one Claude Code session")
+		.option("--json", "Print raw JSONL")
+		.action(async (options) => {
+			let since: number | undefined;
+			if (options.since !== undefined) {
+				const parsed = parseSince(options.since);
+				if (parsed === null) {
+					printStatus(`Invalid --since value: ${options.since}`, "error");
+					process.exit(1);
+				}
+				since = parsed;
 			}
+
+			const entries = await readEvents(since);
+			printEvents(
+				options.session ? entries.filter((e) => e.sessionId === options.session) : entries,
+				options.json,
+			);
 		});
 
+	// Hooks subcommand group
+	const hooksCmd = program
+		.command("hooks")
+		.description("Manage Claude Code (or other agent) hooks");
+
+	// hooks status
+	hooksCmd
+		.command("status")
+		.description("Show hooks installation status for all scopes")
+		.option("-g, --global", "Only check global settings")
+		.option("-p, --project", "Only check project settings")
+		.option("-l, --local", "Only check local project settings")
+		.option("--agent <name>", "Agent whose hooks to manage", DEFAULT_AGENT)
+		.action(hooksStatusCommand);
+
 	// hooks uninstall
 	hooksCmd
 		.command("uninstall")
 		.description("Remove byteside hooks")
 		.option("-g, --global", "Remove from global settings")
 		.option("-p, --project", "Remove from project settings", true)
-		.option("--all", "Remove from both global and project settings")
+		.option("-l, --local", "Remove from local project settings")
+		.option("--all", "Remove from global, project and local settings")
 		.option("--no-backup", "Skip backup creation")
+		.option("--dry-run", "Show the changes to the settings files without writing them")
+		.option("--agent <name>", "Agent whose hooks to manage", DEFAULT_AGENT)
 		.action(async (options) => {
-			const paths: string[] = [];
-
+			const agent = requireAgent(options.agent);
+			let scopes: HookScope[];
 			if (options.all) {
-				paths.push(getGlobalClaudeSettingsPath());
-				paths.push(getProjectClaudeSettingsPath());
+				scopes = [...HOOK_SCOPES];
 			} else if (options.global) {
-				paths.push(getGlobalClaudeSettingsPath());
+				scopes = ["global"];
+			} else if (options.local) {
+				scopes = ["local"];
 			} else {
-				paths.push(getProjectClaudeSettingsPath());
+				scopes = ["project"];
+			}
+			if (!options.all && !scopes.every((scope) => agent.scopes.includes(scope))) {
+				printStatus(`${agent.displayName} has no ${scopes.join(", ")} settings`, "error");
+				process.exit(1);
 			}
 
-			for (const path of paths) {
-				const result = await uninstallHooks(path, {
+			for (const { path } of settingsScopes(scopes, agent)) {
+				const result = await agent.uninstall(path, {
 					noBackup: !options.backup,
+					dryRun: options.dryRun,
 				});
 
-				if (result.success) {
+				if (result.success && options.dryRun && result.diff) {
+					printStatus(result.message, "info");
+					printDryRun(path, result.diff);
+				} else if (result.success) {
 					printStatus(result.message, "success");
 					if (result.backupPath) {
 						printStatus(`Backup created: ${result.backupPath}`, "info");
@@ -517,16 +1743,86 @@ async function main(): Promise<void> {
 			}
 		});
 
+	// hooks doctor
+	hooksCmd
+		.command("doctor")
+		.description("Check installed hooks for drift, duplicates and stale entries")
+		.option("--fix", "Repair hooks that differ from the current configuration")
+		.option("--no-backup", "Skip backup creation when repairing")
+		.option("--agent <name>", "Agent whose hooks to manage", DEFAULT_AGENT)
+		.action((options: { fix?: boolean; backup: boolean; agent: string }) =>
+			hooksDoctorCommand(config, options),
+		);
+
+	// hooks backups subcommand group
+	const backupsCmd = hooksCmd
+		.command("backups")
+		.description("Manage the backups byteside makes of Claude settings files");
+
+	backupsCmd
+		.command("list")
+		.description("List backups with their size and byteside hook count")
+		.option("-g, --global", "Only global settings")
+		.option("-p, --project", "Only project settings")
+		.option("-l, --local", "Only local project settings")
+		.action(backupsListCommand);
+
+	backupsCmd
+		.command("diff <backup>")
+		.description("Show what restoring a backup (number from 'list' or file name) would change")
+		.option("-g, --global", "Backup of global settings")
+		.option("-p, --project", "Backup of project settings (default)")
+		.option("-l, --local", "Backup of local project settings")
+		.action(backupsDiffCommand);
+
+	backupsCmd
+		.command("restore <backup>")
+		.description("Restore a backup (number from 'list' or file name)")
+		.option("-g, --global", "Backup of global settings")
+		.option("-p, --project", "Backup of project settings (default)")
+		.option("-l, --local", "Backup of local project settings")
+		.option("--no-backup", "Don't back up the current settings first")
+		.action(backupsRestoreCommand);
+
+	backupsCmd
+		.command("prune")
+		.description("Delete all but the most recent backups")
+		.option("-k, --keep <count>", "Number of backups to keep per settings file", "5")
+		.option("-g, --global", "Only global settings")
+		.option("-p, --project", "Only project settings")
+		.option("-l, --local", "Only local project settings")
+		.action(backupsPruneCommand);
+
 	// hooks show
 	hooksCmd
 		.command("show")
-		.description("Preview generated hook configuration")
-		.action(() => {
-			const hooks = generateHookConfig();
+		.description("Preview the tool mapping and generated hook configuration")
+		.option("--json", "Print only the hook configuration")
+		.option("--agent <name>", "Agent to generate hooks for", DEFAULT_AGENT)
+		.action(async (options: { json?: boolean; agent: string }) => {
+			const agent = requireAgent(options.agent);
+			const { mapping, problems } = await resolveToolMapping(config, agent);
+			const hooks = agent.generateHooks(mapping);
+			if (options.json) {
+				console.log(JSON.stringify({ hooks }, null, "\t"));
+				return;
+			}
+
+			const patternWidth = Math.max(24, ...mapping.map(({ pattern }) => pattern.length));
+			console.log(pc.bold("Tool Mapping"));
+			console.log(pc.dim("─".repeat(patternWidth + 24)));
+			for (const { pattern, state, source } of mapping) {
+				console.log(`  ${pattern.padEnd(patternWidth)}  ${state.padEnd(12)}${pc.dim(source)}`);
+			}
+			for (const problem of problems) {
+				console.log(`  ${pc.yellow("!")} ${problem}`);
+			}
+
+			console.log();
+			console.log(pc.bold("Hook Configuration"));
+			console.log(pc.dim("─".repeat(patternWidth + 24)));
 			console.log(JSON.stringify({ hooks }, null, "\t"));
 		});
 
 	await program.parseAsync();
 }
-
-main();
@@ -2,7 +2,6 @@ import { existsSync } from "node:fs";
 import { mkdir, readFile, writeFile } from "node:fs/promises";
 import { homedir } from "node:os";
 import { join } from "node:path";
-import { loadConfig } from "c12";
 
 /**
  * Server configuration options.
@@ -20,6 +19,61 @@ export interface ViewerConfig {
 	showDebug?: boolean;
 }
 
+/**
+ * Server-side state behaviour options.
+ */
+export interface StateConfig {
+	/** Fall back to idleState after this many ms without a trigger (0 disables) */
+	idleTimeoutMs?: number;
+	/** Per-state overrides for idleTimeoutMs, e.g. { "waiting": 0 } */
+	idleTimeouts?: Record<string, number>;
+	/** State to fall back to on inactivity */
+	idleState?: string;
+	/** Minimum time (ms) a state stays on screen before a lower-priority trigger replaces it */
+	minDwellMs?: number;
+	/** Per-state overrides for minDwellMs */
+	minDwells?: Record<string, number>;
+	/** States that may interrupt the minimum dwell time, highest priority first */
+	priority?: string[];
+	/** Show only file names and program names in captions, e.g. while streaming */
+	redactContext?: boolean;
+}
+
+/**
+ * Event log options (~/.byteside/logs/*.jsonl).
+ */
+export interface LogConfig {
+	/** Write every state transition to the event log */
+	enabled?: boolean;
+	/** Start a new file once the current one reaches this size (default 5 MB) */
+	maxSizeBytes?: number;
+	/** Start a new file once the current one is this old (default 24) */
+	maxAgeHours?: number;
+	/** Number of log files to keep (default 10) */
+	maxFiles?: number;
+}
+
+/**
+ * Offline spool options (~/.byteside/spool/<port>.jsonl).
+ * Triggers sent while no server is running are spooled and replayed when it starts.
+ */
+export interface SpoolConfig {
+	/** Discard spooled triggers older than this on startup (0 disables replaying them) */
+	maxAgeMs?: number;
+}
+
+/**
+ * Claude Code hook options.
+ */
+export interface HooksConfig {
+	/**
+	 * Tool name pattern → state entered when the tool is called, e.g. { "mcp__.*": "thinking" }.
+	 * Patterns are regexes matched against the whole tool name and are checked in
+	 * order, before the built-in Edit/Write → writing and Bash → bash entries.
+	 */
+	mapping?: Record<string, string>;
+}
+
 /**
  * Byteside configuration schema.
  */
@@ -30,6 +84,14 @@ export interface BytesideConfig {
 	server?: ServerConfig;
 	/** Viewer settings */
 	viewer?: ViewerConfig;
+	/** State behaviour settings */
+	state?: StateConfig;
+	/** Event log settings */
+	log?: LogConfig;
+	/** Offline spool settings */
+	spool?: SpoolConfig;
+	/** Claude Code hook settings */
+	hooks?: HooksConfig;
 	/** Avatar search paths (for future use) */
 	avatarPaths?: string[];
 }
@@ -47,6 +109,19 @@ export const defaults: BytesideConfig = {
 		autoOpen: true,
 		showDebug: false,
 	},
+	state: {
+		idleTimeoutMs: 0,
+		idleState: "idle",
+		minDwellMs: 0,
+		priority: ["error", "waiting", "bash", "writing", "thinking"],
+		redactContext: false,
+	},
+	log: {
+		enabled: true,
+	},
+	spool: {
+		maxAgeMs: 10 * 60 * 1000,
+	},
 	avatarPaths: ["~/.byteside/avatars", "./avatars"],
 };
 
@@ -58,8 +133,10 @@ export const defaults: BytesideConfig = {
  * 2. Project config (.byteside.json in cwd)
  * 3. Global config (~/.byteside/config.json)
  * 4. Default values
+ *
+ * @param cwd Directory to look for .byteside.json in (defaults to process.cwd())
  */
-export async function loadBytesideConfig(): Promise<BytesideConfig> {
+export async function loadBytesideConfig(cwd?: string): Promise<BytesideConfig> {
 	// Load global config from ~/.byteside/config.json
 	let globalConfig: Partial<BytesideConfig> = {};
 	const globalConfigPath = getGlobalConfigPath();
@@ -72,9 +149,11 @@ export async function loadBytesideConfig(): Promise<BytesideConfig> {
 		}
 	}
 
-	// Load project config using c12
+	// Load project config using c12 (imported here so commands that don't need config start faster)
+	const { loadConfig } = await import("c12");
 	const { config } = await loadConfig<BytesideConfig>({
 		name: "byteside",
+		...(cwd ? { cwd } : {}),
 		configFile: ".byteside.json",
 		defaults: {
 			...defaults,
@@ -100,7 +179,8 @@ export function getGlobalConfigPath(): string {
 
 /**
  * Ensure the global config directory and file exist.
- * Creates ~/.byteside/config.json with defaults if it doesn't exist.
+ * Creates an empty ~/.byteside/config.json if it doesn't exist. Defaults are
+ * merged in at load time rather than copied, so changes to them still apply.
  */
 export async function ensureGlobalConfig(): Promise<void> {
 	const globalDir = getGlobalDir();
@@ -108,6 +188,6 @@ export async function ensureGlobalConfig(): Promise<void> {
 
 	if (!existsSync(configPath)) {
 		await mkdir(globalDir, { recursive: true });
-		await writeFile(configPath, JSON.stringify(defaults, null, "\t"));
+		await writeFile(configPath, "{}\n");
 	}
 }
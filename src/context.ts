@@ -0,0 +1,99 @@
+import { basename } from "node:path";
+import type { StateContext } from "./types";
+
+/**
+ * Context fields accepted by POST /state.
+ */
+export const CONTEXT_FIELDS = ["tool", "file", "command", "message"] as const;
+
+/**
+ * Longest value kept for any context field; longer values are truncated.
+ */
+export const MAX_CONTEXT_LENGTH = 120;
+
+/**
+ * Options for normalizeContext().
+ */
+export interface NormalizeContextOptions {
+	/** Hide file paths and command arguments, e.g. while streaming */
+	redact?: boolean;
+}
+
+/**
+ * Check that a value is a context object with only known, string-valued fields.
+ */
+export function isValidStateContext(value: unknown): value is StateContext {
+	if (typeof value !== "object" || value === null || Array.isArray(value)) {
+		return false;
+	}
+	return Object.entries(value).every(
+		([key, field]) =>
+			(CONTEXT_FIELDS as readonly string[]).includes(key) &&
+			(field === undefined || typeof field === "string"),
+	);
+}
+
+/**
+ * Shorten text to at most `max` characters, marking the cut with an ellipsis.
+ */
+export function truncate(text: string, max = MAX_CONTEXT_LENGTH): string {
+	return text.length > max ? `${text.slice(0, max - 1)}…` : text;
+}
+
+/**
+ * Name of the program a shell command runs, without its directory, arguments
+ * or leading `NAME=value` assignments (which often hold secrets).
+ * @returns An empty string for a command that only assigns variables.
+ */
+function programName(command: string): string {
+	const program = command.split(" ").find((word) => !/^[A-Za-z_][A-Za-z0-9_]*=/.test(word));
+	return program ? basename(program) : "";
+}
+
+/**
+ * Collapse whitespace, truncate long values and drop empty fields.
+ * With `redact`, files are reduced to their base name and commands to the program's base name.
+ * @returns The cleaned context, or undefined when nothing is left.
+ */
+export function normalizeContext(
+	context: StateContext,
+	options: NormalizeContextOptions = {},
+): StateContext | undefined {
+	const result: StateContext = {};
+
+	for (const field of CONTEXT_FIELDS) {
+		let value = context[field]?.replace(/\s+/g, " ").trim();
+		if (!value) {
+			continue;
+		}
+		if (options.redact && field === "file") {
+			value = basename(value);
+		}
+		if (options.redact && field === "command") {
+			value = programName(value);
+			if (!value) {
+				continue;
+			}
+		}
+		result[field] = truncate(value);
+	}
+
+	return Object.keys(result).length > 0 ? result : undefined;
+}
+
+/**
+ * One-line caption for a context, e.g. "Edit src/cli.ts" or "$ npm test".
+ * @returns An empty string when there is nothing to show.
+ */
+export function formatCaption(context: StateContext | undefined): string {
+	if (!context) {
+		return "";
+	}
+	if (context.message) {
+		return context.message;
+	}
+	if (context.command) {
+		return `$ ${context.command}`;
+	}
+	return [context.tool, context.file].filter(Boolean).join(" ");
+}
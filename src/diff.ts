@@ -0,0 +1,111 @@
+/**
+ * One line of a line diff.
+ */
+export interface DiffLine {
+	type: "same" | "add" | "remove";
+	text: string;
+}
+
+/**
+ * Compute a line diff between two texts (longest common subsequence).
+ * Meant for small files such as Claude settings.
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+	// An empty text has no lines (rather than one empty line)
+	const a = before === "" ? [] : before.split("\n");
+	const b = after === "" ? [] : after.split("\n");
+
+	// lcs(i, j): length of the longest common subsequence of a[i..] and b[j..]
+	const width = b.length + 1;
+	const lengths = new Uint32Array((a.length + 1) * width);
+	const lcs = (i: number, j: number) => lengths[i * width + j] ?? 0;
+	for (let i = a.length - 1; i >= 0; i--) {
+		for (let j = b.length - 1; j >= 0; j--) {
+			lengths[i * width + j] =
+				a[i] === b[j] ? lcs(i + 1, j + 1) + 1 : Math.max(lcs(i + 1, j), lcs(i, j + 1));
+		}
+	}
+
+	const lines: DiffLine[] = [];
+	let i = 0;
+	let j = 0;
+	while (i < a.length || j < b.length) {
+		if (i < a.length && j < b.length && a[i] === b[j]) {
+			lines.push({ type: "same", text: a[i] ?? "" });
+			i++;
+			j++;
+		} else if (j >= b.length || (i < a.length && lcs(i + 1, j) >= lcs(i, j + 1))) {
+			lines.push({ type: "remove", text: a[i] ?? "" });
+			i++;
+		} else {
+			lines.push({ type: "add", text: b[j] ?? "" });
+			j++;
+		}
+	}
+	return lines;
+}
+
+/**
+ * Check whether a diff has any changes.
+ */
+export function hasChanges(lines: DiffLine[]): boolean {
+	return lines.some((line) => line.type !== "same");
+}
+
+function formatRange(start: number, count: number): string {
+	// Empty ranges point at the line before them
+	if (count === 0) return `${start},0`;
+	return count === 1 ? `${start + 1}` : `${start + 1},${count}`;
+}
+
+/**
+ * Format a diff as a unified diff: `---`/`+++` file headers, then `@@` hunks
+ * with `context` unchanged lines around each change.
+ */
+export function formatUnifiedDiff(
+	lines: DiffLine[],
+	fromFile: string,
+	toFile: string,
+	context = 3,
+): string[] {
+	// Line numbers (0-based) in the old and new text at each diff line
+	const positions: { before: number; after: number }[] = [];
+	let before = 0;
+	let after = 0;
+	for (const line of lines) {
+		positions.push({ before, after });
+		if (line.type !== "add") before++;
+		if (line.type !== "remove") after++;
+	}
+
+	const isChange = (index: number) => lines[index]?.type !== "same";
+	const output = [`--- ${fromFile}`, `+++ ${toFile}`];
+	let index = 0;
+	while (index < lines.length) {
+		let firstChange = index;
+		while (firstChange < lines.length && !isChange(firstChange)) firstChange++;
+		if (firstChange >= lines.length) break;
+
+		// Changes closer than two contexts apart share a hunk
+		let lastChange = firstChange;
+		for (let k = firstChange + 1; k < lines.length && k - lastChange <= 2 * context; k++) {
+			if (isChange(k)) lastChange = k;
+		}
+
+		const start = Math.max(index, firstChange - context);
+		const end = Math.min(lines.length, lastChange + context + 1);
+		const hunk = lines.slice(start, end);
+		const position = positions[start] ?? { before: 0, after: 0 };
+		const removed = hunk.filter((line) => line.type !== "add").length;
+		const added = hunk.filter((line) => line.type !== "remove").length;
+		output.push(
+			`@@ -${formatRange(position.before, removed)} +${formatRange(position.after, added)} @@`,
+		);
+		for (const line of hunk) {
+			const prefix = line.type === "add" ? "+" : line.type === "remove" ? "-" : " ";
+			output.push(`${prefix}${line.text}`);
+		}
+		index = end;
+	}
+	return output;
+}
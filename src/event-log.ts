@@ -0,0 +1,152 @@
+import { existsSync } from "node:fs";
+import { appendFile, mkdir, readdir, readFile, stat, unlink } from "node:fs/promises";
+import { join } from "node:path";
+import { getGlobalDir, type LogConfig } from "./config";
+import type { StateHistoryEntry } from "./types";
+
+/**
+ * Log file names: events-<start timestamp>.jsonl, so sorting by name sorts by age.
+ */
+const LOG_FILE_REGEX = /^events-(\d+)\.jsonl$/;
+
+/**
+ * Rotation settings with defaults filled in.
+ */
+export type RotationOptions = Required<Omit<LogConfig, "enabled">>;
+
+/**
+ * Default rotation settings.
+ */
+export const DEFAULT_ROTATION: RotationOptions = {
+	maxSizeBytes: 5 * 1024 * 1024,
+	maxAgeHours: 24,
+	maxFiles: 10,
+};
+
+/**
+ * Get the event log directory (~/.byteside/logs).
+ */
+export function getLogDir(): string {
+	return join(getGlobalDir(), "logs");
+}
+
+/**
+ * A log file and the time its first entry was written.
+ */
+interface LogFile {
+	path: string;
+	startedAt: number;
+}
+
+/**
+ * List log files in a directory, oldest first.
+ */
+export async function listLogFiles(dir: string = getLogDir()): Promise<LogFile[]> {
+	if (!existsSync(dir)) {
+		return [];
+	}
+
+	const files: LogFile[] = [];
+	for (const name of await readdir(dir)) {
+		const match = LOG_FILE_REGEX.exec(name);
+		if (match?.[1]) {
+			files.push({ path: join(dir, name), startedAt: Number(match[1]) });
+		}
+	}
+	return files.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * Pick the file to append to, starting a new one when the newest
+ * has grown past maxSizeBytes or is older than maxAgeHours.
+ * Deletes the oldest files beyond maxFiles.
+ */
+async function activeLogFile(dir: string, now: number, options: RotationOptions): Promise<string> {
+	const files = await listLogFiles(dir);
+	const newest = files.at(-1);
+
+	if (newest) {
+		const { size } = await stat(newest.path);
+		const ageMs = now - newest.startedAt;
+		if (size < options.maxSizeBytes && ageMs < options.maxAgeHours * 60 * 60 * 1000) {
+			return newest.path;
+		}
+	}
+
+	// Rotate: the new file counts towards maxFiles
+	for (const old of files.slice(0, Math.max(0, files.length - options.maxFiles + 1))) {
+		await unlink(old.path).catch(() => {});
+	}
+	return join(dir, `events-${now}.jsonl`);
+}
+
+/**
+ * Append a state transition to the event log.
+ */
+export async function appendEvent(
+	entry: StateHistoryEntry,
+	options: Partial<RotationOptions> = {},
+	dir: string = getLogDir(),
+): Promise<void> {
+	await mkdir(dir, { recursive: true });
+	const path = await activeLogFile(dir, entry.timestamp, { ...DEFAULT_ROTATION, ...options });
+	await appendFile(path, `${JSON.stringify(entry)}\n`);
+}
+
+/**
+ * Parse one log line; returns null for blank or malformed lines.
+ */
+export function parseEventLine(line: string): StateHistoryEntry | null {
+	if (line.trim().length === 0) {
+		return null;
+	}
+	try {
+		const entry = JSON.parse(line) as Partial<StateHistoryEntry>;
+		if (typeof entry.state !== "string" || typeof entry.timestamp !== "number") {
+			return null;
+		}
+		return entry as StateHistoryEntry;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Read logged transitions, oldest first.
+ * @param since Only return entries newer than this timestamp (ms)
+ */
+export async function readEvents(
+	since?: number,
+	dir: string = getLogDir(),
+): Promise<StateHistoryEntry[]> {
+	const entries: StateHistoryEntry[] = [];
+
+	for (const file of await listLogFiles(dir)) {
+		const content = await readFile(file.path, "utf-8").catch(() => "");
+		for (const line of content.split("\n")) {
+			const entry = parseEventLine(line);
+			if (entry && (since === undefined || entry.timestamp > since)) {
+				entries.push(entry);
+			}
+		}
+	}
+	return entries;
+}
+
+/**
+ * Parse a --since value: a relative duration ("30s", "10m", "2h", "1d"),
+ * a timestamp in ms or a date string.
+ * @returns The timestamp (ms), or null if the value can't be parsed.
+ */
+export function parseSince(value: string, now: number = Date.now()): number | null {
+	const relative = /^(\d+)\s*(s|m|h|d)$/.exec(value.trim());
+	if (relative?.[1] && relative[2]) {
+		const units: Record<string, number> = { s: 1000, m: 60_000, h: 3_600_000, d: 86_400_000 };
+		return now - Number(relative[1]) * (units[relative[2]] ?? 0);
+	}
+	if (/^\d+$/.test(value.trim())) {
+		return Number(value);
+	}
+	const date = Date.parse(value);
+	return Number.isNaN(date) ? null : date;
+}
@@ -0,0 +1,236 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { chmod, mkdir, readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { join, resolve } from "node:path";
+import { promisify } from "node:util";
+import type { HookResult } from "./hooks";
+import { formatHookTarget, type HookTarget } from "./instances";
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Git hooks byteside installs.
+ */
+export const GIT_HOOKS = ["post-commit", "pre-push", "post-merge", "post-checkout"] as const;
+
+/**
+ * A git hook byteside installs.
+ */
+export type GitHookName = (typeof GIT_HOOKS)[number];
+
+/**
+ * First comment line of every hook byteside writes; used to recognize them.
+ */
+export const GIT_HOOK_MARKER = "# byteside git hook";
+
+/**
+ * Suffix of a hook that was in place before byteside's and is now run by it.
+ */
+export const CHAINED_SUFFIX = ".byteside-chained";
+
+/**
+ * Session git states are reported under, so they don't interrupt agent sessions' timers.
+ */
+const GIT_SESSION = "git";
+
+/**
+ * Installation status of one git hook.
+ */
+export interface GitHookStatus {
+	name: GitHookName;
+	path: string;
+	/** byteside's hook is installed */
+	installed: boolean;
+	/** A previous hook is kept and run before byteside's */
+	chained: boolean;
+	/** Another hook is installed in byteside's place */
+	foreign: boolean;
+}
+
+/**
+ * Options for installing git hooks.
+ */
+export interface GitInstallOptions {
+	force?: boolean;
+	/** Server the hooks send states to (defaults to discovering it at run time) */
+	target?: HookTarget;
+}
+
+/**
+ * Find the hooks directory of the git repository containing `cwd`.
+ * Follows core.hooksPath and worktrees, like git itself.
+ * @returns The directory, or null if `cwd` isn't in a git repository.
+ */
+export async function getGitHooksDir(cwd: string = process.cwd()): Promise<string | null> {
+	try {
+		const { stdout } = await execFileAsync("git", ["rev-parse", "--git-path", "hooks"], { cwd });
+		return resolve(cwd, stdout.trim());
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Check if a hook script was written by byteside.
+ */
+export function isBytesideGitHook(content: string): boolean {
+	return content.split("\n", 3).some((line) => line.startsWith(GIT_HOOK_MARKER));
+}
+
+/**
+ * Shell lines that pick the state for a hook once the chained hook has run
+ * (its exit status is in $status).
+ */
+function hookReaction(
+	name: GitHookName,
+	trigger: (state: string, message: string) => string,
+): string {
+	switch (name) {
+		case "post-commit":
+			return trigger("success", "Committed");
+		case "pre-push":
+			return `[ "$status" -eq 0 ] || ${trigger("error", "Pre-push checks failed")}`;
+		case "post-merge":
+			return trigger("success", "Merged");
+		case "post-checkout":
+			// $3 is 1 for branch checkouts and 0 for file checkouts
+			return `[ "$3" = "1" ] && ${trigger("thinking", "Switched branch")}`;
+	}
+}
+
+/**
+ * Generate the script for a git hook. It runs the chained hook first (with the
+ * same arguments and stdin), then sends a state in the background and exits
+ * with the chained hook's status, so byteside never changes what git does.
+ */
+export function generateGitHook(name: GitHookName, target: HookTarget = {}): string {
+	const flags = formatHookTarget(target);
+	const trigger = (state: string, message: string) =>
+		`(byteside trigger ${state} --session ${GIT_SESSION} --message "${message}"${flags ? ` ${flags}` : ""} </dev/null >/dev/null 2>&1 &)`;
+
+	return `#!/bin/sh
+${GIT_HOOK_MARKER} (installed by 'byteside git install'; remove with 'byteside git uninstall')
+chained="$(dirname "$0")/${name}${CHAINED_SUFFIX}"
+status=0
+if [ -x "$chained" ]; then
+	"$chained" "$@"
+	status=$?
+fi
+if command -v byteside >/dev/null 2>&1; then
+	${hookReaction(name, trigger)}
+fi
+exit $status
+`;
+}
+
+async function readHook(path: string): Promise<string | null> {
+	return existsSync(path) ? await readFile(path, "utf-8") : null;
+}
+
+/**
+ * Get the installation status of byteside's git hooks.
+ */
+export async function getGitHookStatus(hooksDir: string): Promise<GitHookStatus[]> {
+	return Promise.all(
+		GIT_HOOKS.map(async (name) => {
+			const path = join(hooksDir, name);
+			const content = await readHook(path);
+			const installed = content !== null && isBytesideGitHook(content);
+			return {
+				name,
+				path,
+				installed,
+				chained: installed && existsSync(`${path}${CHAINED_SUFFIX}`),
+				foreign: content !== null && !installed,
+			};
+		}),
+	);
+}
+
+/**
+ * Install byteside's git hooks. Existing hooks are renamed to
+ * `<hook>.byteside-chained` and run by byteside's hook, so they keep working.
+ */
+export async function installGitHooks(
+	hooksDir: string,
+	options: GitInstallOptions = {},
+): Promise<HookResult> {
+	try {
+		const statuses = await getGitHookStatus(hooksDir);
+		if (statuses.every((hook) => hook.installed) && !options.force) {
+			return {
+				success: false,
+				message: "Byteside git hooks already installed. Use --force to overwrite.",
+			};
+		}
+
+		for (const hook of statuses) {
+			if (hook.foreign && existsSync(`${hook.path}${CHAINED_SUFFIX}`)) {
+				return {
+					success: false,
+					message: `Both ${hook.path} and ${hook.path}${CHAINED_SUFFIX} exist. Please merge them manually.`,
+				};
+			}
+		}
+
+		await mkdir(hooksDir, { recursive: true });
+		const chained: string[] = [];
+		for (const hook of statuses) {
+			if (hook.installed && !options.force) continue;
+			if (hook.foreign) {
+				await rename(hook.path, `${hook.path}${CHAINED_SUFFIX}`);
+				chained.push(hook.name);
+			}
+			await writeFile(hook.path, generateGitHook(hook.name, options.target));
+			await chmod(hook.path, 0o755);
+		}
+
+		const suffix = chained.length > 0 ? ` (chaining existing ${chained.join(", ")})` : "";
+		return {
+			success: true,
+			message: `Installed ${GIT_HOOKS.length} byteside git hooks to ${hooksDir}${suffix}`,
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return {
+			success: false,
+			message: `Failed to install git hooks: ${message}`,
+		};
+	}
+}
+
+/**
+ * Remove byteside's git hooks, putting chained hooks back in their place.
+ */
+export async function uninstallGitHooks(hooksDir: string): Promise<HookResult> {
+	try {
+		const installed = (await getGitHookStatus(hooksDir)).filter((hook) => hook.installed);
+		if (installed.length === 0) {
+			return {
+				success: true,
+				message: "No byteside git hooks found to remove",
+			};
+		}
+
+		const restored: string[] = [];
+		for (const hook of installed) {
+			await unlink(hook.path);
+			if (hook.chained) {
+				await rename(`${hook.path}${CHAINED_SUFFIX}`, hook.path);
+				restored.push(hook.name);
+			}
+		}
+
+		const suffix = restored.length > 0 ? ` (restored ${restored.join(", ")})` : "";
+		return {
+			success: true,
+			message: `Removed byteside git hooks from ${hooksDir}${suffix}`,
+		};
+	} catch (error) {
+		const message = error instanceof Error ? error.message : String(error);
+		return {
+			success: false,
+			message: `Failed to uninstall git hooks: ${message}`,
+		};
+	}
+}
@@ -0,0 +1,114 @@
+import type { StateContext } from "./types";
+
+/**
+ * JSON payload Claude Code pipes to hook commands on stdin.
+ * Only the fields byteside uses are typed; everything else is preserved.
+ */
+export interface HookInput {
+	session_id?: string;
+	hook_event_name?: string;
+	cwd?: string;
+	/** Tool events (PreToolUse, PostToolUse) */
+	tool_name?: string;
+	tool_input?: Record<string, unknown>;
+	/** Notification events */
+	message?: string;
+	[key: string]: unknown;
+}
+
+/**
+ * Check for a plain JSON object.
+ */
+function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Maximum time to wait for stdin before giving up.
+ * Hooks always close stdin, so this only guards manual invocations.
+ */
+const STDIN_TIMEOUT_MS = 500;
+
+/**
+ * Parse a hook payload.
+ * Returns null for empty input, invalid JSON or non-object values.
+ */
+export function parseHookInput(raw: string): HookInput | null {
+	if (raw.trim().length === 0) {
+		return null;
+	}
+
+	try {
+		const parsed: unknown = JSON.parse(raw);
+		return isRecord(parsed) ? (parsed as HookInput) : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Return a value if it is a non-empty string.
+ */
+function stringField(value: unknown): string | undefined {
+	return typeof value === "string" && value.length > 0 ? value : undefined;
+}
+
+/**
+ * Extract caption context (tool, file, command, notification text) from a hook payload.
+ * Prompts and tool output are never included.
+ * @returns The context, or undefined when the payload carries none.
+ */
+export function contextFromHookInput(input: HookInput): StateContext | undefined {
+	const toolInput = isRecord(input.tool_input) ? input.tool_input : {};
+	const context: StateContext = {};
+
+	const tool = stringField(input.tool_name);
+	const file =
+		stringField(toolInput["file_path"]) ??
+		stringField(toolInput["notebook_path"]) ??
+		stringField(toolInput["path"]);
+	const command = stringField(toolInput["command"]);
+	const message = stringField(input.message);
+
+	if (tool) context.tool = tool;
+	if (file) context.file = file;
+	if (command) context.command = command;
+	if (message) context.message = message;
+
+	return Object.keys(context).length > 0 ? context : undefined;
+}
+
+/**
+ * Read the hook payload from stdin.
+ * Returns null when stdin is a TTY (manual invocation) or nothing usable arrives in time.
+ */
+export async function readHookInput(
+	stdin: NodeJS.ReadStream = process.stdin,
+	timeoutMs = STDIN_TIMEOUT_MS,
+): Promise<HookInput | null> {
+	if (stdin.isTTY) {
+		return null;
+	}
+
+	const raw = await new Promise<string>((resolve) => {
+		const chunks: Buffer[] = [];
+		const finish = () => {
+			clearTimeout(timer);
+			stdin.off("data", onData);
+			stdin.off("end", finish);
+			stdin.off("error", finish);
+			stdin.pause();
+			resolve(Buffer.concat(chunks).toString("utf-8"));
+		};
+		const onData = (chunk: Buffer | string) => {
+			chunks.push(typeof chunk === "string" ? Buffer.from(chunk) : chunk);
+		};
+		const timer = setTimeout(finish, timeoutMs);
+
+		stdin.on("data", onData);
+		stdin.once("end", finish);
+		stdin.once("error", finish);
+	});
+
+	return parseHookInput(raw);
+}
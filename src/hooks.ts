@@ -2,6 +2,11 @@ import { existsSync } from "node:fs";
 import { copyFile, mkdir, readFile, writeFile } from "node:fs/promises";
 import { homedir } from "node:os";
 import { dirname, join } from "node:path";
+import { type DiffLine, diffLines } from "./diff";
+import type { HookInput } from "./hook-input";
+import { formatHookTarget, type HookTarget, parseHookTarget } from "./instances";
+import { parseJsonc, updateJsonc } from "./jsonc";
+import type { AvatarState } from "./types";
 
 /**
  * Single hook command configuration.
@@ -21,7 +26,8 @@ export interface HookEntry {
 }
 
 /**
- * Claude hooks configuration structure.
+ * Claude hooks configuration structure: hook entries keyed by event name.
+ * Events byteside doesn't know are kept as they are.
  */
 export interface ClaudeHooks {
 	UserPromptSubmit?: HookEntry[];
@@ -29,6 +35,11 @@ export interface ClaudeHooks {
 	PostToolUse?: HookEntry[];
 	Notification?: HookEntry[];
 	Stop?: HookEntry[];
+	SubagentStop?: HookEntry[];
+	PreCompact?: HookEntry[];
+	SessionStart?: HookEntry[];
+	SessionEnd?: HookEntry[];
+	[event: string]: HookEntry[] | undefined;
 }
 
 /**
@@ -46,6 +57,8 @@ export interface HookResult {
 	success: boolean;
 	message: string;
 	backupPath?: string | undefined;
+	/** Changes to the settings file (dry runs only) */
+	diff?: DiffLine[] | undefined;
 }
 
 /**
@@ -58,19 +71,223 @@ export interface HookStatus {
 	exists: boolean;
 }
 
+/**
+ * A problem with the byteside hooks in a settings file.
+ * - missing: an event byteside handles has no byteside hook
+ * - outdated: a byteside hook differs from the generated one (older version, changed mapping, hand edits)
+ * - duplicate: an event has more byteside hooks than expected
+ * - unexpected: a byteside hook is registered for an event byteside doesn't handle
+ */
+export interface HookIssue {
+	event: string;
+	kind: "missing" | "outdated" | "duplicate" | "unexpected";
+	message: string;
+}
+
 /**
  * Options for installing hooks.
  */
 export interface InstallOptions {
 	force?: boolean;
 	noBackup?: boolean;
+	/** Report the changes without writing the settings file */
+	dryRun?: boolean;
+	/** Effective tool mapping (defaults to the built-in mapping) */
+	mapping?: ToolMapping[];
+	/** Server the hooks send states to (defaults to discovering it at run time) */
+	target?: HookTarget;
+	/** Hooks to install (defaults to the Claude Code hooks for `mapping` and `target`) */
+	hooks?: ClaudeHooks;
+}
+
+/**
+ * One tool mapping entry: tools whose name matches `pattern` set `state`.
+ */
+export interface ToolMapping {
+	pattern: string;
+	state: AvatarState;
+	/** Whether the entry comes from hooks.mapping or the built-in mapping */
+	source: "config" | "default";
+}
+
+/**
+ * Hook events byteside installs a `byteside hook <event>` handler for.
+ */
+export const HOOK_EVENTS = [
+	"UserPromptSubmit",
+	"PreToolUse",
+	"PostToolUse",
+	"PostToolUseFailure",
+	"Notification",
+	"Stop",
+	"SubagentStop",
+	"PreCompact",
+	"SessionStart",
+	"SessionEnd",
+] as const;
+
+/**
+ * A hook event byteside installs a handler for.
+ */
+export type HookEvent = (typeof HOOK_EVENTS)[number];
+
+/**
+ * Built-in tool mapping, used after any hooks.mapping entries.
+ */
+export const DEFAULT_TOOL_MAPPING: Readonly<Record<string, AvatarState>> = {
+	"Edit|Write|MultiEdit|NotebookEdit": "writing",
+	Bash: "bash",
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Compile a mapping pattern. Like Claude Code matchers, patterns match the whole tool name.
+ * @returns The regex, or null if the pattern is invalid.
+ */
+function compileToolPattern(pattern: string): RegExp | null {
+	try {
+		return new RegExp(`^(?:${pattern})$`);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Get the effective tool mapping: hooks.mapping entries in order, then the built-in ones.
+ * Entries with an invalid pattern or state are skipped (see validateToolMapping()).
+ * @param defaults Built-in mapping for the agent's tool names
+ */
+export function getToolMapping(
+	config: unknown = {},
+	defaults: Readonly<Record<string, AvatarState>> = DEFAULT_TOOL_MAPPING,
+): ToolMapping[] {
+	const mapping = isObject(config) ? config : {};
+	const configured: ToolMapping[] = Object.entries(mapping)
+		.filter(
+			(entry): entry is [string, string] =>
+				typeof entry[1] === "string" &&
+				entry[1].length > 0 &&
+				compileToolPattern(entry[0]) !== null,
+		)
+		.map(([pattern, state]) => ({ pattern, state, source: "config" }));
+
+	const builtIn: ToolMapping[] = Object.entries(defaults)
+		.filter(([pattern]) => !Object.hasOwn(mapping, pattern))
+		.map(([pattern, state]) => ({ pattern, state, source: "default" }));
+
+	return [...configured, ...builtIn];
+}
+
+/**
+ * Check a hooks.mapping config section.
+ * @param validStates States the active avatar can show
+ * @returns Problems found; empty if every entry is usable.
+ */
+export function validateToolMapping(mapping: unknown, validStates: readonly string[]): string[] {
+	if (!isObject(mapping)) {
+		return ["hooks.mapping must be an object of tool name patterns to states"];
+	}
+
+	const errors: string[] = [];
+	for (const [pattern, state] of Object.entries(mapping)) {
+		if (compileToolPattern(pattern) === null) {
+			errors.push(`hooks.mapping pattern "${pattern}" is not a valid regular expression`);
+		} else if (typeof state !== "string" || state.length === 0) {
+			errors.push(`hooks.mapping["${pattern}"] must be a state name (string)`);
+		} else if (!validStates.includes(state)) {
+			errors.push(
+				`hooks.mapping["${pattern}"] references state "${state}", which the avatar doesn't define`,
+			);
+		}
+	}
+	return errors;
+}
+
+/**
+ * Decide the state for a tool call from the tool mapping; the first matching entry wins.
+ * @returns The state, or null when no entry matches.
+ */
+export function stateForTool(
+	toolName: string,
+	mapping: ToolMapping[] = getToolMapping(),
+): AvatarState | null {
+	const entry = mapping.find(({ pattern }) => compileToolPattern(pattern)?.test(toolName));
+	return entry?.state ?? null;
+}
+
+/**
+ * Exit code fields seen in Bash tool responses.
+ */
+const EXIT_CODE_FIELDS = ["exit_code", "exitCode", "returnCode"] as const;
+
+/**
+ * Check whether a PostToolUse payload reports a failed tool call.
+ * Recognizes non-zero Bash exit codes, `is_error`/`isError` responses (MCP tools),
+ * `success: false` and non-empty `error` fields (a message or, for Gemini CLI, an object).
+ */
+export function isToolFailure(input: HookInput): boolean {
+	if (input.hook_event_name === "PostToolUseFailure") {
+		return true;
+	}
+
+	const response = input["tool_response"];
+	if (typeof response !== "object" || response === null || Array.isArray(response)) {
+		return false;
+	}
+	const result = response as Record<string, unknown>;
+
+	if (result["is_error"] === true || result["isError"] === true || result["success"] === false) {
+		return true;
+	}
+	const error = result["error"];
+	if ((typeof error === "string" && error.length > 0) || isObject(error)) {
+		return true;
+	}
+	return EXIT_CODE_FIELDS.some((field) => {
+		const code = result[field];
+		return typeof code === "number" && code !== 0;
+	});
 }
 
 /**
- * Tool matchers for each avatar state.
+ * Decide the avatar state for a hook payload.
+ * Optional states (compacting, starting) fall back to a core state on the
+ * server when the avatar doesn't declare them.
+ * @param mapping Tool mapping used for PreToolUse (defaults to the built-in mapping)
+ * @returns The state to show, or null when the event shouldn't change it.
  */
-const WRITING_TOOLS = "Edit|Write|MultiEdit|NotebookEdit";
-const BASH_TOOLS = "Bash";
+export function stateForHookInput(
+	input: HookInput,
+	mapping: ToolMapping[] = getToolMapping(),
+): AvatarState | null {
+	switch (input.hook_event_name) {
+		case "UserPromptSubmit":
+			return "thinking";
+		case "PreToolUse":
+			return input.tool_name ? stateForTool(input.tool_name, mapping) : null;
+		case "PostToolUse":
+		case "PostToolUseFailure":
+			return isToolFailure(input) ? "error" : "thinking";
+		case "Notification":
+			return "waiting";
+		case "Stop":
+			return "success";
+		case "SubagentStop":
+			// The main agent picks up the subagent's result
+			return "thinking";
+		case "PreCompact":
+			return "compacting";
+		case "SessionStart":
+			return "starting";
+		case "SessionEnd":
+			return "idle";
+		default:
+			return null;
+	}
+}
 
 /**
  * Get the global Claude settings path.
@@ -86,54 +303,107 @@ export function getProjectClaudeSettingsPath(): string {
 	return join(process.cwd(), ".claude", "settings.json");
 }
 
+/**
+ * Get the local (uncommitted) project Claude settings path.
+ */
+export function getLocalClaudeSettingsPath(): string {
+	return join(process.cwd(), ".claude", "settings.local.json");
+}
+
+/**
+ * Claude settings files hooks can be installed to:
+ * - global: ~/.claude/settings.json, all projects
+ * - project: .claude/settings.json, usually committed and shared with the team
+ * - local: .claude/settings.local.json, this checkout only
+ */
+export const HOOK_SCOPES = ["global", "project", "local"] as const;
+
+/**
+ * A Claude settings scope.
+ */
+export type HookScope = (typeof HOOK_SCOPES)[number];
+
+/**
+ * Get the settings path of a scope.
+ */
+export function getClaudeSettingsPath(scope: HookScope): string {
+	switch (scope) {
+		case "global":
+			return getGlobalClaudeSettingsPath();
+		case "local":
+			return getLocalClaudeSettingsPath();
+		default:
+			return getProjectClaudeSettingsPath();
+	}
+}
+
 /**
  * Check if a hook command is a byteside hook.
  */
 export function isBytesideHook(command: string): boolean {
-	return command.startsWith("byteside trigger");
+	return command.startsWith("byteside trigger") || command.startsWith("byteside hook ");
+}
+
+/**
+ * Build the `byteside hook` command for an event.
+ * @param agent Adapter name, for agents other than Claude Code
+ */
+export function hookCommand(event: string, target: HookTarget = {}, agent?: string): string {
+	return [`byteside hook ${event}`, agent && `--agent ${agent}`, formatHookTarget(target)]
+		.filter(Boolean)
+		.join(" ");
 }
 
 /**
  * Generate the byteside hook configuration.
+ * Each event gets a single `byteside hook <event>` entry; the state is decided
+ * from the payload by stateForHookInput(). PreToolUse only matches mapped tools,
+ * so other tool calls don't start a byteside process.
+ * @param target Server to embed in the commands, for setups with several instances
  */
-export function generateHookConfig(): ClaudeHooks {
-	return {
-		UserPromptSubmit: [
-			{
-				hooks: [{ type: "command", command: "byteside trigger thinking", async: true }],
-			},
-		],
-		PreToolUse: [
-			{
-				matcher: WRITING_TOOLS,
-				hooks: [{ type: "command", command: "byteside trigger writing", async: true }],
-			},
-			{
-				matcher: BASH_TOOLS,
-				hooks: [{ type: "command", command: "byteside trigger bash", async: true }],
-			},
-		],
-		PostToolUse: [
-			{
-				matcher: "*",
-				hooks: [{ type: "command", command: "byteside trigger thinking", async: true }],
-			},
-		],
-		Notification: [
-			{
-				hooks: [{ type: "command", command: "byteside trigger waiting", async: true }],
-			},
-		],
-		Stop: [
+export function generateHookConfig(
+	mapping: ToolMapping[] = getToolMapping(),
+	target: HookTarget = {},
+): ClaudeHooks {
+	const hooks: ClaudeHooks = {};
+	for (const event of HOOK_EVENTS) {
+		const matcher =
+			event === "PreToolUse" ? mapping.map(({ pattern }) => pattern).join("|") : undefined;
+		hooks[event] = [
 			{
-				hooks: [{ type: "command", command: "byteside trigger success", async: true }],
+				...(matcher && { matcher }),
+				hooks: [
+					{
+						type: "command",
+						command: hookCommand(event, target),
+						async: true,
+					},
+				],
 			},
-		],
-	};
+		];
+	}
+	return hooks;
+}
+
+/**
+ * Get the server target embedded in installed byteside hooks, so repairs keep it.
+ */
+export function getInstalledTarget(settings: ClaudeSettings | null): HookTarget {
+	for (const entries of Object.values(settings?.hooks ?? {})) {
+		if (!Array.isArray(entries)) continue;
+		for (const entry of entries) {
+			const hook = (entry.hooks ?? []).find((h) => isBytesideHook(h.command));
+			if (hook) {
+				return parseHookTarget(hook.command);
+			}
+		}
+	}
+	return {};
 }
 
 /**
  * Read Claude settings from a path.
+ * Comments and trailing commas are allowed.
  * Returns null if file doesn't exist.
  */
 export async function readClaudeSettings(path: string): Promise<ClaudeSettings | null> {
@@ -142,7 +412,19 @@ export async function readClaudeSettings(path: string): Promise<ClaudeSettings |
 	}
 
 	const content = await readFile(path, "utf-8");
-	return JSON.parse(content) as ClaudeSettings;
+	return parseJsonc(content) as ClaudeSettings;
+}
+
+/**
+ * Serialize settings for a settings file.
+ * Edits the original content in place, so formatting, comments and key order
+ * of the parts byteside doesn't change are kept. New files use tabs.
+ */
+export function formatClaudeSettings(original: string | null, settings: ClaudeSettings): string {
+	if (original === null || original.trim() === "") {
+		return JSON.stringify(settings, null, "\t");
+	}
+	return updateJsonc(original, settings);
 }
 
 /**
@@ -154,7 +436,19 @@ export async function writeClaudeSettings(path: string, settings: ClaudeSettings
 	if (!existsSync(dir)) {
 		await mkdir(dir, { recursive: true });
 	}
-	await writeFile(path, JSON.stringify(settings, null, "\t"));
+	const original = existsSync(path) ? await readFile(path, "utf-8") : null;
+	await writeFile(path, formatClaudeSettings(original, settings));
+}
+
+/**
+ * Line diff between a settings file and what writeClaudeSettings() would write.
+ */
+export async function previewClaudeSettings(
+	path: string,
+	settings: ClaudeSettings,
+): Promise<DiffLine[]> {
+	const original = existsSync(path) ? await readFile(path, "utf-8") : null;
+	return diffLines(original ?? "", formatClaudeSettings(original, settings));
 }
 
 /**
@@ -197,39 +491,15 @@ export function removeBytesideHooks(settings: ClaudeSettings): ClaudeSettings {
 	}
 
 	const newHooks: ClaudeHooks = {};
-
-	if (settings.hooks.UserPromptSubmit) {
-		const filtered = filterBytesideHooks([...settings.hooks.UserPromptSubmit]);
-		if (filtered.length > 0) {
-			newHooks.UserPromptSubmit = filtered;
+	for (const [event, entries] of Object.entries(settings.hooks)) {
+		if (!Array.isArray(entries)) {
+			// Not a hook list; leave it for Claude to report
+			newHooks[event] = entries;
+			continue;
 		}
-	}
-
-	if (settings.hooks.PreToolUse) {
-		const filtered = filterBytesideHooks([...settings.hooks.PreToolUse]);
-		if (filtered.length > 0) {
-			newHooks.PreToolUse = filtered;
-		}
-	}
-
-	if (settings.hooks.PostToolUse) {
-		const filtered = filterBytesideHooks([...settings.hooks.PostToolUse]);
-		if (filtered.length > 0) {
-			newHooks.PostToolUse = filtered;
-		}
-	}
-
-	if (settings.hooks.Notification) {
-		const filtered = filterBytesideHooks([...settings.hooks.Notification]);
-		if (filtered.length > 0) {
-			newHooks.Notification = filtered;
-		}
-	}
-
-	if (settings.hooks.Stop) {
-		const filtered = filterBytesideHooks([...settings.hooks.Stop]);
+		const filtered = filterBytesideHooks([...entries]);
 		if (filtered.length > 0) {
-			newHooks.Stop = filtered;
+			newHooks[event] = filtered;
 		}
 	}
 
@@ -257,32 +527,11 @@ export function mergeHooks(
 		...base.hooks,
 	};
 
-	// Add byteside UserPromptSubmit hooks
-	if (bytesideHooks.UserPromptSubmit) {
-		mergedHooks.UserPromptSubmit = [
-			...(mergedHooks.UserPromptSubmit ?? []),
-			...bytesideHooks.UserPromptSubmit,
-		];
-	}
-
-	// Add byteside PreToolUse hooks
-	if (bytesideHooks.PreToolUse) {
-		mergedHooks.PreToolUse = [...(mergedHooks.PreToolUse ?? []), ...bytesideHooks.PreToolUse];
-	}
-
-	// Add byteside PostToolUse hooks
-	if (bytesideHooks.PostToolUse) {
-		mergedHooks.PostToolUse = [...(mergedHooks.PostToolUse ?? []), ...bytesideHooks.PostToolUse];
-	}
-
-	// Add byteside Notification hooks
-	if (bytesideHooks.Notification) {
-		mergedHooks.Notification = [...(mergedHooks.Notification ?? []), ...bytesideHooks.Notification];
-	}
-
-	// Add byteside Stop hooks
-	if (bytesideHooks.Stop) {
-		mergedHooks.Stop = [...(mergedHooks.Stop ?? []), ...bytesideHooks.Stop];
+	// Append byteside entries after the user's own for each event
+	for (const [event, entries] of Object.entries(bytesideHooks)) {
+		if (entries) {
+			mergedHooks[event] = [...(mergedHooks[event] ?? []), ...entries];
+		}
 	}
 
 	return {
@@ -312,11 +561,9 @@ export function countBytesideHooks(settings: ClaudeSettings | null): number {
 		}
 	};
 
-	countInEntries(settings.hooks.UserPromptSubmit);
-	countInEntries(settings.hooks.PreToolUse);
-	countInEntries(settings.hooks.PostToolUse);
-	countInEntries(settings.hooks.Notification);
-	countInEntries(settings.hooks.Stop);
+	for (const entries of Object.values(settings.hooks)) {
+		countInEntries(entries);
+	}
 
 	return count;
 }
@@ -358,20 +605,28 @@ export async function installHooks(
 			};
 		}
 
+		// Generate and merge hooks
+		const bytesideHooks = options.hooks ?? generateHookConfig(options.mapping, options.target);
+		const merged = mergeHooks(existing, bytesideHooks);
+		const hookCount = countBytesideHooks(merged);
+
+		if (options.dryRun) {
+			return {
+				success: true,
+				message: `Would install ${hookCount} byteside hooks to ${path}`,
+				diff: await previewClaudeSettings(path, merged),
+			};
+		}
+
 		// Create backup if file exists
 		let backupPath: string | null = null;
 		if (existing && !options.noBackup) {
 			backupPath = await createBackup(path);
 		}
 
-		// Generate and merge hooks
-		const bytesideHooks = generateHookConfig();
-		const merged = mergeHooks(existing, bytesideHooks);
-
 		// Write settings
 		await writeClaudeSettings(path, merged);
 
-		const hookCount = countBytesideHooks(merged);
 		return {
 			success: true,
 			message: `Installed ${hookCount} byteside hooks to ${path}`,
@@ -391,7 +646,7 @@ export async function installHooks(
  */
 export async function uninstallHooks(
 	path: string,
-	options: { noBackup?: boolean } = {},
+	options: { noBackup?: boolean; dryRun?: boolean } = {},
 ): Promise<HookResult> {
 	try {
 		// Read existing settings
@@ -423,15 +678,23 @@ export async function uninstallHooks(
 			};
 		}
 
+		// Remove byteside hooks
+		const cleaned = removeBytesideHooks(existing);
+
+		if (options.dryRun) {
+			return {
+				success: true,
+				message: `Would remove byteside hooks from ${path}`,
+				diff: await previewClaudeSettings(path, cleaned),
+			};
+		}
+
 		// Create backup
 		let backupPath: string | null = null;
 		if (!options.noBackup) {
 			backupPath = await createBackup(path);
 		}
 
-		// Remove byteside hooks
-		const cleaned = removeBytesideHooks(existing);
-
 		// Write settings
 		await writeClaudeSettings(path, cleaned);
 
@@ -449,6 +712,154 @@ export async function uninstallHooks(
 	}
 }
 
+/**
+ * A hook command together with the matcher of its entry.
+ */
+interface MatchedHook {
+	matcher: string | undefined;
+	hook: HookCommand;
+}
+
+/**
+ * Collect hooks per event, keeping only those accepted by `filter`.
+ */
+function hooksByEvent(
+	hooks: ClaudeHooks | undefined,
+	filter: (command: string) => boolean,
+): Map<string, MatchedHook[]> {
+	const byEvent = new Map<string, MatchedHook[]>();
+	for (const [event, entries] of Object.entries(hooks ?? {})) {
+		if (!Array.isArray(entries)) continue;
+		const matched = entries.flatMap((entry) =>
+			(entry.hooks ?? [])
+				.filter((hook) => filter(hook.command))
+				.map((hook) => ({ matcher: entry.matcher || undefined, hook })),
+		);
+		if (matched.length > 0) {
+			byEvent.set(event, matched);
+		}
+	}
+	return byEvent;
+}
+
+function isSameHook(a: MatchedHook, b: MatchedHook): boolean {
+	return (
+		a.matcher === b.matcher &&
+		a.hook.command === b.hook.command &&
+		Boolean(a.hook.async) === Boolean(b.hook.async)
+	);
+}
+
+function describeHook({ matcher, hook }: MatchedHook): string {
+	return matcher ? `"${hook.command}" (matcher "${matcher}")` : `"${hook.command}"`;
+}
+
+/**
+ * Compare the byteside hooks in settings with the expected configuration.
+ * Settings without any byteside hooks have no issues (byteside isn't installed there).
+ * @param expected Expected hooks (defaults to generateHookConfig())
+ */
+export function diagnoseHooks(
+	settings: ClaudeSettings | null,
+	expected: ClaudeHooks = generateHookConfig(),
+): HookIssue[] {
+	const installed = hooksByEvent(settings?.hooks, isBytesideHook);
+	if (installed.size === 0) {
+		return [];
+	}
+	const wanted = hooksByEvent(expected, () => true);
+
+	const issues: HookIssue[] = [];
+	for (const event of new Set([...wanted.keys(), ...installed.keys()])) {
+		const found = installed.get(event) ?? [];
+		const want = wanted.get(event) ?? [];
+
+		if (want.length === 0) {
+			issues.push({
+				event,
+				kind: "unexpected",
+				message: `${found.map(describeHook).join(", ")} is registered, but byteside doesn't handle this event`,
+			});
+			continue;
+		}
+		if (found.length === 0) {
+			issues.push({
+				event,
+				kind: "missing",
+				message: `expected ${want.map(describeHook).join(", ")}`,
+			});
+			continue;
+		}
+		if (found.length > want.length) {
+			issues.push({
+				event,
+				kind: "duplicate",
+				message: `${found.length} byteside hooks registered, expected ${want.length}`,
+			});
+		}
+		const stale = found.filter((hook) => !want.some((w) => isSameHook(hook, w)));
+		if (stale.length > 0) {
+			issues.push({
+				event,
+				kind: "outdated",
+				message: `found ${stale.map(describeHook).join(", ")}, expected ${want.map(describeHook).join(", ")}`,
+			});
+		}
+	}
+	return issues;
+}
+
+/**
+ * Replace the byteside hooks in a settings file with the expected configuration.
+ * Other hooks are kept; a backup is created unless disabled.
+ */
+export async function repairHooks(
+	path: string,
+	options: Omit<InstallOptions, "force"> = {},
+): Promise<HookResult> {
+	const result = await installHooks(path, { ...options, force: true });
+	if (!result.success) {
+		return result;
+	}
+	return { ...result, message: `Repaired byteside hooks in ${path}` };
+}
+
+/**
+ * Byteside hooks for one event across all scopes.
+ */
+export interface EffectiveHookEvent {
+	event: string;
+	/** Scopes with a byteside hook for the event */
+	scopes: HookScope[];
+	/** Number of byteside hooks Claude Code runs for the event */
+	count: number;
+}
+
+/**
+ * Combine the byteside hooks of every scope the way Claude Code does: hooks
+ * from all settings files run, so an event installed in two scopes fires twice.
+ * Events byteside handles but no scope installs are listed with a count of 0.
+ * @param events Events byteside handles (defaults to the Claude Code events)
+ */
+export function getEffectiveHooks(
+	settingsByScope: Partial<Record<HookScope, ClaudeSettings | null>>,
+	events: readonly string[] = HOOK_EVENTS,
+): EffectiveHookEvent[] {
+	const effective = new Map<string, EffectiveHookEvent>(
+		events.map((event) => [event, { event, scopes: [], count: 0 }]),
+	);
+
+	for (const scope of HOOK_SCOPES) {
+		for (const [event, hooks] of hooksByEvent(settingsByScope[scope]?.hooks, isBytesideHook)) {
+			const entry = effective.get(event) ?? { event, scopes: [], count: 0 };
+			entry.scopes.push(scope);
+			entry.count += hooks.length;
+			effective.set(event, entry);
+		}
+	}
+	return [...effective.values()];
+}
+
 /**
  * Get the status of hooks installation.
  */
@@ -0,0 +1,213 @@
+import { existsSync, readFileSync, unlinkSync } from "node:fs";
+import { mkdir, readdir, readFile, unlink, writeFile } from "node:fs/promises";
+import { isAbsolute, join, relative, resolve, sep } from "node:path";
+import { getGlobalDir } from "./config";
+
+/**
+ * A running byteside server, as recorded in the instance registry.
+ */
+export interface InstanceInfo {
+	/** Instance name (defaults to the name of the directory it was started in) */
+	name: string;
+	port: number;
+	/** Process id of the byteside CLI that owns the server */
+	pid: number;
+	/** Directory byteside was started in */
+	cwd: string;
+	avatar: string;
+	startedAt: number;
+}
+
+/**
+ * Where hook commands send their states: an explicit URL, a port on localhost
+ * or the name of a registered instance. Empty means "discover".
+ */
+export interface HookTarget {
+	url?: string;
+	port?: number;
+	instance?: string;
+}
+
+/**
+ * Instance names usable on a command line without quoting.
+ */
+export const INSTANCE_NAME_REGEX = /^[A-Za-z0-9._-]+$/;
+
+/**
+ * Get the instance registry directory (~/.byteside/instances).
+ */
+export function getInstancesDir(): string {
+	return join(getGlobalDir(), "instances");
+}
+
+function instancePath(port: number, dir: string): string {
+	return join(dir, `${port}.json`);
+}
+
+/**
+ * Check whether a process is still running.
+ */
+export function isProcessAlive(pid: number): boolean {
+	try {
+		process.kill(pid, 0);
+		return true;
+	} catch (error) {
+		// EPERM: the process exists but belongs to another user
+		return (error as NodeJS.ErrnoException).code === "EPERM";
+	}
+}
+
+/**
+ * Record a running server. One entry per port; a newer server replaces the old entry.
+ * @returns Path of the registry entry.
+ */
+export async function registerInstance(
+	info: InstanceInfo,
+	dir: string = getInstancesDir(),
+): Promise<string> {
+	await mkdir(dir, { recursive: true });
+	const path = instancePath(info.port, dir);
+	await writeFile(path, JSON.stringify(info, null, "\t"));
+	return path;
+}
+
+/**
+ * Remove a server's registry entry. Synchronous so it can run in exit handlers.
+ * Entries written by another process (a newer server on the same port) are kept.
+ */
+export function unregisterInstance(
+	port: number,
+	pid: number = process.pid,
+	dir: string = getInstancesDir(),
+): void {
+	const path = instancePath(port, dir);
+	try {
+		if (existsSync(path)) {
+			const info = JSON.parse(readFileSync(path, "utf-8")) as Partial<InstanceInfo>;
+			if (info.pid === pid) {
+				unlinkSync(path);
+			}
+		}
+	} catch {
+		// Unreadable entries are pruned by listInstances()
+	}
+}
+
+function isInstanceInfo(value: unknown): value is InstanceInfo {
+	if (typeof value !== "object" || value === null) {
+		return false;
+	}
+	const info = value as Record<string, unknown>;
+	return (
+		typeof info["name"] === "string" &&
+		typeof info["port"] === "number" &&
+		typeof info["pid"] === "number" &&
+		typeof info["cwd"] === "string"
+	);
+}
+
+/**
+ * List running servers, oldest first.
+ * Entries whose process has exited (or that can't be read) are removed.
+ */
+export async function listInstances(dir: string = getInstancesDir()): Promise<InstanceInfo[]> {
+	if (!existsSync(dir)) {
+		return [];
+	}
+
+	const instances: InstanceInfo[] = [];
+	for (const name of await readdir(dir)) {
+		if (!name.endsWith(".json")) continue;
+		const path = join(dir, name);
+		try {
+			const info: unknown = JSON.parse(await readFile(path, "utf-8"));
+			if (isInstanceInfo(info) && isProcessAlive(info.pid)) {
+				instances.push(info);
+				continue;
+			}
+		} catch {
+			// Fall through and prune the entry
+		}
+		await unlink(path).catch(() => {});
+	}
+	return instances.sort((a, b) => a.startedAt - b.startedAt);
+}
+
+/**
+ * Find the instance started in `path` or the closest of its parent directories.
+ */
+export function findInstanceForPath(instances: InstanceInfo[], path: string): InstanceInfo | null {
+	const target = resolve(path);
+	let best: InstanceInfo | null = null;
+	for (const instance of instances) {
+		const rel = relative(resolve(instance.cwd), target);
+		const contains = rel.split(sep)[0] !== ".." && !isAbsolute(rel);
+		if (contains && (!best || instance.cwd.length > best.cwd.length)) {
+			best = instance;
+		}
+	}
+	return best;
+}
+
+/**
+ * Format a target as command-line flags for `byteside hook`/`byteside trigger`.
+ * Only the most specific target is used: url, then port, then instance.
+ */
+export function formatHookTarget(target: HookTarget): string {
+	if (target.url) return `--url ${target.url}`;
+	if (target.port !== undefined) return `--port ${target.port}`;
+	if (target.instance) return `--instance ${target.instance}`;
+	return "";
+}
+
+/**
+ * Read the target flags back from a generated hook command.
+ */
+export function parseHookTarget(command: string): HookTarget {
+	const flag = (name: string) => new RegExp(`(?:^|\\s)--${name}[ =](\\S+)`).exec(command)?.[1];
+	const url = flag("url");
+	const port = flag("port");
+	const instance = flag("instance");
+	return {
+		...(url && { url }),
+		...(port && { port: Number(port) }),
+		...(instance && { instance }),
+	};
+}
+
+/**
+ * Pick the server a command should talk to.
+ * An explicit url or port wins, and an instance name is looked up in the registry.
+ * Otherwise the instance started in `cwd` (or a parent directory) is used, then
+ * the only running instance, then `defaultPort`.
+ * @param defaultPort Configured port, or a function loading it; only called when no instance matches.
+ * @returns Base URL of the server, or null if the named instance isn't running.
+ */
+export async function resolveServerUrl(
+	target: HookTarget,
+	cwd: string,
+	defaultPort: number | (() => Promise<number>),
+	dir: string = getInstancesDir(),
+): Promise<string | null> {
+	if (target.url) {
+		return target.url.replace(/\/+$/, "");
+	}
+	if (target.port !== undefined) {
+		return `http://localhost:${target.port}`;
+	}
+
+	const instances = await listInstances(dir);
+	if (target.instance) {
+		const named = instances.find((instance) => instance.name === target.instance);
+		return named ? `http://localhost:${named.port}` : null;
+	}
+
+	// With several instances and none for `cwd`, the one on the default port is used
+	const instance =
+		findInstanceForPath(instances, cwd) ?? (instances.length === 1 ? instances[0] : undefined);
+	if (instance) {
+		return `http://localhost:${instance.port}`;
+	}
+	const port = typeof defaultPort === "number" ? defaultPort : await defaultPort();
+	return `http://localhost:${port}`;
+}
@@ -0,0 +1,291 @@
+import {
+	applyEdits,
+	type Edit,
+	type FormattingOptions,
+	findNodeAtLocation,
+	format,
+	type JSONPath,
+	modify,
+	type Node,
+	type ParseError,
+	parseTree,
+	printParseErrorCode,
+} from "jsonc-parser";
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Build the value of a syntax tree node. Keys are defined rather than assigned,
+ * so `__proto__` stays an ordinary key.
+ */
+function nodeValue(node: Node): unknown {
+	switch (node.type) {
+		case "object": {
+			const value: Record<string, unknown> = {};
+			for (const property of node.children ?? []) {
+				const [key, child] = property.children ?? [];
+				if (key && child) {
+					Object.defineProperty(value, String(key.value), {
+						value: nodeValue(child),
+						enumerable: true,
+						writable: true,
+						configurable: true,
+					});
+				}
+			}
+			return value;
+		}
+		case "array":
+			return (node.children ?? []).map(nodeValue);
+		default:
+			return node.value;
+	}
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas.
+ * @throws SyntaxError if the text isn't valid JSONC
+ */
+export function parseJsonc(text: string): unknown {
+	const errors: ParseError[] = [];
+	// A byte order mark is blanked out rather than removed, so offsets stay the same
+	const tree = parseTree(text.replace(/^\uFEFF/, " "), errors, { allowTrailingComma: true });
+	const [error] = errors;
+	if (error || !tree) {
+		const code = error ? printParseErrorCode(error.error) : "ValueExpected";
+		throw new SyntaxError(`${code} at position ${error?.offset ?? text.length}`);
+	}
+	return nodeValue(tree);
+}
+
+/**
+ * Compare two JSON values, ignoring the order of object keys.
+ */
+export function isDeepEqual(a: unknown, b: unknown): boolean {
+	if (a === b) return true;
+	if (Array.isArray(a) && Array.isArray(b)) {
+		return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+	}
+	if (isObject(a) && isObject(b)) {
+		const keys = Object.keys(a);
+		return (
+			keys.length === Object.keys(b).length &&
+			keys.every((key) => Object.hasOwn(b, key) && isDeepEqual(a[key], b[key]))
+		);
+	}
+	return false;
+}
+
+/**
+ * Indentation and line endings of a document, reused for inserted values.
+ */
+function detectFormat(text: string): FormattingOptions {
+	const eol = text.includes("\r\n") ? "\r\n" : "\n";
+	const indent = /^([ \t]+)\S/m.exec(text)?.[1];
+	if (indent && !indent.includes("\t")) {
+		return { insertSpaces: true, tabSize: indent.length, eol };
+	}
+	return { insertSpaces: false, tabSize: 4, eol };
+}
+
+/**
+ * Where the text after a value ends its line: past an optional comma, spaces
+ * and comments on the same line.
+ * @returns The offset of the line break (or of whatever else follows), the
+ * offset of the comma if there is one, and whether a line break was reached.
+ */
+function lineTail(
+	text: string,
+	offset: number,
+): { end: number; comma: number | null; lineBreak: boolean } {
+	let comma: number | null = null;
+	let i = offset;
+	while (i < text.length) {
+		const char = text[i];
+		if (char === " " || char === "\t") {
+			i++;
+		} else if (char === "," && comma === null) {
+			comma = i;
+			i++;
+		} else if (text.startsWith("//", i)) {
+			const newline = text.indexOf("\n", i);
+			if (newline === -1) return { end: text.length, comma, lineBreak: false };
+			i = text[newline - 1] === "\r" ? newline - 1 : newline;
+		} else if (text.startsWith("/*", i)) {
+			const close = text.indexOf("*/", i + 2);
+			if (close === -1 || text.slice(i, close).includes("\n")) break;
+			i = close + 2;
+		} else {
+			return { end: i, comma, lineBreak: char === "\r" || char === "\n" };
+		}
+	}
+	return { end: i, comma, lineBreak: false };
+}
+
+/**
+ * Where the line holding a value starts, if only indentation comes before it.
+ * @returns The offset of the preceding line break, or null if something else
+ * (a comma, a comment, another value) comes first.
+ */
+function lineStart(text: string, offset: number): number | null {
+	let i = offset;
+	while (i > 0 && (text[i - 1] === " " || text[i - 1] === "\t")) {
+		i--;
+	}
+	if (text[i - 1] !== "\n") {
+		return null;
+	}
+	return text[i - 2] === "\r" ? i - 2 : i - 1;
+}
+
+/**
+ * Rewrite a JSONC document so that it holds `target`, changing as little text
+ * as possible. Comments, key order, indentation and line endings of unchanged
+ * parts are kept; new keys are added after the existing ones.
+ * @throws SyntaxError if the text isn't valid JSONC
+ */
+export function updateJsonc(text: string, target: unknown): string {
+	const bom = text.startsWith("\uFEFF") ? "\uFEFF" : "";
+	const formattingOptions = detectFormat(text);
+	let current = text.slice(bom.length);
+
+	// jsonc-parser formats whole lines around an edit, so only the new text is formatted here
+	const set = (path: JSONPath, value: unknown, isArrayInsertion = false): void => {
+		for (const edit of modify(current, path, value, { isArrayInsertion })) {
+			current = applyEdits(current, [edit]);
+			const range = { offset: edit.offset, length: edit.content.length };
+			current = applyEdits(current, format(current, range, formattingOptions));
+		}
+	};
+
+	/**
+	 * Edits inserting or removing an array item, worked out from the syntax tree
+	 * so that removing an inserted item gives back the original text. Items on
+	 * lines of their own are inserted and removed as whole lines, with their
+	 * comments; items sharing a line go with the separator before them.
+	 * @returns The edits, or null for an insertion at the start, left to jsonc-parser.
+	 */
+	const itemEdits = (path: JSONPath, index: number, value: unknown): Edit[] | null => {
+		const tree = parseTree(current, [], { allowTrailingComma: true });
+		const items = (tree && findNodeAtLocation(tree, path)?.children) ?? [];
+		const previous = items[index - 1];
+		const previousEnd = previous ? previous.offset + previous.length : 0;
+		const item = items[index];
+
+		if (value === undefined) {
+			if (!item) {
+				return null;
+			}
+			const itemEnd = item.offset + item.length;
+			const start = lineStart(current, item.offset);
+			const tail = lineTail(current, itemEnd);
+			if (start !== null && tail.lineBreak) {
+				const edits: Edit[] = [{ offset: start, length: tail.end - start, content: "" }];
+				// The last item takes the comma before it along, unless the array has a trailing comma
+				const separator = previous && lineTail(current, previousEnd).comma;
+				if (tail.comma === null && typeof separator === "number") {
+					edits.unshift({ offset: separator, length: 1, content: "" });
+				}
+				return edits;
+			}
+			if (previous) {
+				return [{ offset: previousEnd, length: itemEnd - previousEnd, content: "" }];
+			}
+			const next = items[index + 1];
+			const end = next ? next.offset : tail.comma === null ? itemEnd : tail.comma + 1;
+			return [{ offset: item.offset, length: end - item.offset, content: "" }];
+		}
+
+		if (!previous) {
+			return null;
+		}
+		const start = lineStart(current, previous.offset);
+		const tail = lineTail(current, previousEnd);
+		if (start === null || !tail.lineBreak) {
+			return [{ offset: previousEnd, length: 0, content: `, ${JSON.stringify(value)}` }];
+		}
+		const eol = current[start] === "\r" ? "\r\n" : "\n";
+		const indent = current.slice(start + eol.length, previous.offset);
+		const { insertSpaces, tabSize } = formattingOptions;
+		const lines = JSON.stringify(value, null, insertSpaces ? " ".repeat(tabSize ?? 4) : "\t");
+		// The new item has a comma when the one before it has, so a trailing comma stays trailing
+		const comma = tail.comma === null ? "" : ",";
+		const content = `${eol}${indent}${lines.split("\n").join(eol + indent)}${comma}`;
+		const edits: Edit[] = [{ offset: tail.end, length: 0, content }];
+		if (tail.comma === null) {
+			edits.unshift({ offset: previousEnd, length: 0, content: "," });
+		}
+		return edits;
+	};
+
+	const setItem = (path: JSONPath, index: number, value: unknown): void => {
+		const edits = itemEdits(path, index, value);
+		if (edits) {
+			current = applyEdits(current, edits);
+		} else {
+			set([...path, index], value, true);
+		}
+	};
+
+	// Descend as far as possible so that unchanged siblings keep their text
+	const update = (path: JSONPath, from: unknown, to: unknown): void => {
+		if (isDeepEqual(from, to)) {
+			return;
+		}
+		// Containers that are or become empty are replaced as a whole, so the new
+		// items get their own lines and removing them all gives back the empty one
+		const isEmpty = [from, to].some((value) =>
+			isObject(value)
+				? Object.keys(value).length === 0
+				: Array.isArray(value) && value.length === 0,
+		);
+		if (isObject(from) && isObject(to) && !isEmpty) {
+			for (const key of Object.keys(from)) {
+				if (!Object.hasOwn(to, key)) {
+					set([...path, key], undefined);
+				}
+			}
+			for (const [key, value] of Object.entries(to)) {
+				if (Object.hasOwn(from, key)) {
+					update([...path, key], from[key], value);
+				} else {
+					set([...path, key], value);
+				}
+			}
+			return;
+		}
+		if (Array.isArray(from) && Array.isArray(to) && !isEmpty) {
+			// Items matching at either end stay; the ones in between are updated, removed or inserted
+			let start = 0;
+			while (start < from.length && start < to.length && isDeepEqual(from[start], to[start])) {
+				start++;
+			}
+			let end = 0;
+			while (
+				end < from.length - start &&
+				end < to.length - start &&
+				isDeepEqual(from[from.length - 1 - end], to[to.length - 1 - end])
+			) {
+				end++;
+			}
+			const fromCount = from.length - start - end;
+			const toCount = to.length - start - end;
+			for (let i = 0; i < Math.min(fromCount, toCount); i++) {
+				update([...path, start + i], from[start + i], to[start + i]);
+			}
+			for (let i = toCount; i < fromCount; i++) {
+				setItem(path, start + toCount, undefined);
+			}
+			for (let i = fromCount; i < toCount; i++) {
+				setItem(path, start + i, to[start + i]);
+			}
+			return;
+		}
+		set(path, to);
+	};
+
+	update([], parseJsonc(text), target);
+	return bom + current;
+}
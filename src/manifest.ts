@@ -7,9 +7,10 @@ import { REQUIRED_STATES } from "./types";
  * State configuration for a single avatar state.
  */
 export interface AvatarStateConfig {
-	file: string;
+	file?: string; // Required unless the state declares a fallback
 	duration?: number;
 	transition_to?: string;
+	fallback?: string; // State to use when this one has no file or terminal frames
 }
 
 /**
@@ -68,6 +69,11 @@ export interface ManifestValidationResult {
 	manifest?: AvatarManifest;
 }
 
+/**
+ * Names a state may have, core and custom alike; `byteside trigger` accepts the same.
+ */
+export const STATE_NAME_REGEX = /^[a-z][a-z0-9_-]*$/;
+
 const KEBAB_CASE_REGEX = /^[a-z][a-z0-9]*(-[a-z0-9]+)*$/;
 const SEMVER_REGEX = /^\d+\.\d+\.\d+(-[a-zA-Z0-9.-]+)?(\+[a-zA-Z0-9.-]+)?$/;
 
@@ -75,22 +81,55 @@ function isObject(value: unknown): value is Record<string, unknown> {
 	return typeof value === "object" && value !== null && !Array.isArray(value);
 }
 
+function isCoreState(state: string): boolean {
+	return (REQUIRED_STATES as readonly string[]).includes(state);
+}
+
 function validateStateConfig(
 	stateName: string,
 	config: unknown,
 	definedStates: Set<string>,
 	errors: string[],
+	warnings: string[],
 ): boolean {
+	if (!STATE_NAME_REGEX.test(stateName)) {
+		errors.push(
+			`State "${stateName}" must start with a lowercase letter and contain only lowercase letters, digits, "-" and "_"`,
+		);
+		return false;
+	}
+
 	if (!isObject(config)) {
 		errors.push(`State "${stateName}" must be an object`);
 		return false;
 	}
 
-	if (typeof config["file"] !== "string" || config["file"].length === 0) {
-		errors.push(`State "${stateName}" must have a "file" property (string)`);
+	const hasFallback = config["fallback"] !== undefined;
+	if (
+		(config["file"] !== undefined || !hasFallback) &&
+		(typeof config["file"] !== "string" || config["file"].length === 0)
+	) {
+		errors.push(`State "${stateName}" must have a "file" property (string) or a "fallback"`);
 		return false;
 	}
 
+	if (hasFallback) {
+		if (typeof config["fallback"] !== "string") {
+			errors.push(`State "${stateName}.fallback" must be a string`);
+			return false;
+		}
+		if (!definedStates.has(config["fallback"]) && !isCoreState(config["fallback"])) {
+			errors.push(
+				`State "${stateName}.fallback" references undefined state "${config["fallback"]}"`,
+			);
+			return false;
+		}
+	} else if (!isCoreState(stateName)) {
+		warnings.push(
+			`Custom state "${stateName}" has no "fallback"; players without it will show idle`,
+		);
+	}
+
 	if (config["duration"] !== undefined && typeof config["duration"] !== "number") {
 		errors.push(`State "${stateName}.duration" must be a number`);
 		return false;
@@ -112,6 +151,26 @@ function validateStateConfig(
 	return true;
 }
 
+/**
+ * Check that no state's fallback chain loops back on itself.
+ */
+function validateFallbackChains(states: Record<string, unknown>, errors: string[]): void {
+	for (const stateName of Object.keys(states)) {
+		const seen = new Set<string>();
+		let current: string | undefined = stateName;
+		while (current !== undefined) {
+			if (seen.has(current)) {
+				errors.push(`Fallback chain of state "${stateName}" loops back to "${current}"`);
+				break;
+			}
+			seen.add(current);
+			const config: unknown = states[current];
+			current =
+				isObject(config) && typeof config["fallback"] === "string" ? config["fallback"] : undefined;
+		}
+	}
+}
+
 /**
  * Validate a parsed manifest object.
  */
@@ -170,8 +229,20 @@ export function validateManifest(manifest: unknown): ManifestValidationResult {
 			const definedStates = new Set(stateKeys);
 
 			// Validate each state config
+			let statesValid = true;
 			for (const stateName of stateKeys) {
-				validateStateConfig(stateName, manifest["states"][stateName], definedStates, errors);
+				statesValid =
+					validateStateConfig(
+						stateName,
+						manifest["states"][stateName],
+						definedStates,
+						errors,
+						warnings,
+					) && statesValid;
+			}
+
+			if (statesValid) {
+				validateFallbackChains(manifest["states"], errors);
 			}
 
 			// Warn about missing required states
@@ -301,17 +372,32 @@ export function parseManifest(json: unknown): ManifestValidationResult {
 }
 
 /**
- * Get state configuration with fallback to idle.
+ * Get the states to try for a state, in order.
+ * Starts with the state itself, follows each declared fallback and ends with idle.
  */
-export function getStateConfig(manifest: AvatarManifest, state: string): AvatarStateConfig | null {
-	// Try exact state match
-	if (manifest.states[state]) {
-		return manifest.states[state];
+export function getFallbackChain(manifest: AvatarManifest, state: string): string[] {
+	const chain: string[] = [];
+	let current: string | undefined = state;
+	while (current !== undefined && !chain.includes(current)) {
+		chain.push(current);
+		current = manifest.states[current]?.fallback;
 	}
 
-	// Fall back to idle
-	if (manifest.states["idle"]) {
-		return manifest.states["idle"];
+	if (!chain.includes("idle")) {
+		chain.push("idle");
+	}
+	return chain;
+}
+
+/**
+ * Get state configuration, walking the fallback chain to the first state with a file.
+ */
+export function getStateConfig(manifest: AvatarManifest, state: string): AvatarStateConfig | null {
+	for (const name of getFallbackChain(manifest, state)) {
+		const stateConfig = manifest.states[name];
+		if (stateConfig?.file) {
+			return stateConfig;
+		}
 	}
 
 	// No fallback available
@@ -339,6 +425,9 @@ export function validateAvatarFiles(
 	const missingFiles: string[] = [];
 
 	for (const [stateName, stateConfig] of Object.entries(manifest.states)) {
+		if (stateConfig.file === undefined) {
+			continue;
+		}
 		const filePath = join(avatarDir, stateConfig.file);
 		if (!existsSync(filePath)) {
 			missingFiles.push(`State "${stateName}": missing file "${stateConfig.file}"`);
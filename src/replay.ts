@@ -0,0 +1,191 @@
+import { readFile } from "node:fs/promises";
+import { parseEventLine } from "./event-log";
+import type { StateHistoryEntry } from "./types";
+
+/**
+ * Read a recorded timeline (JSONL of timestamped states, e.g. a byteside event log).
+ * Only triggers are kept: timed transitions and timeouts are recreated by the
+ * server as the triggers are replayed. Entries without a source count as triggers,
+ * and so do spooled triggers.
+ */
+export async function loadTimeline(path: string): Promise<StateHistoryEntry[]> {
+	const content = await readFile(path, "utf-8");
+	return content
+		.split("\n")
+		.map(parseEventLine)
+		.filter((entry): entry is StateHistoryEntry => entry !== null)
+		.filter(
+			(entry) =>
+				entry.source === undefined || entry.source === "trigger" || entry.source === "spool",
+		)
+		.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Parse a --speed value such as "4x", "4" or "0.5x".
+ * @returns The speed factor, or null if the value isn't a positive number.
+ */
+export function parseSpeed(value: string): number | null {
+	const match = /^(\d+(?:\.\d+)?)x?$/i.exec(value.trim());
+	const speed = match?.[1] ? Number(match[1]) : Number.NaN;
+	return speed > 0 ? speed : null;
+}
+
+/**
+ * Options for a replay.
+ */
+export interface ReplayOptions {
+	/** Playback speed factor (2 plays twice as fast) */
+	speed?: number;
+	/** Send one entry, e.g. POST it to the server */
+	send: (entry: StateHistoryEntry, index: number) => void | Promise<void>;
+}
+
+/**
+ * Plays a recorded timeline back with the original spacing between entries,
+ * scaled by the speed factor. Can be paused, stepped and stopped.
+ */
+export class ReplayPlayer {
+	private entries: StateHistoryEntry[];
+	private options: ReplayOptions;
+	private speed: number;
+	private index = 0;
+	private timer: ReturnType<typeof setTimeout> | null = null;
+	private dueAt = 0;
+	private remainingMs = 0;
+	private paused = false;
+	private finished = false;
+	private resolveDone: () => void = () => {};
+
+	/**
+	 * Resolves once every entry has been sent or the replay is stopped.
+	 */
+	readonly done: Promise<void>;
+
+	constructor(entries: StateHistoryEntry[], options: ReplayOptions) {
+		this.entries = entries;
+		this.options = options;
+		this.speed = options.speed ?? 1;
+		this.done = new Promise((resolve) => {
+			this.resolveDone = resolve;
+		});
+	}
+
+	/**
+	 * Number of entries sent so far and the total.
+	 */
+	get position(): { sent: number; total: number } {
+		return { sent: this.index, total: this.entries.length };
+	}
+
+	get isPaused(): boolean {
+		return this.paused;
+	}
+
+	/**
+	 * Start playing: the first entry is sent immediately.
+	 */
+	start(): void {
+		this.dueAt = Date.now();
+		this.schedule(0);
+	}
+
+	/**
+	 * Pause playback, remembering how long until the next entry is due.
+	 */
+	pause(): void {
+		if (this.paused || this.finished) return;
+		this.paused = true;
+		this.remainingMs = Math.max(0, this.dueAt - Date.now());
+		this.clearTimer();
+	}
+
+	/**
+	 * Resume playback after pause().
+	 */
+	resume(): void {
+		if (!this.paused || this.finished) return;
+		this.paused = false;
+		this.dueAt = Date.now() + this.remainingMs;
+		this.schedule(this.remainingMs);
+	}
+
+	/**
+	 * While paused, send the next entry right away.
+	 */
+	async step(): Promise<void> {
+		if (!this.paused || this.finished) return;
+		await this.sendNext();
+		// The gap to the following entry starts now
+		this.remainingMs = this.gapAfter(this.index - 1);
+		this.dueAt = Date.now() + this.remainingMs;
+	}
+
+	/**
+	 * Stop playback without sending the remaining entries.
+	 */
+	stop(): void {
+		this.clearTimer();
+		this.finish();
+	}
+
+	/**
+	 * Scaled delay between an entry and the one after it.
+	 */
+	private gapAfter(index: number): number {
+		const current = this.entries[index];
+		const next = this.entries[index + 1];
+		if (!current || !next) return 0;
+		return Math.max(0, next.timestamp - current.timestamp) / this.speed;
+	}
+
+	private schedule(delayMs: number): void {
+		this.clearTimer();
+		this.timer = setTimeout(() => {
+			this.timer = null;
+			void this.tick();
+		}, delayMs);
+	}
+
+	private async tick(): Promise<void> {
+		const sent = this.index;
+		await this.sendNext();
+		if (this.finished) return;
+
+		// Keep the original spacing even when sending takes a while
+		this.dueAt += this.gapAfter(sent);
+		if (this.paused) {
+			// Paused while the entry was being sent
+			this.remainingMs = Math.max(0, this.dueAt - Date.now());
+			return;
+		}
+		this.schedule(Math.max(0, this.dueAt - Date.now()));
+	}
+
+	private async sendNext(): Promise<void> {
+		const entry = this.entries[this.index];
+		if (!entry) {
+			this.finish();
+			return;
+		}
+
+		this.index++;
+		await this.options.send(entry, this.index - 1);
+		if (this.index >= this.entries.length) {
+			this.finish();
+		}
+	}
+
+	private clearTimer(): void {
+		if (this.timer) {
+			clearTimeout(this.timer);
+			this.timer = null;
+		}
+	}
+
+	private finish(): void {
+		if (this.finished) return;
+		this.finished = true;
+		this.resolveDone();
+	}
+}
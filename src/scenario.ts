@@ -0,0 +1,209 @@
+import { existsSync } from "node:fs";
+import { readFile } from "node:fs/promises";
+import { isValidStateContext } from "./context";
+import type { StateContext, StateHistoryEntry } from "./types";
+
+/**
+ * A single scripted step: show `state` for `holdMs` before the next step.
+ */
+export interface ScenarioStep {
+	state: string;
+	holdMs?: number;
+	context?: StateContext;
+	sessionId?: string;
+}
+
+/**
+ * A scripted sequence of states for checking an avatar's animations.
+ */
+export interface Scenario {
+	name: string;
+	description?: string;
+	steps: ScenarioStep[];
+}
+
+/**
+ * Result of scenario validation.
+ */
+export interface ScenarioValidationResult {
+	valid: boolean;
+	errors: string[];
+	scenario?: Scenario;
+}
+
+/**
+ * Hold time for steps that don't set holdMs.
+ */
+export const DEFAULT_HOLD_MS = 1500;
+
+/**
+ * Built-in scenarios, usable by name instead of a file path.
+ */
+export const PRESET_SCENARIOS: Record<string, Scenario> = {
+	"typical-edit-loop": {
+		name: "typical-edit-loop",
+		description: "Prompt, a few edits, a passing test run and completion",
+		steps: [
+			{ state: "thinking", holdMs: 2000 },
+			{ state: "writing", holdMs: 1200, context: { tool: "Edit", file: "src/app.ts" } },
+			{ state: "thinking", holdMs: 800 },
+			{ state: "writing", holdMs: 1200, context: { tool: "Write", file: "src/app.test.ts" } },
+			{ state: "thinking", holdMs: 600 },
+			{ state: "bash", holdMs: 3000, context: { tool: "Bash", command: "npm test" } },
+			{ state: "thinking", holdMs: 1000 },
+			{ state: "success", holdMs: 3000 },
+		],
+	},
+	"failing-tests": {
+		name: "failing-tests",
+		description: "A test run fails, the agent fixes the code and the tests pass",
+		steps: [
+			{ state: "thinking", holdMs: 1500 },
+			{ state: "bash", holdMs: 2500, context: { tool: "Bash", command: "npm test" } },
+			{ state: "error", holdMs: 2000, context: { tool: "Bash", command: "npm test" } },
+			{ state: "thinking", holdMs: 1500 },
+			{ state: "writing", holdMs: 1200, context: { tool: "Edit", file: "src/app.ts" } },
+			{ state: "thinking", holdMs: 600 },
+			{ state: "bash", holdMs: 2500, context: { tool: "Bash", command: "npm test" } },
+			{ state: "thinking", holdMs: 800 },
+			{ state: "success", holdMs: 3000 },
+		],
+	},
+	"long-wait": {
+		name: "long-wait",
+		description: "The agent waits a minute for permission before continuing",
+		steps: [
+			{ state: "thinking", holdMs: 1500 },
+			{
+				state: "waiting",
+				holdMs: 60_000,
+				context: { message: "Claude needs your permission to use Bash" },
+			},
+			{ state: "bash", holdMs: 2000, context: { tool: "Bash", command: "rm -rf dist" } },
+			{ state: "thinking", holdMs: 1000 },
+			{ state: "success", holdMs: 3000 },
+		],
+	},
+};
+
+function isObject(value: unknown): value is Record<string, unknown> {
+	return typeof value === "object" && value !== null && !Array.isArray(value);
+}
+
+function validateStep(step: unknown, index: number, errors: string[]): void {
+	const label = `Step ${index + 1}`;
+	if (!isObject(step)) {
+		errors.push(`${label} must be an object`);
+		return;
+	}
+
+	if (typeof step["state"] !== "string" || step["state"].length === 0) {
+		errors.push(`${label} must have a "state" property (string)`);
+	}
+
+	const holdMs = step["holdMs"];
+	if (holdMs !== undefined && (typeof holdMs !== "number" || !(holdMs >= 0))) {
+		errors.push(`${label}.holdMs must be a non-negative number`);
+	}
+
+	if (step["context"] !== undefined && !isValidStateContext(step["context"])) {
+		errors.push(`${label}.context must only contain tool, file, command or message strings`);
+	}
+
+	if (step["sessionId"] !== undefined && typeof step["sessionId"] !== "string") {
+		errors.push(`${label}.sessionId must be a string`);
+	}
+}
+
+/**
+ * Validate a scenario: either `{ name?, description?, steps: [...] }` or a bare array of steps.
+ * @param fallbackName Name to use when the scenario doesn't declare one (e.g. the file name)
+ */
+export function validateScenario(
+	value: unknown,
+	fallbackName = "scenario",
+): ScenarioValidationResult {
+	const errors: string[] = [];
+	const raw = Array.isArray(value) ? { steps: value } : value;
+
+	if (!isObject(raw)) {
+		return { valid: false, errors: ["Scenario must be an object or an array of steps"] };
+	}
+
+	const steps = raw["steps"];
+	if (!Array.isArray(steps) || steps.length === 0) {
+		errors.push('Scenario must have a non-empty "steps" array');
+	} else {
+		steps.forEach((step, index) => {
+			validateStep(step, index, errors);
+		});
+	}
+
+	if (raw["name"] !== undefined && typeof raw["name"] !== "string") {
+		errors.push('"name" must be a string');
+	}
+
+	if (errors.length > 0) {
+		return { valid: false, errors };
+	}
+
+	return {
+		valid: true,
+		errors,
+		scenario: {
+			...(raw as Partial<Scenario>),
+			name: typeof raw["name"] === "string" ? raw["name"] : fallbackName,
+			steps: steps as ScenarioStep[],
+		},
+	};
+}
+
+/**
+ * Load a preset by name, or a scenario JSON file by path.
+ */
+export async function loadScenario(nameOrPath: string): Promise<ScenarioValidationResult> {
+	// Names like "toString" must not find what the object inherits
+	const preset = Object.hasOwn(PRESET_SCENARIOS, nameOrPath) && PRESET_SCENARIOS[nameOrPath];
+	if (preset) {
+		return { valid: true, errors: [], scenario: preset };
+	}
+
+	if (!existsSync(nameOrPath)) {
+		return {
+			valid: false,
+			errors: [
+				`Unknown scenario "${nameOrPath}". Presets: ${Object.keys(PRESET_SCENARIOS).join(", ")}`,
+			],
+		};
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(await readFile(nameOrPath, "utf-8"));
+	} catch (err) {
+		return { valid: false, errors: [`Invalid JSON: ${(err as Error).message}`] };
+	}
+	return validateScenario(parsed, nameOrPath);
+}
+
+/**
+ * Turn scenario steps into a timeline that a ReplayPlayer can play.
+ */
+export function scenarioTimeline(scenario: Scenario, start = 0): StateHistoryEntry[] {
+	let timestamp = start;
+	let previous = "idle";
+
+	return scenario.steps.map((step) => {
+		const entry: StateHistoryEntry = {
+			state: step.state,
+			previous,
+			timestamp,
+			source: "trigger",
+			...(step.sessionId && { sessionId: step.sessionId }),
+			...(step.context && { context: step.context }),
+		};
+		timestamp += step.holdMs ?? DEFAULT_HOLD_MS;
+		previous = step.state;
+		return entry;
+	});
+}
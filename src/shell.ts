@@ -0,0 +1,217 @@
+import { formatHookTarget, type HookTarget } from "./instances";
+
+/**
+ * Shells `byteside shell-init` can generate integration for.
+ */
+export const SHELLS = ["bash", "zsh", "fish"] as const;
+
+/**
+ * A supported shell.
+ */
+export type Shell = (typeof SHELLS)[number];
+
+/**
+ * Commands shorter than this (seconds) don't change the avatar.
+ */
+export const DEFAULT_MIN_DURATION = 3;
+
+/**
+ * Interactive programs that run until you quit them; showing `bash` and then
+ * `success` for them would be noise.
+ */
+export const DEFAULT_IGNORED_COMMANDS = [
+	"vim",
+	"vi",
+	"nvim",
+	"nano",
+	"emacs",
+	"less",
+	"more",
+	"man",
+	"ssh",
+	"tmux",
+	"screen",
+	"top",
+	"htop",
+	"fg",
+	"byteside",
+] as const;
+
+/**
+ * Command names usable in the generated snippets without quoting.
+ */
+export const COMMAND_NAME_REGEX = /^[A-Za-z0-9._+-]+$/;
+
+/**
+ * Options for the generated shell integration.
+ */
+export interface ShellInitOptions {
+	/** Minimum run time (whole seconds) before a command changes the avatar */
+	minDuration?: number;
+	/** Commands (first word of the command line) that never change the avatar */
+	ignore?: readonly string[];
+	/** Server to send states to (defaults to discovering it, like hooks) */
+	target?: HookTarget;
+}
+
+/**
+ * Check whether a name is a supported shell.
+ */
+export function isShell(name: string): name is Shell {
+	return (SHELLS as readonly string[]).includes(name);
+}
+
+/**
+ * Parse a comma-separated list of commands to ignore.
+ * @returns The command names, or null if one isn't a plain command name.
+ */
+export function parseIgnoredCommands(value: string): string[] | null {
+	const commands = value
+		.split(",")
+		.map((name) => name.trim())
+		.filter((name) => name.length > 0);
+	return commands.every((name) => COMMAND_NAME_REGEX.test(name)) ? commands : null;
+}
+
+/**
+ * Build a `byteside trigger` command line.
+ */
+function triggerCommand(state: string, session: string, target: HookTarget): string {
+	return [`byteside trigger ${state} --session ${session}`, formatHookTarget(target)]
+		.filter(Boolean)
+		.join(" ");
+}
+
+function bashInit(minDuration: number, ignore: string, target: HookTarget): string {
+	return `# byteside shell integration for bash
+# Shows "bash" while a command runs for ${minDuration}s or longer, then "success" or "error".
+__byteside_ignore=" ${ignore} "
+__byteside_trigger() {
+	(command ${triggerCommand('"$1"', "shell-$$", target)} </dev/null >/dev/null 2>&1 &)
+}
+__byteside_preexec() {
+	case "$__byteside_ignore" in *" \${1%% *} "*) return ;; esac
+	__byteside_start=$SECONDS
+	__byteside_timer=$( (sleep ${minDuration} && __byteside_trigger bash) </dev/null >/dev/null 2>&1 & echo $!)
+}
+__byteside_precmd() {
+	local exit_status=$?
+	if [ -n "$__byteside_start" ]; then
+		kill "$__byteside_timer" 2>/dev/null
+		if [ $((SECONDS - __byteside_start)) -ge ${minDuration} ]; then
+			if [ "$exit_status" -eq 0 ]; then __byteside_trigger success; else __byteside_trigger error; fi
+		fi
+		__byteside_start=
+	fi
+	return "$exit_status"
+}
+if [ -n "\${bash_preexec_imported:-}" ]; then
+	preexec_functions+=(__byteside_preexec)
+	precmd_functions+=(__byteside_precmd)
+else
+	# The DEBUG trap runs before every simple command; only the first one after a prompt counts
+	__byteside_debug() {
+		[ -n "$__byteside_ready" ] || return 0
+		__byteside_ready=
+		__byteside_preexec "$BASH_COMMAND"
+	}
+	# A DEBUG trap that was already set (by a prompt framework, say) keeps running, before
+	# this one. $_ is passed on, so it still holds the last argument of the previous command.
+	__byteside_debug_trap() {
+		eval "set -- $(trap -p DEBUG)"
+		printf '%s' "\${3:-}"
+	}
+	__byteside_previous_debug=$(__byteside_debug_trap)
+	case "$__byteside_previous_debug" in
+	*__byteside_debug*) ;;
+	"") trap '__byteside_debug "$_"' DEBUG ;;
+	*) trap "$__byteside_previous_debug"$'\\n''__byteside_debug "$_"' DEBUG ;;
+	esac
+	case "$PROMPT_COMMAND" in
+	*__byteside_precmd*) ;;
+	*) PROMPT_COMMAND="__byteside_precmd\${PROMPT_COMMAND:+; $PROMPT_COMMAND}; __byteside_ready=1" ;;
+	esac
+fi
+`;
+}
+
+function zshInit(minDuration: number, ignore: string, target: HookTarget): string {
+	return `# byteside shell integration for zsh
+# Shows "bash" while a command runs for ${minDuration}s or longer, then "success" or "error".
+__byteside_ignore=" ${ignore} "
+__byteside_trigger() {
+	(command ${triggerCommand('"$1"', "shell-$$", target)} </dev/null >/dev/null 2>&1 &)
+}
+__byteside_preexec() {
+	[[ "$__byteside_ignore" == *" \${1%% *} "* ]] && return
+	__byteside_start=$SECONDS
+	__byteside_timer=$( (sleep ${minDuration} && __byteside_trigger bash) </dev/null >/dev/null 2>&1 & echo $!)
+}
+__byteside_precmd() {
+	local exit_status=$?
+	[[ -n "$__byteside_start" ]] || return
+	kill "$__byteside_timer" 2>/dev/null
+	if (( SECONDS - __byteside_start >= ${minDuration} )); then
+		if (( exit_status == 0 )); then __byteside_trigger success; else __byteside_trigger error; fi
+	fi
+	__byteside_start=
+}
+autoload -Uz add-zsh-hook
+add-zsh-hook preexec __byteside_preexec
+add-zsh-hook precmd __byteside_precmd
+`;
+}
+
+function fishInit(minDuration: number, ignore: string, target: HookTarget): string {
+	return `# byteside shell integration for fish
+# Shows "bash" while a command runs for ${minDuration}s or longer, then "success" or "error".
+set -g __byteside_ignore ${ignore}
+function __byteside_trigger
+	command ${triggerCommand("$argv[1]", "shell-$fish_pid", target)} </dev/null >/dev/null 2>&1 &
+	disown $last_pid 2>/dev/null
+end
+function __byteside_preexec --on-event fish_preexec
+	set -l cmd (string split " " -- (string trim -- $argv[1]))[1]
+	contains -- $cmd $__byteside_ignore; and return
+	set -g __byteside_running 1
+	sh -c 'sleep ${minDuration} && exec "$@"' sh ${triggerCommand("bash", "shell-$fish_pid", target)} </dev/null >/dev/null 2>&1 &
+	set -g __byteside_timer $last_pid
+	disown $__byteside_timer 2>/dev/null
+end
+function __byteside_postexec --on-event fish_postexec
+	set -l exit_status $status
+	set -q __byteside_running; or return
+	set -e __byteside_running
+	kill $__byteside_timer 2>/dev/null
+	if test $CMD_DURATION -ge ${minDuration * 1000}
+		if test $exit_status -eq 0
+			__byteside_trigger success
+		else
+			__byteside_trigger error
+		end
+	end
+end
+`;
+}
+
+/**
+ * Generate the shell snippet for `eval "$(byteside shell-init <shell>)"`
+ * (fish: `byteside shell-init fish | source`).
+ * Commands that run at least `minDuration` seconds set `bash` once that much
+ * time has passed, then `success` or `error` from their exit status. States
+ * are sent in the background under a per-shell session, so the prompt never waits.
+ */
+export function generateShellInit(shell: Shell, options: ShellInitOptions = {}): string {
+	const minDuration = options.minDuration ?? DEFAULT_MIN_DURATION;
+	const ignore = (options.ignore ?? DEFAULT_IGNORED_COMMANDS).join(" ");
+	const target = options.target ?? {};
+
+	switch (shell) {
+		case "bash":
+			return bashInit(minDuration, ignore, target);
+		case "zsh":
+			return zshInit(minDuration, ignore, target);
+		case "fish":
+			return fishInit(minDuration, ignore, target);
+	}
+}
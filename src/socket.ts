@@ -0,0 +1,197 @@
+import { existsSync } from "node:fs";
+import { chmod, mkdir, unlink } from "node:fs/promises";
+import { connect, createServer, type Server } from "node:net";
+import { dirname, join } from "node:path";
+import { getGlobalDir } from "./config";
+import type { StatePostError, StatePostResponse, StateUpdate } from "./types";
+
+/**
+ * Reply the server writes for each line it reads from the state socket.
+ */
+export type SocketReply = StatePostResponse | StatePostError;
+
+/**
+ * Longest line the server accepts; longer input closes the connection.
+ */
+export const MAX_LINE_LENGTH = 64 * 1024;
+
+/**
+ * Maximum time a client waits for the server's reply.
+ */
+export const SOCKET_TIMEOUT_MS = 1000;
+
+/**
+ * Get the directory holding the state sockets (~/.byteside/run).
+ */
+export function getRunDir(): string {
+	return join(getGlobalDir(), "run");
+}
+
+/**
+ * Get the state socket of the server on a port: ~/.byteside/run/<port>.sock,
+ * or a named pipe on Windows.
+ */
+export function getSocketPath(port: number, dir: string = getRunDir()): string {
+	if (process.platform === "win32") {
+		return `\\\\.\\pipe\\byteside-${port}`;
+	}
+	return join(dir, `${port}.sock`);
+}
+
+/**
+ * Get the port of a server URL, if the server runs on this machine.
+ * @returns The port, or null for remote servers and invalid URLs.
+ */
+export function localPort(serverUrl: string): number | null {
+	try {
+		const url = new URL(serverUrl);
+		const local = ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+		if (!local || url.protocol !== "http:") {
+			return null;
+		}
+		return Number(url.port || 80);
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Get the state socket for a server URL, if the server runs on this machine.
+ * @returns The socket path, or null for remote servers.
+ */
+export function socketPathForUrl(serverUrl: string, dir: string = getRunDir()): string | null {
+	const port = localPort(serverUrl);
+	return port === null ? null : getSocketPath(port, dir);
+}
+
+/**
+ * Send one state update over a state socket and wait for the server's reply.
+ * @returns The reply, or null if the socket doesn't answer (no server, stale socket, timeout).
+ */
+export function sendSocketUpdate(
+	socketPath: string,
+	update: StateUpdate,
+	timeoutMs: number = SOCKET_TIMEOUT_MS,
+): Promise<SocketReply | null> {
+	return new Promise((resolveReply) => {
+		let buffer = "";
+		const socket = connect(socketPath);
+		const finish = (reply: SocketReply | null) => {
+			socket.destroy();
+			resolveReply(reply);
+		};
+
+		socket.setEncoding("utf-8");
+		socket.setTimeout(timeoutMs, () => finish(null));
+		socket.on("error", () => finish(null));
+		socket.on("end", () => finish(null));
+		socket.on("data", (chunk: string) => {
+			buffer += chunk;
+			const newline = buffer.indexOf("\n");
+			if (newline === -1) return;
+			try {
+				finish(JSON.parse(buffer.slice(0, newline)) as SocketReply);
+			} catch {
+				finish(null);
+			}
+		});
+		socket.write(`${JSON.stringify(update)}\n`);
+	});
+}
+
+/**
+ * Create a server for the state socket protocol: each line is a JSON state
+ * update (the body of POST /state) and is answered with one JSON reply line.
+ * Lines are handled one at a time, so replies come in the order of the lines.
+ * @param handle Applies an update; receives the parsed line as is (null for invalid JSON).
+ */
+export function createStateSocketServer(
+	handle: (update: unknown) => SocketReply | Promise<SocketReply>,
+): Server {
+	return createServer((socket) => {
+		let buffer = "";
+		let handled = Promise.resolve();
+		socket.setEncoding("utf-8");
+		socket.on("error", () => {
+			// Clients that disconnect early are not the server's problem
+		});
+		socket.on("data", (chunk: string) => {
+			buffer += chunk;
+			let newline = buffer.indexOf("\n");
+			while (newline !== -1) {
+				const line = buffer.slice(0, newline).trim();
+				buffer = buffer.slice(newline + 1);
+				if (line) {
+					let update: unknown;
+					try {
+						update = JSON.parse(line);
+					} catch {
+						update = null;
+					}
+					handled = handled
+						.then(async () => {
+							const reply = await handle(update);
+							if (socket.writable) {
+								socket.write(`${JSON.stringify(reply)}\n`);
+							}
+						})
+						.catch(() => {
+							socket.destroy();
+						});
+				}
+				newline = buffer.indexOf("\n");
+			}
+			if (buffer.length > MAX_LINE_LENGTH) {
+				socket.destroy();
+			}
+		});
+	});
+}
+
+/**
+ * Check whether a server accepts connections on a socket.
+ */
+function isSocketLive(socketPath: string): Promise<boolean> {
+	return new Promise((resolveLive) => {
+		const socket = connect(socketPath);
+		socket.once("connect", () => {
+			socket.destroy();
+			resolveLive(true);
+		});
+		socket.once("error", () => resolveLive(false));
+	});
+}
+
+/**
+ * Start listening on a state socket.
+ * A socket file left behind by a server that didn't shut down cleanly is replaced;
+ * one another server still listens on is an error.
+ * The socket and its directory are only accessible to the current user.
+ */
+export async function listenOnSocket(server: Server, socketPath: string): Promise<void> {
+	if (process.platform !== "win32") {
+		// The socket gets its own mode only after listen(), so until then the
+		// directory keeps other users out; an existing one is tightened too
+		const dir = dirname(socketPath);
+		await mkdir(dir, { recursive: true, mode: 0o700 });
+		await chmod(dir, 0o700);
+		if (existsSync(socketPath)) {
+			if (await isSocketLive(socketPath)) {
+				throw new Error(`Another server is listening on ${socketPath}`);
+			}
+			await unlink(socketPath);
+		}
+	}
+
+	await new Promise<void>((resolveListening, reject) => {
+		server.once("error", reject);
+		server.listen(socketPath, () => {
+			server.off("error", reject);
+			resolveListening();
+		});
+	});
+
+	if (process.platform !== "win32") {
+		await chmod(socketPath, 0o600);
+	}
+}
@@ -0,0 +1,151 @@
+import { existsSync } from "node:fs";
+import { appendFile, mkdir, readFile, rename, stat, unlink, writeFile } from "node:fs/promises";
+import { join } from "node:path";
+import { getGlobalDir } from "./config";
+import { isValidStateContext } from "./context";
+import type { StateUpdate } from "./types";
+
+/**
+ * A trigger that couldn't be delivered, with the time it was sent.
+ */
+export interface SpoolEntry extends StateUpdate {
+	timestamp: number;
+}
+
+/**
+ * Number of entries kept per spool; older ones are dropped first.
+ */
+export const MAX_SPOOL_ENTRIES = 100;
+
+/**
+ * Spool files are trimmed to MAX_SPOOL_ENTRIES once they grow past this size.
+ */
+const TRIM_SIZE_BYTES = 32 * 1024;
+
+/**
+ * Get the spool directory (~/.byteside/spool).
+ */
+export function getSpoolDir(): string {
+	return join(getGlobalDir(), "spool");
+}
+
+function spoolPath(port: number, dir: string): string {
+	return join(dir, `${port}.jsonl`);
+}
+
+/**
+ * Parse one spool line.
+ * @returns The entry, or null for blank or invalid lines.
+ */
+export function parseSpoolLine(line: string): SpoolEntry | null {
+	if (line.trim().length === 0) {
+		return null;
+	}
+	try {
+		const value: unknown = JSON.parse(line);
+		if (typeof value !== "object" || value === null) {
+			return null;
+		}
+		const entry = value as Record<string, unknown>;
+		const { state, timestamp, sessionId, context, endSession } = entry;
+		if (typeof state !== "string" || typeof timestamp !== "number") {
+			return null;
+		}
+		if (sessionId !== undefined && typeof sessionId !== "string") {
+			return null;
+		}
+		if (context !== undefined && !isValidStateContext(context)) {
+			return null;
+		}
+		return {
+			state,
+			timestamp,
+			...(sessionId && { sessionId }),
+			...(context !== undefined && { context }),
+			...(endSession === true && { endSession }),
+		};
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Keep only the newest MAX_SPOOL_ENTRIES lines of a spool file.
+ */
+async function trimSpool(path: string): Promise<void> {
+	const lines = (await readFile(path, "utf-8")).split("\n").filter(Boolean);
+	if (lines.length > MAX_SPOOL_ENTRIES) {
+		await writeFile(path, `${lines.slice(-MAX_SPOOL_ENTRIES).join("\n")}\n`);
+	}
+}
+
+/**
+ * Spool a trigger for the server on `port`, to be replayed when it starts.
+ * Lines are appended, so hooks running at the same time don't lose each other's entries.
+ */
+export async function spoolState(
+	port: number,
+	update: StateUpdate,
+	dir: string = getSpoolDir(),
+	now: number = Date.now(),
+): Promise<void> {
+	await mkdir(dir, { recursive: true });
+	const path = spoolPath(port, dir);
+	const entry: SpoolEntry = { ...update, timestamp: now };
+	await appendFile(path, `${JSON.stringify(entry)}\n`);
+
+	if ((await stat(path)).size > TRIM_SIZE_BYTES) {
+		await trimSpool(path);
+	}
+}
+
+/**
+ * Take all spooled triggers for the server on `port`, oldest first.
+ * The spool file is removed, so each entry is replayed once.
+ */
+export async function takeSpool(port: number, dir: string = getSpoolDir()): Promise<SpoolEntry[]> {
+	const path = spoolPath(port, dir);
+	if (!existsSync(path)) {
+		return [];
+	}
+
+	// Claim the file first so triggers spooled meanwhile start a new one
+	const claimed = `${path}.${process.pid}`;
+	await rename(path, claimed);
+	try {
+		return (await readFile(claimed, "utf-8"))
+			.split("\n")
+			.map(parseSpoolLine)
+			.filter((entry): entry is SpoolEntry => entry !== null)
+			.sort((a, b) => a.timestamp - b.timestamp);
+	} finally {
+		await unlink(claimed);
+	}
+}
+
+/**
+ * Drop entries older than `maxAgeMs` (and any from the future).
+ */
+export function freshSpoolEntries(
+	entries: SpoolEntry[],
+	maxAgeMs: number,
+	now: number = Date.now(),
+): SpoolEntry[] {
+	return entries.filter((entry) => entry.timestamp >= now - maxAgeMs && entry.timestamp <= now);
+}
+
+/**
+ * Keep only the newest entry of each session (and of session-less triggers), oldest first.
+ * Earlier states of a session were shown and replaced long ago, so only the last one matters.
+ */
+export function latestSpoolEntries(entries: SpoolEntry[]): SpoolEntry[] {
+	const latest = new Map<string, SpoolEntry>();
+	for (const entry of entries) {
+		const key = entry.sessionId ?? "";
+		const current = latest.get(key);
+		if (!current || entry.timestamp >= current.timestamp) {
+			latest.set(key, entry);
+		}
+	}
+	return [...latest.values()].sort((a, b) => a.timestamp - b.timestamp);
+}
@@ -1,6 +1,7 @@
 import WebSocket from "ws";
-import type { AvatarManifest, TerminalConfig } from "../manifest.js";
-import type { AvatarState } from "../types.js";
+import { formatCaption, truncate } from "../context.js";
+import { type AvatarManifest, getFallbackChain, type TerminalConfig } from "../manifest.js";
+import type { AvatarState, StateContext } from "../types.js";
 import { preloadAllFrames } from "./ascii-loader.js";
 import type { StateFrames, TerminalRendererOptions } from "./types.js";
 
@@ -25,9 +26,9 @@ export class TerminalRenderer {
 	private options: TerminalRendererOptions;
 	private stateFrames: Map<string, StateFrames> = new Map();
 	private currentState: AvatarState = "idle";
+	private caption = "";
 	private frameIndex = 0;
 	private intervalId: ReturnType<typeof setInterval> | null = null;
-	private transitionTimeoutId: ReturnType<typeof setTimeout> | null = null;
 	private ws: WebSocket | null = null;
 	private isRunning = false;
 	private terminalImageModule: typeof import("terminal-image")["default"] | null = null;
@@ -96,12 +97,6 @@ export class TerminalRenderer {
 			this.intervalId = null;
 		}
 
-		// Clear any pending transition
-		if (this.transitionTimeoutId) {
-			clearTimeout(this.transitionTimeoutId);
-			this.transitionTimeoutId = null;
-		}
-
 		// Close WebSocket
 		if (this.ws) {
 			this.ws.close();
@@ -118,26 +113,17 @@ export class TerminalRenderer {
 
 	/**
 	 * Set the current avatar state.
+	 * Timed transitions (duration/transition_to) are broadcast by the server.
+	 * States without terminal frames follow their fallback chain.
+	 * The context, if any, is shown as a caption below the avatar.
 	 */
-	setState(state: AvatarState): void {
-		if (state !== this.currentState && this.stateFrames.has(state)) {
-			// Clear any pending transition
-			if (this.transitionTimeoutId) {
-				clearTimeout(this.transitionTimeoutId);
-				this.transitionTimeoutId = null;
-			}
+	setState(state: AvatarState, context?: StateContext): void {
+		this.caption = formatCaption(context);
 
-			this.currentState = state;
+		const target = getFallbackChain(this.manifest, state).find((s) => this.stateFrames.has(s));
+		if (target !== undefined && target !== this.currentState) {
+			this.currentState = target;
 			this.frameIndex = 0;
-
-			// Check if this state has an auto-transition
-			const stateConfig = this.manifest.states[state];
-			if (stateConfig?.duration && stateConfig?.transition_to) {
-				const targetState = stateConfig.transition_to as AvatarState;
-				this.transitionTimeoutId = setTimeout(() => {
-					this.setState(targetState);
-				}, stateConfig.duration);
-			}
 		}
 	}
 
@@ -153,8 +139,12 @@ export class TerminalRenderer {
 			this.ws.on("message", (data) => {
 				try {
 					const parsed = JSON.parse(String(data));
+					if (parsed.type === "state" && parsed.background) {
+						// Another session owns the overall state
+						return;
+					}
 					if ((parsed.type === "state" || parsed.type === "welcome") && parsed.state) {
-						this.setState(parsed.state);
+						this.setState(parsed.state, parsed.context);
 					}
 				} catch {
 					// Ignore invalid messages
@@ -211,6 +201,7 @@ export class TerminalRenderer {
 			const paddedLine = line.substring(0, width).padEnd(width);
 			process.stdout.write(moveTo(renderRow + i, 1) + paddedLine + CLEAR_LINE);
 		}
+		this.writeCaption();
 
 		// Restore cursor position
 		process.stdout.write(RESTORE_CURSOR);
@@ -231,14 +222,25 @@ export class TerminalRenderer {
 			});
 
 			// Save cursor, move to render area, write image, restore cursor
-			process.stdout.write(
-				SAVE_CURSOR + moveTo(this.options.renderRow, 1) + image + RESTORE_CURSOR,
-			);
+			process.stdout.write(SAVE_CURSOR + moveTo(this.options.renderRow, 1) + image);
+			this.writeCaption();
+			process.stdout.write(RESTORE_CURSOR);
 		} catch {
 			// Silent error for image rendering
 		}
 	}
 
+	/**
+	 * Write the caption on the line below the render area.
+	 */
+	private writeCaption(): void {
+		const { renderRow } = this.options;
+		const { width, height } = this.options.size;
+		process.stdout.write(
+			moveTo(renderRow + height, 1) + truncate(this.caption, width) + CLEAR_LINE,
+		);
+	}
+
 	/**
 	 * Advance to the next frame.
 	 */
@@ -257,7 +259,8 @@ export class TerminalRenderer {
 		const { height } = this.options.size;
 
 		process.stdout.write(SAVE_CURSOR);
-		for (let i = 0; i < height; i++) {
+		// Includes the caption line
+		for (let i = 0; i <= height; i++) {
 			process.stdout.write(moveTo(renderRow + i, 1) + CLEAR_LINE);
 		}
 		process.stdout.write(RESTORE_CURSOR);
@@ -274,21 +277,27 @@ export class TerminalRenderer {
 
 /**
  * Create a terminal renderer from a manifest.
+ * The row below the avatar is reserved for the caption, so in a terminal with
+ * `terminalRows` rows the avatar is shortened until both fit.
  */
 export function createTerminalRenderer(
 	manifest: AvatarManifest,
 	avatarPath: string,
 	renderRow = 10,
+	terminalRows = process.stdout.rows,
 ): TerminalRenderer | null {
 	if (!manifest.terminal?.enabled) {
 		return null;
 	}
 
 	const terminalConfig = manifest.terminal;
+	const size = terminalConfig.size ?? { width: 40, height: 20 };
 	const options: TerminalRendererOptions = {
 		avatarPath,
 		framerate: terminalConfig.framerate ?? 8,
-		size: terminalConfig.size ?? { width: 40, height: 20 },
+		size: terminalRows
+			? { ...size, height: Math.max(1, Math.min(size.height, terminalRows - renderRow)) }
+			: size,
 		renderRow,
 	};
 
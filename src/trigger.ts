@@ -0,0 +1,300 @@
+import { getAgent } from "./agents";
+import { type BytesideConfig, loadBytesideConfig } from "./config";
+import { contextFromHookInput, type HookInput, readHookInput } from "./hook-input";
+import { getToolMapping, isToolFailure } from "./hooks";
+import { INSTANCE_NAME_REGEX, resolveServerUrl } from "./instances";
+import { STATE_NAME_REGEX } from "./manifest";
+import { localPort, sendSocketUpdate, socketPathForUrl } from "./socket";
+import { spoolState } from "./spool";
+import type { StateContext, StateUpdate } from "./types";
+
+/**
+ * Options of `byteside trigger` the quick path understands.
+ */
+export interface QuickTriggerOptions {
+	session?: string;
+	message?: string;
+	detectError?: boolean;
+	port?: number;
+	instance?: string;
+}
+
+/**
+ * Options of `byteside hook` the quick path understands.
+ */
+export interface QuickHookOptions {
+	agent?: string;
+	port?: number;
+	instance?: string;
+}
+
+type ValueOption = "session" | "message" | "agent" | "port" | "instance";
+
+/**
+ * Flags taking a value, by every spelling commander accepts for them.
+ */
+const VALUE_FLAGS: Record<string, ValueOption> = {
+	"-s": "session",
+	"--session": "session",
+	"-m": "message",
+	"--message": "message",
+	"--agent": "agent",
+	"--port": "port",
+	"--instance": "instance",
+};
+
+/**
+ * Parse the arguments of `command`, accepting only the given value options.
+ * @returns The positional arguments and options, or null for another command,
+ * an option that isn't allowed or an invalid value.
+ */
+function parseQuickArgs(
+	args: string[],
+	command: string,
+	allowed: readonly ValueOption[],
+	allowDetectError = false,
+): { positional: string[]; options: QuickTriggerOptions & QuickHookOptions } | null {
+	if (args[0] !== command) {
+		return null;
+	}
+
+	const positional: string[] = [];
+	const options: QuickTriggerOptions & QuickHookOptions = {};
+	for (let i = 1; i < args.length; i++) {
+		const arg = args[i] ?? "";
+		if (allowDetectError && arg === "--detect-error") {
+			options.detectError = true;
+			continue;
+		}
+		if (!arg.startsWith("-")) {
+			positional.push(arg);
+			continue;
+		}
+
+		const equals = arg.indexOf("=");
+		const flag = equals === -1 ? arg : arg.slice(0, equals);
+		const key = VALUE_FLAGS[flag];
+		const value = equals === -1 ? args[++i] : arg.slice(equals + 1);
+		if (!key || !allowed.includes(key) || value === undefined) {
+			return null;
+		}
+		if (key === "port") {
+			const port = Number(value);
+			if (!Number.isInteger(port) || port < 1 || port > 65535) return null;
+			options.port = port;
+		} else if (key === "instance") {
+			if (!INSTANCE_NAME_REGEX.test(value)) return null;
+			options.instance = value;
+		} else {
+			options[key] = value;
+		}
+	}
+	return { positional, options };
+}
+
+/**
+ * Parse `trigger <state> [options]` without commander.
+ * Only the options hooks and integrations use are understood.
+ * @returns The state and options, or null for anything else (other commands,
+ * --help, --url, invalid values), which is left to the full CLI.
+ */
+export function parseTriggerArgs(
+	args: string[],
+): { state: string; options: QuickTriggerOptions } | null {
+	const parsed = parseQuickArgs(args, "trigger", ["session", "message", "port", "instance"], true);
+	const [state] = parsed?.positional ?? [];
+	if (parsed?.positional.length !== 1 || !state || !STATE_NAME_REGEX.test(state)) {
+		return null;
+	}
+	return { state, options: parsed.options };
+}
+
+/**
+ * Parse `hook <event> [options]` without commander, like parseTriggerArgs().
+ * @returns The event and options, or null for anything the full CLI should handle.
+ */
+export function parseHookArgs(args: string[]): { event: string; options: QuickHookOptions } | null {
+	const parsed = parseQuickArgs(args, "hook", ["agent", "port", "instance"]);
+	const [event] = parsed?.positional ?? [];
+	if (parsed?.positional.length !== 1 || !event) {
+		return null;
+	}
+	return { event, options: parsed.options };
+}
+
+/**
+ * Build the update `byteside trigger` sends from its options and the hook payload on stdin.
+ */
+export function triggerUpdate(
+	state: string,
+	options: { session?: string; message?: string; detectError?: boolean },
+	input: HookInput | null,
+): StateUpdate {
+	const failed = options.detectError && input && isToolFailure(input);
+	const sessionId = options.session ?? input?.session_id;
+	let context: StateContext | undefined = input ? contextFromHookInput(input) : undefined;
+	if (options.message) {
+		context = { ...context, message: options.message };
+	}
+	return {
+		state: failed ? "error" : state,
+		...(sessionId && { sessionId }),
+		...(context && { context }),
+	};
+}
+
+/**
+ * POST a state update to a running server.
+ * Fails silently when the server isn't running; an unknown state sets a non-zero exit code.
+ * @param serverUrl Base URL of the server, e.g. http://localhost:3333
+ * @returns False if the server didn't answer.
+ */
+export async function postState(serverUrl: string, update: StateUpdate): Promise<boolean> {
+	try {
+		const response = await fetch(`${serverUrl}/state`, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(update),
+			signal: AbortSignal.timeout(1000),
+		});
+		if (response.status === 400) {
+			// State not known to the active avatar
+			process.exitCode = 1;
+		}
+		return true;
+	} catch {
+		// Silent failure - server may not be running
+		return false;
+	}
+}
+
+/**
+ * Send a state update to a server, over its state socket when it runs on this
+ * machine and over HTTP otherwise (or when the socket doesn't answer).
+ * Fails silently like postState().
+ * @returns False if the server didn't answer.
+ */
+export async function sendState(serverUrl: string, update: StateUpdate): Promise<boolean> {
+	const socketPath = socketPathForUrl(serverUrl);
+	const reply = socketPath ? await sendSocketUpdate(socketPath, update) : null;
+	if (!reply) {
+		return postState(serverUrl, update);
+	}
+	if (!reply.ok) {
+		// State not known to the active avatar
+		process.exitCode = 1;
+	}
+	return true;
+}
+
+/**
+ * Send a trigger to a server, spooling it when a server on this machine isn't
+ * running so it is replayed once the server starts.
+ */
+export async function sendOrSpoolState(serverUrl: string, update: StateUpdate): Promise<void> {
+	if (await sendState(serverUrl, update)) {
+		return;
+	}
+	const port = localPort(serverUrl);
+	if (port !== null) {
+		await spoolState(port, update).catch(() => {
+			// Silent failure for hooks
+		});
+	}
+}
+
+/**
+ * Handle `byteside trigger` without commander and, unless no running instance
+ * matches, without loading the configuration: hooks run it on every tool call,
+ * so its start-up time is the avatar's latency.
+ * @param args Command-line arguments after the script name
+ * @returns False if the arguments need the full CLI (nothing has been read from stdin then).
+ */
+export async function quickTrigger(args: string[]): Promise<boolean> {
+	const parsed = parseTriggerArgs(args);
+	if (!parsed) {
+		return false;
+	}
+	const { state, options } = parsed;
+
+	// Hooks pipe their payload on stdin, which carries the session id and tool details
+	const input = await readHookInput();
+	const serverUrl = await resolveServerUrl(
+		{
+			...(options.port !== undefined && { port: options.port }),
+			...(options.instance && { instance: options.instance }),
+		},
+		input?.cwd ?? process.cwd(),
+		async () => (await loadBytesideConfig()).server?.port ?? 3333,
+	);
+	if (!serverUrl) {
+		// Silent failure for hooks
+		process.exitCode = 1;
+		return true;
+	}
+
+	await sendOrSpoolState(serverUrl, triggerUpdate(state, options, input));
+	return true;
+}
+
+/**
+ * Handle `byteside hook` like quickTrigger(). The configuration is only loaded
+ * for the agent's tool event, whose state depends on hooks.mapping, or when no
+ * running instance matches.
+ * @param args Command-line arguments after the script name
+ * @returns False if the arguments need the full CLI (nothing has been read from stdin then).
+ */
+export async function quickHook(args: string[]): Promise<boolean> {
+	const parsed = parseHookArgs(args);
+	if (!parsed) {
+		return false;
+	}
+	const { event, options } = parsed;
+
+	const agent = getAgent(options.agent);
+	if (!agent) {
+		// Silent failure for hooks
+		process.exitCode = 1;
+		return true;
+	}
+
+	let config: Promise<BytesideConfig> | undefined;
+	const loadConfig = () => {
+		config ??= loadBytesideConfig();
+		return config;
+	};
+
+	const input = { ...(await readHookInput()), hook_event_name: event };
+	const mapping =
+		event === agent.toolEvent
+			? getToolMapping((await loadConfig()).hooks?.mapping, agent.defaultToolMapping)
+			: undefined;
+	const state = agent.stateForEvent(input, mapping);
+	if (!state) {
+		// Event doesn't change the avatar (e.g. a tool without its own state)
+		return true;
+	}
+
+	const serverUrl = await resolveServerUrl(
+		{
+			...(options.port !== undefined && { port: options.port }),
+			...(options.instance && { instance: options.instance }),
+		},
+		input.cwd ?? process.cwd(),
+		async () => (await loadConfig()).server?.port ?? 3333,
+	);
+	if (!serverUrl) {
+		// Silent failure for hooks
+		process.exitCode = 1;
+		return true;
+	}
+
+	const context = contextFromHookInput(input);
+	await sendOrSpoolState(serverUrl, {
+		state,
+		...(input.session_id && { sessionId: input.session_id }),
+		...(context && { context }),
+		...(event === agent.sessionEndEvent && { endSession: true }),
+	});
+	return true;
+}
@@ -12,15 +12,77 @@ export const REQUIRED_STATES = [
 ] as const;
 
 /**
- * Valid avatar states representing the AI agent's current activity.
+ * Core avatar states representing the AI agent's current activity.
  */
-export type AvatarState = (typeof REQUIRED_STATES)[number];
+export type CoreState = (typeof REQUIRED_STATES)[number];
+
+/**
+ * Optional states set by hooks for events outside the core loop, mapped to the
+ * core state shown instead when the active avatar doesn't declare them.
+ */
+export const OPTIONAL_STATE_FALLBACKS: Readonly<Record<string, CoreState>> = {
+	starting: "idle",
+	compacting: "thinking",
+};
+
+/**
+ * Avatar state: a core state, or a custom state declared by the active avatar's manifest.
+ */
+export type AvatarState = CoreState | (string & Record<never, never>);
+
+/**
+ * What caused a state change.
+ * - trigger: an explicit POST /state (hooks, CLI)
+ * - transition: a manifest duration/transition_to timer expiring
+ * - timeout: no triggers arrived within the configured idle timeout
+ * - spool: a trigger sent while the server wasn't running, replayed on startup
+ */
+export type StateSource = "trigger" | "transition" | "timeout" | "spool";
+
+/**
+ * Optional details about what the agent is doing, shown as a caption under the avatar.
+ */
+export interface StateContext {
+	/** Tool name, e.g. "Edit" or "Bash" */
+	tool?: string;
+	/** File the tool targets */
+	file?: string;
+	/** Bash command being run */
+	command?: string;
+	/** Notification text */
+	message?: string;
+}
 
 /**
  * Request body for POST /state endpoint.
  */
 export interface StateUpdate {
 	state: AvatarState;
+	/** Claude Code session_id the update belongs to */
+	sessionId?: string;
+	/** What the agent is doing */
+	context?: StateContext;
+	/** The session ended, so it is forgotten once the state is applied */
+	endSession?: boolean;
+}
+
+/**
+ * Response from POST /state (and the state socket) when the update was applied.
+ */
+export interface StatePostResponse {
+	ok: true;
+	state: AvatarState;
+	previous: AvatarState;
+	sessionId?: string | undefined;
+}
+
+/**
+ * Response from POST /state (and the state socket) when the update was rejected.
+ */
+export interface StatePostError {
+	ok: false;
+	error: string;
+	validStates: readonly AvatarState[];
 }
 
 /**
@@ -29,6 +91,78 @@ export interface StateUpdate {
 export interface StateResponse {
 	state: AvatarState;
 	timestamp: number;
+	sessionId?: string | undefined;
+	context?: StateContext | undefined;
+}
+
+/**
+ * Latest known state of a single Claude Code session.
+ */
+export interface SessionInfo {
+	sessionId: string;
+	state: AvatarState;
+	timestamp: number;
+	context?: StateContext | undefined;
+}
+
+/**
+ * Response from GET /sessions endpoint.
+ */
+export interface SessionsResponse {
+	sessions: SessionInfo[];
+}
+
+/**
+ * A single recorded state transition.
+ */
+export interface StateHistoryEntry {
+	state: AvatarState;
+	previous: AvatarState;
+	timestamp: number;
+	source: StateSource;
+	sessionId?: string | undefined;
+	context?: StateContext | undefined;
+}
+
+/**
+ * Response from GET /state/history endpoint.
+ */
+export interface StateHistoryResponse {
+	entries: StateHistoryEntry[];
+}
+
+/**
+ * Counters describing how the agent spent its time.
+ */
+export interface StateStats {
+	/** Time spent in each state, in ms */
+	durations: Record<string, number>;
+	/** Tool calls that changed the state (writing, bash) */
+	toolCalls: number;
+	/** Times the error state was entered */
+	errors: number;
+	/** Times the agent waited for input */
+	waits: number;
+	/** Total number of state changes */
+	transitions: number;
+	/** When tracking started (ms) */
+	since: number;
+}
+
+/**
+ * Statistics for a single Claude Code session.
+ */
+export interface SessionStats extends StateStats {
+	sessionId: string;
+}
+
+/**
+ * Response from GET /stats endpoint.
+ */
+export interface StatsResponse {
+	overall: StateStats;
+	/** Most recently active first */
+	sessions: SessionStats[];
 }
 
 /**
@@ -38,6 +172,10 @@ export interface WsWelcomeMessage {
 	type: "welcome";
 	state: AvatarState;
 	timestamp: number;
+	context?: StateContext | undefined;
+	sessions: SessionInfo[];
+	/** Most recent transitions, oldest first */
+	history: StateHistoryEntry[];
 }
 
 /**
@@ -47,6 +185,11 @@ export interface WsStateMessage {
 	type: "state";
 	state: AvatarState;
 	timestamp: number;
+	source: StateSource;
+	sessionId?: string | undefined;
+	context?: StateContext | undefined;
+	/** True when only the session changed and the overall state stayed the same */
+	background?: boolean | undefined;
 }
 
 /**
@@ -0,0 +1,194 @@
+import { readFile, rm } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeEach, describe, expect, it } from "vitest";
+import {
+	AGENTS,
+	claudeAdapter,
+	DEFAULT_AGENT,
+	DEFAULT_GEMINI_TOOL_MAPPING,
+	GEMINI_HOOK_EVENTS,
+	geminiAdapter,
+	generateGeminiHookConfig,
+	getAgent,
+	getGeminiSettingsPath,
+	stateForGeminiHookInput,
+} from "../src/agents";
+import {
+	countBytesideHooks,
+	diagnoseHooks,
+	generateHookConfig,
+	getToolMapping,
+	hookCommand,
+	isToolFailure,
+	readClaudeSettings,
+} from "../src/hooks";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const testDir = join(__dirname, ".test-agents");
+
+describe("agents", () => {
+	afterAll(async () => {
+		await rm(testDir, { recursive: true, force: true });
+	});
+
+	describe("getAgent", () => {
+		it("finds adapters by name", () => {
+			expect(getAgent("claude")).toBe(claudeAdapter);
+			expect(getAgent("gemini")).toBe(geminiAdapter);
+			expect(Object.keys(AGENTS)).toEqual(["claude", "gemini"]);
+		});
+
+		it("defaults to Claude Code", () => {
+			expect(DEFAULT_AGENT).toBe("claude");
+			expect(getAgent()).toBe(claudeAdapter);
+		});
+
+		it("returns null for unknown agents", () => {
+			expect(getAgent("codex")).toBeNull();
+			expect(getAgent("toString")).toBeNull();
+		});
+	});
+
+	describe("claudeAdapter", () => {
+		it("uses the Claude Code settings and hooks", () => {
+			expect(claudeAdapter.scopes).toEqual(["global", "project", "local"]);
+			expect(claudeAdapter.settingsPath("global")).toBe(
+				join(homedir(), ".claude", "settings.json"),
+			);
+			expect(claudeAdapter.generateHooks()).toEqual(generateHookConfig());
+			expect(claudeAdapter.stateForEvent({ hook_event_name: "Stop" })).toBe("success");
+		});
+	});
+
+	describe("hookCommand", () => {
+		it("adds the agent and target flags", () => {
+			expect(hookCommand("Stop")).toBe("byteside hook Stop");
+			expect(hookCommand("AfterAgent", { port: 4000 }, "gemini")).toBe(
+				"byteside hook AfterAgent --agent gemini --port 4000",
+			);
+		});
+	});
+
+	describe("getToolMapping", () => {
+		it("uses the agent's built-in mapping after configured entries", () => {
+			const mapping = getToolMapping({ read_file: "thinking" }, DEFAULT_GEMINI_TOOL_MAPPING);
+
+			expect(mapping.map(({ pattern, source }) => `${pattern}:${source}`)).toEqual([
+				"read_file:config",
+				"write_file|replace:default",
+				"run_shell_command:default",
+			]);
+		});
+	});
+
+	describe("getGeminiSettingsPath", () => {
+		it("returns the global and project settings files", () => {
+			expect(getGeminiSettingsPath("global")).toBe(join(homedir(), ".gemini", "settings.json"));
+			expect(getGeminiSettingsPath("project")).toBe(
+				join(process.cwd(), ".gemini", "settings.json"),
+			);
+		});
+
+		it("has no local scope", () => {
+			expect(geminiAdapter.scopes).not.toContain("local");
+		});
+	});
+
+	describe("generateGeminiHookConfig", () => {
+		it("creates one synchronous hook per event", () => {
+			const hooks = generateGeminiHookConfig();
+
+			expect(Object.keys(hooks)).toEqual([...GEMINI_HOOK_EVENTS]);
+			for (const event of GEMINI_HOOK_EVENTS) {
+				expect(hooks[event]).toEqual([
+					{
+						...(event === "BeforeTool" && { matcher: "write_file|replace|run_shell_command" }),
+						hooks: [{ type: "command", command: `byteside hook ${event} --agent gemini` }],
+					},
+				]);
+			}
+		});
+
+		it("embeds the server target", () => {
+			const hooks = generateGeminiHookConfig(undefined, { instance: "api" });
+
+			expect(hooks["AfterAgent"]?.[0]?.hooks[0]?.command).toBe(
+				"byteside hook AfterAgent --agent gemini --instance api",
+			);
+		});
+	});
+
+	describe("stateForGeminiHookInput", () => {
+		it.each([
+			["BeforeAgent", "thinking"],
+			["AfterTool", "thinking"],
+			["Notification", "waiting"],
+			["AfterAgent", "success"],
+			["PreCompress", "compacting"],
+			["SessionStart", "starting"],
+			["SessionEnd", "idle"],
+			["BeforeModel", null],
+		])("maps %s to %s", (event, state) => {
+			expect(stateForGeminiHookInput({ hook_event_name: event })).toBe(state);
+		});
+
+		it("maps tools with the Gemini tool mapping", () => {
+			const input = (tool_name: string) => ({ hook_event_name: "BeforeTool", tool_name });
+
+			expect(stateForGeminiHookInput(input("replace"))).toBe("writing");
+			expect(stateForGeminiHookInput(input("run_shell_command"))).toBe("bash");
+			expect(stateForGeminiHookInput(input("read_file"))).toBeNull();
+		});
+
+		it("reports failed tool calls", () => {
+			const input = {
+				hook_event_name: "AfterTool",
+				tool_name: "run_shell_command",
+				tool_response: { llmContent: "", error: { message: "exit 1", type: "shell" } },
+			};
+
+			expect(isToolFailure(input)).toBe(true);
+			expect(stateForGeminiHookInput(input)).toBe("error");
+		});
+	});
+
+	describe("geminiAdapter install and uninstall", () => {
+		const settingsPath = join(testDir, ".gemini", "settings.json");
+
+		beforeEach(async () => {
+			await rm(testDir, { recursive: true, force: true });
+		});
+
+		it("installs the Gemini hooks", async () => {
+			const result = await geminiAdapter.install(settingsPath);
+
+			expect(result.success).toBe(true);
+			const settings = await readClaudeSettings(settingsPath);
+			expect(settings?.hooks).toEqual(generateGeminiHookConfig());
+			expect((await geminiAdapter.status(settingsPath)).hookCount).toBe(8);
+			expect(diagnoseHooks(settings, geminiAdapter.generateHooks())).toEqual([]);
+		});
+
+		it("uses the configured mapping and target", async () => {
+			const mapping = getToolMapping({ glob: "thinking" }, DEFAULT_GEMINI_TOOL_MAPPING);
+
+			await geminiAdapter.install(settingsPath, { mapping, target: { port: 4000 } });
+			const content = await readFile(settingsPath, "utf-8");
+
+			expect(content).toContain('"matcher": "glob|write_file|replace|run_shell_command"');
+			expect(content).toContain("byteside hook BeforeTool --agent gemini --port 4000");
+		});
+
+		it("removes the Gemini hooks", async () => {
+			await geminiAdapter.install(settingsPath);
+
+			const result = await geminiAdapter.uninstall(settingsPath, { noBackup: true });
+
+			expect(result.success).toBe(true);
+			expect(countBytesideHooks(await readClaudeSettings(settingsPath))).toBe(0);
+		});
+	});
+});
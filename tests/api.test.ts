@@ -1,5 +1,6 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { setState } from "../plugins/state";
+import { endSession, resetHistoryForTests, setManifest, setState } from "../plugins/state";
+import { resetStatsForTests } from "../plugins/stats";
 
 // Mock nitro/h3 functions
 const mockEvent = () => ({
@@ -18,6 +19,7 @@ const mockEvent = () => ({
 
 vi.mock("nitro/h3", () => ({
 	defineHandler: <T>(handler: T): T => handler,
+	getQuery: vi.fn(() => ({})),
 	readBody: vi.fn(),
 	setResponseStatus: vi.fn((event, status) => {
 		event.res.statusCode = status;
@@ -25,10 +27,20 @@ vi.mock("nitro/h3", () => ({
 	setResponseHeader: vi.fn(),
 }));
 
-import { readBody, setResponseStatus } from "nitro/h3";
+// The state plugin never runs here, so the routes are told it is ready
+const stateReady = vi.hoisted(() => ({ promise: Promise.resolve() }));
+vi.mock("../plugins/state", async (importOriginal) => ({
+	...(await importOriginal<typeof import("../plugins/state")>()),
+	whenStateReady: () => stateReady.promise,
+}));
+
+import { getQuery, readBody, setResponseStatus } from "nitro/h3";
+import getSessionsHandler from "../routes/sessions.get";
+import getStateHistoryHandler from "../routes/state/history.get";
 // Import handlers after mocking
 import getStateHandler from "../routes/state.get";
 import postStateHandler from "../routes/state.post";
+import getStatsHandler from "../routes/stats.get";
 
 describe("API routes", () => {
 	beforeEach(() => {
@@ -52,6 +64,123 @@ describe("API routes", () => {
 
 			expect(result.state).toBe("thinking");
 		});
+
+		it("returns the state of a single session", () => {
+			const event = mockEvent();
+			setState("writing", "api-session");
+			setState("bash", "other-session");
+			vi.mocked(getQuery).mockReturnValueOnce({ session: "api-session" });
+
+			const result = getStateHandler(event);
+
+			expect(result).toEqual({
+				state: "writing",
+				timestamp: expect.any(Number),
+				sessionId: "api-session",
+			});
+			endSession("api-session");
+			endSession("other-session");
+		});
+
+		it("returns 404 for an unknown session", () => {
+			const event = mockEvent();
+			vi.mocked(getQuery).mockReturnValueOnce({ session: "nope" });
+
+			const result = getStateHandler(event);
+
+			expect(result).toHaveProperty("ok", false);
+			expect(setResponseStatus).toHaveBeenCalledWith(event, 404);
+		});
+	});
+
+	describe("GET /state/history", () => {
+		beforeEach(() => {
+			resetHistoryForTests();
+		});
+
+		it("returns recorded transitions oldest first", () => {
+			setState("thinking");
+			setState("writing");
+
+			const result = getStateHistoryHandler(mockEvent());
+
+			expect("entries" in result && result.entries.map((e) => e.state)).toEqual([
+				"thinking",
+				"writing",
+			]);
+		});
+
+		it("applies since and limit", () => {
+			setState("thinking");
+			setState("writing");
+			setState("bash");
+			vi.mocked(getQuery).mockReturnValueOnce({ since: "0", limit: "1" });
+
+			const result = getStateHistoryHandler(mockEvent());
+
+			expect("entries" in result && result.entries.map((e) => e.state)).toEqual(["bash"]);
+		});
+
+		it("returns 400 for invalid parameters", () => {
+			const event = mockEvent();
+			vi.mocked(getQuery).mockReturnValueOnce({ limit: "-1" });
+
+			const result = getStateHistoryHandler(event);
+
+			expect(result).toHaveProperty("ok", false);
+			expect(setResponseStatus).toHaveBeenCalledWith(event, 400);
+		});
+	});
+
+	describe("GET /sessions", () => {
+		it("lists sessions that have posted state", () => {
+			setState("thinking", "listed-session");
+
+			const result = getSessionsHandler();
+
+			expect(result.sessions).toContainEqual({
+				sessionId: "listed-session",
+				state: "thinking",
+				timestamp: expect.any(Number),
+			});
+			endSession("listed-session");
+		});
+	});
+
+	describe("GET /stats", () => {
+		beforeEach(() => {
+			resetStatsForTests();
+		});
+
+		it("returns overall and per-session statistics", () => {
+			setState("bash", "stats-session");
+
+			const result = getStatsHandler(mockEvent());
+
+			expect(result).toHaveProperty("overall.toolCalls", 1);
+			expect(result).toHaveProperty("sessions.0.sessionId", "stats-session");
+			endSession("stats-session");
+		});
+
+		it("returns a single session with ?session=", () => {
+			setState("error", "stats-session");
+			vi.mocked(getQuery).mockReturnValueOnce({ session: "stats-session" });
+
+			const result = getStatsHandler(mockEvent());
+
+			expect(result).toMatchObject({ sessionId: "stats-session", errors: 1 });
+			endSession("stats-session");
+		});
+
+		it("returns 404 for an unknown session", () => {
+			const event = mockEvent();
+			vi.mocked(getQuery).mockReturnValueOnce({ session: "missing" });
+
+			const result = getStatsHandler(event);
+
+			expect(result).toHaveProperty("ok", false);
+			expect(setResponseStatus).toHaveBeenCalledWith(event, 404);
+		});
 	});
 
 	describe("POST /state", () => {
@@ -81,6 +210,98 @@ describe("API routes", () => {
 			expect(setResponseStatus).toHaveBeenCalledWith(event, 400);
 		});
 
+		it("accepts custom states declared by the avatar", async () => {
+			setManifest({
+				name: "test-avatar",
+				author: "Test",
+				version: "1.0.0",
+				format: "webm",
+				states: { idle: { file: "idle.webm" }, compacting: { fallback: "thinking" } },
+			});
+			const event = mockEvent();
+			vi.mocked(readBody).mockResolvedValue({ state: "compacting" });
+
+			const result = await postStateHandler(event);
+			setManifest(null);
+
+			expect(result).toEqual({ ok: true, state: "compacting", previous: "idle" });
+		});
+
+		it("shows optional states the avatar doesn't declare as their fallback", async () => {
+			const event = mockEvent();
+			vi.mocked(readBody).mockResolvedValue({ state: "compacting" });
+
+			const result = await postStateHandler(event);
+
+			expect(result).toEqual({ ok: true, state: "thinking", previous: "idle" });
+			expect(getStateHandler().state).toBe("thinking");
+		});
+
+		it("waits for the avatar's manifest before validating the state", async () => {
+			let markReady = () => {};
+			stateReady.promise = new Promise((resolve) => {
+				markReady = resolve;
+			});
+			vi.mocked(readBody).mockResolvedValue({ state: "dancing" });
+
+			const pending = postStateHandler(mockEvent());
+			setManifest({
+				name: "test-avatar",
+				author: "Test",
+				version: "1.0.0",
+				format: "webm",
+				states: { idle: { file: "idle.webm" }, dancing: { file: "dancing.webm" } },
+			});
+			markReady();
+			const result = await pending;
+			setManifest(null);
+			stateReady.promise = Promise.resolve();
+
+			expect(result).toEqual({ ok: true, state: "dancing", previous: "idle" });
+		});
+
+		it("lists custom states in the error response", async () => {
+			setManifest({
+				name: "test-avatar",
+				author: "Test",
+				version: "1.0.0",
+				format: "webm",
+				states: { idle: { file: "idle.webm" }, compacting: { fallback: "thinking" } },
+			});
+			const event = mockEvent();
+			vi.mocked(readBody).mockResolvedValue({ state: "invalid" });
+
+			const result = await postStateHandler(event);
+			setManifest(null);
+
+			expect(result).toHaveProperty("validStates", expect.arrayContaining(["idle", "compacting"]));
+		});
+
+		it("passes context through to the state", async () => {
+			const event = mockEvent();
+			vi.mocked(readBody).mockResolvedValue({
+				state: "bash",
+				context: { tool: "Bash", command: "npm test" },
+			});
+
+			await postStateHandler(event);
+
+			expect(getStateHandler(mockEvent())).toMatchObject({
+				state: "bash",
+				context: { tool: "Bash", command: "npm test" },
+			});
+		});
+
+		it("returns 400 for invalid context", async () => {
+			const event = mockEvent();
+			vi.mocked(readBody).mockResolvedValue({ state: "bash", context: { prompt: "secret" } });
+
+			const result = await postStateHandler(event);
+
+			expect(result.ok).toBe(false);
+			expect(setResponseStatus).toHaveBeenCalledWith(event, 400);
+		});
+
 		it("returns 400 for missing body", async () => {
 			const event = mockEvent();
 			vi.mocked(readBody).mockResolvedValue(null);
@@ -101,6 +322,31 @@ describe("API routes", () => {
 			expect(setResponseStatus).toHaveBeenCalledWith(event, 400);
 		});
 
+		it("records the state for the given session", async () => {
+			const event = mockEvent();
+			vi.mocked(readBody).mockResolvedValue({ state: "bash", sessionId: "post-session" });
+
+			const result = await postStateHandler(event);
+
+			expect(result).toEqual({
+				ok: true,
+				state: "bash",
+				previous: "idle",
+				sessionId: "post-session",
+			});
+			endSession("post-session");
+		});
+
+		it("returns 400 for an invalid sessionId", async () => {
+			const event = mockEvent();
+			vi.mocked(readBody).mockResolvedValue({ state: "bash", sessionId: 42 });
+
+			const result = await postStateHandler(event);
+
+			expect(result.ok).toBe(false);
+			expect(setResponseStatus).toHaveBeenCalledWith(event, 400);
+		});
+
 		it("transitions through multiple states correctly", async () => {
 			const event = mockEvent();
 
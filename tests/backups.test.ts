@@ -0,0 +1,129 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	findBackup,
+	listBackups,
+	parseBackupTime,
+	pruneBackups,
+	restoreBackup,
+} from "../src/backups";
+import { generateHookConfig } from "../src/hooks";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const testDir = join(__dirname, ".test-backups");
+const settingsPath = join(testDir, "settings.json");
+
+async function writeBackup(time: string, content: string): Promise<string> {
+	const path = join(testDir, `settings.backup-${time}.json`);
+	await writeFile(path, content);
+	return path;
+}
+
+describe("backups", () => {
+	beforeEach(async () => {
+		await mkdir(testDir, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true });
+	});
+
+	describe("parseBackupTime", () => {
+		it("reads the time from backup names of the settings file", () => {
+			expect(parseBackupTime(settingsPath, "settings.backup-2026-01-02T03-04-05-678Z.json")).toBe(
+				Date.parse("2026-01-02T03:04:05.678Z"),
+			);
+		});
+
+		it("ignores other files", () => {
+			expect(parseBackupTime(settingsPath, "settings.json")).toBeNull();
+			expect(
+				parseBackupTime(settingsPath, "settings.local.backup-2026-01-02T03-04-05-678Z.json"),
+			).toBeNull();
+			expect(parseBackupTime(settingsPath, "settings.backup-yesterday.json")).toBeNull();
+		});
+
+		it("handles local settings backups", () => {
+			const localPath = join(testDir, "settings.local.json");
+			expect(
+				parseBackupTime(localPath, "settings.local.backup-2026-01-02T03-04-05-678Z.json"),
+			).not.toBeNull();
+		});
+	});
+
+	describe("listBackups", () => {
+		it("lists backups newest first with size and hook count", async () => {
+			const withHooks = JSON.stringify({ hooks: generateHookConfig() });
+			await writeBackup("2026-01-01T00-00-00-000Z", "{}");
+			await writeBackup("2026-01-02T00-00-00-000Z", withHooks);
+			await writeBackup("2026-01-03T00-00-00-000Z", "{ broken");
+			await writeFile(settingsPath, "{}");
+
+			const backups = await listBackups(settingsPath);
+
+			expect(backups.map((b) => b.hookCount)).toEqual([null, 10, 0]);
+			expect(backups[1]?.size).toBe(withHooks.length);
+		});
+
+		it("returns an empty list when the directory doesn't exist", async () => {
+			expect(await listBackups(join(testDir, "missing", "settings.json"))).toEqual([]);
+		});
+	});
+
+	describe("findBackup", () => {
+		it("finds backups by number, name or path", async () => {
+			const older = await writeBackup("2026-01-01T00-00-00-000Z", "{}");
+			const newer = await writeBackup("2026-01-02T00-00-00-000Z", "{}");
+			const backups = await listBackups(settingsPath);
+
+			expect(findBackup(backups, "1")?.path).toBe(newer);
+			expect(findBackup(backups, "settings.backup-2026-01-01T00-00-00-000Z.json")?.path).toBe(
+				older,
+			);
+			expect(findBackup(backups, older)?.path).toBe(older);
+			expect(findBackup(backups, "3")).toBeNull();
+		});
+	});
+
+	describe("restoreBackup", () => {
+		it("restores a backup after backing up the current file", async () => {
+			await writeFile(settingsPath, '{"current":true}');
+			const backup = await writeBackup("2026-01-01T00-00-00-000Z", '{"restored":true}');
+
+			const result = await restoreBackup(settingsPath, backup);
+
+			expect(result.success).toBe(true);
+			expect(await readFile(settingsPath, "utf-8")).toBe('{"restored":true}');
+			expect(result.backupPath).toBeDefined();
+			expect(await readFile(result.backupPath ?? "", "utf-8")).toBe('{"current":true}');
+		});
+
+		it("refuses to restore invalid JSON", async () => {
+			await writeFile(settingsPath, "{}");
+			const backup = await writeBackup("2026-01-01T00-00-00-000Z", "{ broken");
+
+			const result = await restoreBackup(settingsPath, backup);
+
+			expect(result.success).toBe(false);
+			expect(await readFile(settingsPath, "utf-8")).toBe("{}");
+		});
+	});
+
+	describe("pruneBackups", () => {
+		it("keeps the most recent backups", async () => {
+			const oldest = await writeBackup("2026-01-01T00-00-00-000Z", "{}");
+			const middle = await writeBackup("2026-01-02T00-00-00-000Z", "{}");
+			const newest = await writeBackup("2026-01-03T00-00-00-000Z", "{}");
+
+			const removed = await pruneBackups(settingsPath, 1);
+
+			expect(removed).toEqual([middle, oldest]);
+			expect(existsSync(newest)).toBe(true);
+			expect(existsSync(oldest)).toBe(false);
+		});
+	});
+});
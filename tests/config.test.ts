@@ -3,7 +3,7 @@ import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
 import { homedir } from "node:os";
 import { join } from "node:path";
 import { afterAll, afterEach, beforeAll, describe, expect, it } from "vitest";
-import { defaults, loadBytesideConfig } from "../src/config";
+import { defaults, ensureGlobalConfig, loadBytesideConfig } from "../src/config";
 
 // Use real config paths for testing
 const realConfigDir = join(homedir(), ".byteside");
@@ -112,6 +112,27 @@ describe("config module", () => {
 		});
 	});
 
+	describe("ensureGlobalConfig", () => {
+		it("creates an empty config instead of copying the defaults", async () => {
+			if (existsSync(realConfigPath)) {
+				await rm(realConfigPath);
+			}
+
+			await ensureGlobalConfig();
+
+			expect(JSON.parse(await readFile(realConfigPath, "utf-8"))).toEqual({});
+		});
+
+		it("leaves an existing config alone", async () => {
+			await mkdir(realConfigDir, { recursive: true });
+			await writeFile(realConfigPath, JSON.stringify({ avatar: "kept" }));
+
+			await ensureGlobalConfig();
+
+			expect(JSON.parse(await readFile(realConfigPath, "utf-8"))).toEqual({ avatar: "kept" });
+		});
+	});
+
 	describe("defaults", () => {
 		it("has expected default values", () => {
 			expect(defaults.avatar).toBe("default");
@@ -119,6 +140,9 @@ describe("config module", () => {
 			expect(defaults.server?.host).toBe("localhost");
 			expect(defaults.viewer?.autoOpen).toBe(true);
 			expect(defaults.avatarPaths).toContain("~/.byteside/avatars");
+			expect(defaults.state?.idleTimeoutMs).toBe(0);
+			expect(defaults.state?.idleState).toBe("idle");
+			expect(defaults.state?.minDwellMs).toBe(0);
 		});
 	});
 });
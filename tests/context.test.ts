@@ -0,0 +1,121 @@
+import { describe, expect, it } from "vitest";
+import {
+	formatCaption,
+	isValidStateContext,
+	MAX_CONTEXT_LENGTH,
+	normalizeContext,
+	truncate,
+} from "../src/context";
+
+describe("state context", () => {
+	describe("isValidStateContext", () => {
+		it("accepts objects with known string fields", () => {
+			expect(isValidStateContext({})).toBe(true);
+			expect(isValidStateContext({ tool: "Edit", file: "src/cli.ts" })).toBe(true);
+			expect(isValidStateContext({ command: "npm test", message: "Done" })).toBe(true);
+		});
+
+		it("rejects unknown fields", () => {
+			expect(isValidStateContext({ tool: "Edit", prompt: "secret" })).toBe(false);
+		});
+
+		it("rejects non-string values", () => {
+			expect(isValidStateContext({ tool: 42 })).toBe(false);
+			expect(isValidStateContext({ file: ["a", "b"] })).toBe(false);
+		});
+
+		it("rejects non-objects", () => {
+			expect(isValidStateContext(null)).toBe(false);
+			expect(isValidStateContext("Edit")).toBe(false);
+			expect(isValidStateContext([])).toBe(false);
+		});
+	});
+
+	describe("truncate", () => {
+		it("leaves short text alone", () => {
+			expect(truncate("npm test", 20)).toBe("npm test");
+		});
+
+		it("cuts long text and marks it with an ellipsis", () => {
+			const result = truncate("a".repeat(MAX_CONTEXT_LENGTH + 50));
+
+			expect(result).toHaveLength(MAX_CONTEXT_LENGTH);
+			expect(result.endsWith("…")).toBe(true);
+		});
+	});
+
+	describe("normalizeContext", () => {
+		it("collapses whitespace and drops empty fields", () => {
+			const result = normalizeContext({
+				tool: "Bash",
+				command: "npm  test\n  --run",
+				message: " ",
+			});
+
+			expect(result).toEqual({ tool: "Bash", command: "npm test --run" });
+		});
+
+		it("returns undefined when nothing is left", () => {
+			expect(normalizeContext({})).toBeUndefined();
+			expect(normalizeContext({ message: "" })).toBeUndefined();
+		});
+
+		it("truncates long commands", () => {
+			const result = normalizeContext({ command: `echo ${"x".repeat(500)}` });
+
+			expect(result?.command).toHaveLength(MAX_CONTEXT_LENGTH);
+		});
+
+		it("redacts paths and command arguments", () => {
+			const result = normalizeContext(
+				{
+					tool: "Bash",
+					file: "/home/me/work/secret-project/src/index.ts",
+					command: "curl -H 'Authorization: Bearer abc' https://example.com",
+				},
+				{ redact: true },
+			);
+
+			expect(result).toEqual({ tool: "Bash", file: "index.ts", command: "curl" });
+		});
+
+		it("redacts variable assignments before the program", () => {
+			const redact = (command: string) => normalizeContext({ command }, { redact: true });
+
+			expect(redact("API_KEY=abc123 npm test")).toEqual({ command: "npm" });
+			expect(redact("A=1 B=two\tmake build")).toEqual({ command: "make" });
+			expect(redact("TOKEN=abc123")).toBeUndefined();
+		});
+
+		it("redacts the directory of the program", () => {
+			expect(
+				normalizeContext({ command: "/home/user/private/bin/tool --flag" }, { redact: true }),
+			).toEqual({ command: "tool" });
+			expect(normalizeContext({ command: "./scripts/deploy.sh prod" }, { redact: true })).toEqual({
+				command: "deploy.sh",
+			});
+		});
+	});
+
+	describe("formatCaption", () => {
+		it("prefers the notification message", () => {
+			expect(formatCaption({ tool: "Bash", message: "Claude needs your permission" })).toBe(
+				"Claude needs your permission",
+			);
+		});
+
+		it("shows commands with a prompt marker", () => {
+			expect(formatCaption({ tool: "Bash", command: "npm test" })).toBe("$ npm test");
+		});
+
+		it("joins tool and file", () => {
+			expect(formatCaption({ tool: "Edit", file: "src/cli.ts" })).toBe("Edit src/cli.ts");
+			expect(formatCaption({ tool: "WebSearch" })).toBe("WebSearch");
+		});
+
+		it("returns an empty string without context", () => {
+			expect(formatCaption(undefined)).toBe("");
+			expect(formatCaption({})).toBe("");
+		});
+	});
+});
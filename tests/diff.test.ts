@@ -0,0 +1,65 @@
+import { describe, expect, it } from "vitest";
+import { diffLines, formatUnifiedDiff, hasChanges } from "../src/diff";
+
+describe("diff", () => {
+	describe("diffLines", () => {
+		it("marks added and removed lines", () => {
+			expect(diffLines("a\nb\nc", "a\nc\nd")).toEqual([
+				{ type: "same", text: "a" },
+				{ type: "remove", text: "b" },
+				{ type: "same", text: "c" },
+				{ type: "add", text: "d" },
+			]);
+		});
+
+		it("reports no changes for equal texts", () => {
+			const lines = diffLines("a\nb", "a\nb");
+
+			expect(hasChanges(lines)).toBe(false);
+			expect(lines).toHaveLength(2);
+		});
+
+		it("handles empty texts", () => {
+			expect(diffLines("", "a")).toEqual([{ type: "add", text: "a" }]);
+			expect(diffLines("a", "")).toEqual([{ type: "remove", text: "a" }]);
+		});
+	});
+
+	describe("formatUnifiedDiff", () => {
+		const before = ["1", "2", "3", "4", "5", "6", "7", "8", "9", "10", "11", "12"].join("\n");
+
+		it("prints file headers and hunks with context", () => {
+			const after = before.replace("8", "eight");
+
+			expect(formatUnifiedDiff(diffLines(before, after), "a.json", "b.json", 2)).toEqual([
+				"--- a.json",
+				"+++ b.json",
+				"@@ -6,5 +6,5 @@",
+				" 6",
+				" 7",
+				"-8",
+				"+eight",
+				" 9",
+				" 10",
+			]);
+		});
+
+		it("splits distant changes into separate hunks", () => {
+			const after = before.replace("2", "two").replace("11", "eleven");
+			const hunks = formatUnifiedDiff(diffLines(before, after), "a", "b", 1).filter((line) =>
+				line.startsWith("@@"),
+			);
+
+			expect(hunks).toEqual(["@@ -1,3 +1,3 @@", "@@ -10,3 +10,3 @@"]);
+		});
+
+		it("numbers hunks of a new file from zero", () => {
+			expect(formatUnifiedDiff(diffLines("", "{}"), "a", "b")).toEqual([
+				"--- a",
+				"+++ b",
+				"@@ -0,0 +1 @@",
+				"+{}",
+			]);
+		});
+	});
+});
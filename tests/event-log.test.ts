@@ -0,0 +1,162 @@
+import { readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { flushEventLog, startEventLog } from "../plugins/event-log";
+import { endSession, setState } from "../plugins/state";
+import {
+	appendEvent,
+	listLogFiles,
+	parseEventLine,
+	parseSince,
+	readEvents,
+} from "../src/event-log";
+import type { StateHistoryEntry } from "../src/types";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const testDir = join(__dirname, ".test-event-log");
+
+const HOUR = 60 * 60 * 1000;
+
+function entry(timestamp: number, state = "thinking"): StateHistoryEntry {
+	return { state, previous: "idle", timestamp, source: "trigger" };
+}
+
+describe("event log", () => {
+	beforeEach(async () => {
+		await rm(testDir, { recursive: true, force: true });
+	});
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true });
+	});
+
+	describe("appendEvent / readEvents", () => {
+		it("appends one JSON line per transition", async () => {
+			await appendEvent(entry(1000), {}, testDir);
+			await appendEvent({ ...entry(2000, "bash"), sessionId: "abc" }, {}, testDir);
+
+			const files = await readdir(testDir);
+			expect(files).toEqual(["events-1000.jsonl"]);
+
+			const lines = (await readFile(join(testDir, files[0] ?? ""), "utf-8")).trim().split("\n");
+			expect(lines).toHaveLength(2);
+			expect(JSON.parse(lines[1] ?? "")).toMatchObject({ state: "bash", sessionId: "abc" });
+		});
+
+		it("reads entries across files, oldest first", async () => {
+			await appendEvent(entry(1000), { maxAgeHours: 1 }, testDir);
+			await appendEvent(entry(1000 + 2 * HOUR, "bash"), { maxAgeHours: 1 }, testDir);
+
+			const entries = await readEvents(undefined, testDir);
+			expect(entries.map((e) => e.state)).toEqual(["thinking", "bash"]);
+		});
+
+		it("filters by --since", async () => {
+			await appendEvent(entry(1000), {}, testDir);
+			await appendEvent(entry(2000, "bash"), {}, testDir);
+
+			const entries = await readEvents(1000, testDir);
+			expect(entries.map((e) => e.timestamp)).toEqual([2000]);
+		});
+
+		it("skips malformed lines", async () => {
+			await appendEvent(entry(1000), {}, testDir);
+			await writeFile(join(testDir, "events-1000.jsonl"), "{ broken\n", { flag: "a" });
+			await appendEvent(entry(2000, "bash"), {}, testDir);
+
+			const entries = await readEvents(undefined, testDir);
+			expect(entries).toHaveLength(2);
+		});
+
+		it("returns nothing when the log directory doesn't exist", async () => {
+			expect(await readEvents(undefined, join(testDir, "missing"))).toEqual([]);
+		});
+	});
+
+	describe("rotation", () => {
+		it("starts a new file when the current one is too large", async () => {
+			await appendEvent(entry(1000), { maxSizeBytes: 10 }, testDir);
+			await appendEvent(entry(2000), { maxSizeBytes: 10 }, testDir);
+
+			const files = await listLogFiles(testDir);
+			expect(files.map((f) => f.startedAt)).toEqual([1000, 2000]);
+		});
+
+		it("starts a new file when the current one is too old", async () => {
+			await appendEvent(entry(1000), { maxAgeHours: 1 }, testDir);
+			await appendEvent(entry(1000 + HOUR / 2), { maxAgeHours: 1 }, testDir);
+			await appendEvent(entry(1000 + HOUR), { maxAgeHours: 1 }, testDir);
+
+			const files = await listLogFiles(testDir);
+			expect(files.map((f) => f.startedAt)).toEqual([1000, 1000 + HOUR]);
+		});
+
+		it("keeps at most maxFiles files", async () => {
+			for (let i = 1; i <= 5; i++) {
+				await appendEvent(entry(i * 1000), { maxSizeBytes: 10, maxFiles: 3 }, testDir);
+			}
+
+			const files = await listLogFiles(testDir);
+			expect(files.map((f) => f.startedAt)).toEqual([3000, 4000, 5000]);
+		});
+
+		it("ignores unrelated files in the log directory", async () => {
+			await appendEvent(entry(1000), {}, testDir);
+			await writeFile(join(testDir, "notes.txt"), "hello");
+
+			expect(await listLogFiles(testDir)).toHaveLength(1);
+		});
+	});
+
+	describe("parseEventLine", () => {
+		it("parses a logged transition", () => {
+			expect(parseEventLine(JSON.stringify(entry(1000)))).toEqual(entry(1000));
+		});
+
+		it("returns null for blank, malformed or incomplete lines", () => {
+			expect(parseEventLine("")).toBeNull();
+			expect(parseEventLine("not json")).toBeNull();
+			expect(parseEventLine('{"state":"idle"}')).toBeNull();
+		});
+	});
+
+	describe("parseSince", () => {
+		const now = Date.parse("2026-01-15T12:00:00Z");
+
+		it("parses relative durations", () => {
+			expect(parseSince("30s", now)).toBe(now - 30_000);
+			expect(parseSince("10m", now)).toBe(now - 10 * 60_000);
+			expect(parseSince("2h", now)).toBe(now - 2 * HOUR);
+			expect(parseSince("1d", now)).toBe(now - 24 * HOUR);
+		});
+
+		it("parses timestamps and dates", () => {
+			expect(parseSince("1737312000000", now)).toBe(1737312000000);
+			expect(parseSince("2026-01-15T11:00:00Z", now)).toBe(now - HOUR);
+		});
+
+		it("returns null for unparseable values", () => {
+			expect(parseSince("yesterday-ish", now)).toBeNull();
+		});
+	});
+
+	describe("startEventLog", () => {
+		it("writes state changes with session and context", async () => {
+			const stop = startEventLog({}, testDir);
+			setState("writing", "log-session", { tool: "Edit", file: "src/cli.ts" });
+			stop();
+			await flushEventLog();
+
+			const [logged] = await readEvents(undefined, testDir);
+			expect(logged).toMatchObject({
+				state: "writing",
+				source: "trigger",
+				sessionId: "log-session",
+				context: { tool: "Edit", file: "src/cli.ts" },
+			});
+			endSession("log-session");
+		});
+	});
+});
@@ -0,0 +1,207 @@
+import { execFile } from "node:child_process";
+import { existsSync } from "node:fs";
+import { chmod, mkdir, mkdtemp, readFile, rm, stat, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { promisify } from "node:util";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	CHAINED_SUFFIX,
+	GIT_HOOKS,
+	generateGitHook,
+	getGitHookStatus,
+	getGitHooksDir,
+	installGitHooks,
+	isBytesideGitHook,
+	uninstallGitHooks,
+} from "../src/git-hooks";
+
+const execFileAsync = promisify(execFile);
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const testDir = join(__dirname, ".test-git-hooks");
+const hooksDir = join(testDir, "hooks");
+
+const EXISTING_HOOK = '#!/bin/sh\necho "existing $1"\nexit 3\n';
+
+async function writeExistingHook(name: string): Promise<string> {
+	const path = join(hooksDir, name);
+	await writeFile(path, EXISTING_HOOK);
+	await chmod(path, 0o755);
+	return path;
+}
+
+describe("git hooks", () => {
+	beforeEach(async () => {
+		await mkdir(hooksDir, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true });
+	});
+
+	describe("generateGitHook", () => {
+		it("marks the script as byteside's", () => {
+			const script = generateGitHook("post-commit");
+			expect(script.startsWith("#!/bin/sh\n")).toBe(true);
+			expect(isBytesideGitHook(script)).toBe(true);
+			expect(isBytesideGitHook(EXISTING_HOOK)).toBe(false);
+		});
+
+		it("runs the chained hook and exits with its status", () => {
+			const script = generateGitHook("pre-push");
+			expect(script).toContain(`pre-push${CHAINED_SUFFIX}`);
+			expect(script).toContain('"$chained" "$@"');
+			expect(script).toContain("exit $status");
+		});
+
+		it("sends states under the git session", () => {
+			expect(generateGitHook("post-commit")).toContain(
+				'byteside trigger success --session git --message "Committed"',
+			);
+			expect(generateGitHook("post-merge")).toContain("byteside trigger success");
+		});
+
+		it("only reports failed pushes and branch checkouts", () => {
+			expect(generateGitHook("pre-push")).toMatch(
+				/\[ "\$status" -eq 0 \] \|\| \(byteside trigger error/,
+			);
+			expect(generateGitHook("post-checkout")).toMatch(
+				/\[ "\$3" = "1" \] && \(byteside trigger thinking/,
+			);
+		});
+
+		it("includes the target server", () => {
+			expect(generateGitHook("post-commit", { port: 4000 })).toContain("--port 4000");
+			expect(generateGitHook("post-commit")).not.toContain("--port");
+		});
+	});
+
+	describe("installGitHooks", () => {
+		it("writes executable hooks", async () => {
+			const result = await installGitHooks(hooksDir);
+			expect(result.success).toBe(true);
+
+			for (const name of GIT_HOOKS) {
+				const path = join(hooksDir, name);
+				expect(isBytesideGitHook(await readFile(path, "utf-8"))).toBe(true);
+				expect((await stat(path)).mode & 0o111).not.toBe(0);
+			}
+		});
+
+		it("creates the hooks directory", async () => {
+			const dir = join(testDir, "missing", "hooks");
+			expect((await installGitHooks(dir)).success).toBe(true);
+			expect(existsSync(join(dir, "post-commit"))).toBe(true);
+		});
+
+		it("chains existing hooks instead of overwriting them", async () => {
+			const path = await writeExistingHook("post-commit");
+
+			const result = await installGitHooks(hooksDir);
+			expect(result.success).toBe(true);
+			expect(result.message).toContain("chaining existing post-commit");
+			expect(await readFile(`${path}${CHAINED_SUFFIX}`, "utf-8")).toBe(EXISTING_HOOK);
+		});
+
+		it("runs the chained hook with git's arguments", async () => {
+			const path = await writeExistingHook("post-commit");
+			await installGitHooks(hooksDir);
+
+			// Without byteside on PATH only the chained hook runs
+			const error = await execFileAsync("sh", [path, "arg"], {
+				env: { PATH: "/usr/bin:/bin" },
+			}).catch((error: { code: number; stdout: string }) => error);
+			expect(error).toMatchObject({ code: 3, stdout: "existing arg\n" });
+		});
+
+		it("refuses to reinstall without force", async () => {
+			await installGitHooks(hooksDir);
+			const result = await installGitHooks(hooksDir);
+			expect(result.success).toBe(false);
+			expect(result.message).toContain("--force");
+
+			expect(
+				(await installGitHooks(hooksDir, { force: true, target: { port: 4000 } })).success,
+			).toBe(true);
+			expect(await readFile(join(hooksDir, "pre-push"), "utf-8")).toContain("--port 4000");
+		});
+
+		it("doesn't chain its own hooks when forced", async () => {
+			await installGitHooks(hooksDir);
+			await installGitHooks(hooksDir, { force: true });
+			expect(existsSync(join(hooksDir, `post-commit${CHAINED_SUFFIX}`))).toBe(false);
+		});
+
+		it("fails when an existing hook can't be chained", async () => {
+			await writeExistingHook("post-merge");
+			await writeExistingHook(`post-merge${CHAINED_SUFFIX}`);
+
+			const result = await installGitHooks(hooksDir);
+			expect(result.success).toBe(false);
+			expect(result.message).toContain("merge them manually");
+			expect(existsSync(join(hooksDir, "post-commit"))).toBe(false);
+		});
+	});
+
+	describe("uninstallGitHooks", () => {
+		it("removes byteside's hooks and restores chained ones", async () => {
+			const path = await writeExistingHook("pre-push");
+			await installGitHooks(hooksDir);
+
+			const result = await uninstallGitHooks(hooksDir);
+			expect(result.success).toBe(true);
+			expect(result.message).toContain("restored pre-push");
+			expect(await readFile(path, "utf-8")).toBe(EXISTING_HOOK);
+			expect(existsSync(`${path}${CHAINED_SUFFIX}`)).toBe(false);
+			expect(existsSync(join(hooksDir, "post-commit"))).toBe(false);
+		});
+
+		it("leaves other hooks alone", async () => {
+			const path = await writeExistingHook("post-checkout");
+
+			const result = await uninstallGitHooks(hooksDir);
+			expect(result.message).toContain("No byteside git hooks");
+			expect(await readFile(path, "utf-8")).toBe(EXISTING_HOOK);
+		});
+	});
+
+	describe("getGitHookStatus", () => {
+		it("reports installed, chained and foreign hooks", async () => {
+			await writeExistingHook("post-commit");
+			await installGitHooks(hooksDir);
+			await uninstallGitHooks(hooksDir);
+			await installGitHooks(hooksDir);
+			await rm(join(hooksDir, "post-merge"));
+			await writeExistingHook("post-merge");
+
+			const statuses = await getGitHookStatus(hooksDir);
+			expect(statuses.find((hook) => hook.name === "post-commit")).toMatchObject({
+				installed: true,
+				chained: true,
+				foreign: false,
+			});
+			expect(statuses.find((hook) => hook.name === "pre-push")).toMatchObject({
+				installed: true,
+				chained: false,
+			});
+			expect(statuses.find((hook) => hook.name === "post-merge")).toMatchObject({
+				installed: false,
+				foreign: true,
+			});
+		});
+	});
+
+	describe("getGitHooksDir", () => {
+		it("returns null outside a git repository", async () => {
+			const dir = await mkdtemp(join(tmpdir(), "byteside-git-"));
+			try {
+				expect(await getGitHooksDir(dir)).toBeNull();
+			} finally {
+				await rm(dir, { recursive: true, force: true });
+			}
+		});
+	});
+});
@@ -0,0 +1,107 @@
+import { PassThrough } from "node:stream";
+import { describe, expect, it } from "vitest";
+import { contextFromHookInput, parseHookInput, readHookInput } from "../src/hook-input";
+
+function createStdin(isTTY = false): NodeJS.ReadStream {
+	const stream = new PassThrough() as unknown as NodeJS.ReadStream;
+	stream.isTTY = isTTY;
+	return stream;
+}
+
+describe("hook input", () => {
+	describe("parseHookInput", () => {
+		it("parses a Claude Code hook payload", () => {
+			const input = parseHookInput(
+				JSON.stringify({ session_id: "abc", hook_event_name: "Stop", cwd: "/project" }),
+			);
+
+			expect(input?.session_id).toBe("abc");
+			expect(input?.hook_event_name).toBe("Stop");
+			expect(input?.cwd).toBe("/project");
+		});
+
+		it("returns null for empty input", () => {
+			expect(parseHookInput("")).toBeNull();
+			expect(parseHookInput("  \n")).toBeNull();
+		});
+
+		it("returns null for invalid JSON", () => {
+			expect(parseHookInput("{ not json")).toBeNull();
+		});
+
+		it("returns null for non-object JSON", () => {
+			expect(parseHookInput("[]")).toBeNull();
+			expect(parseHookInput('"text"')).toBeNull();
+			expect(parseHookInput("null")).toBeNull();
+		});
+	});
+
+	describe("contextFromHookInput", () => {
+		it("extracts tool and file from tool events", () => {
+			const context = contextFromHookInput({
+				hook_event_name: "PreToolUse",
+				tool_name: "Edit",
+				tool_input: { file_path: "/project/src/cli.ts", old_string: "a", new_string: "b" },
+			});
+
+			expect(context).toEqual({ tool: "Edit", file: "/project/src/cli.ts" });
+		});
+
+		it("extracts the bash command", () => {
+			const context = contextFromHookInput({
+				tool_name: "Bash",
+				tool_input: { command: "npm test", description: "Run tests" },
+			});
+
+			expect(context).toEqual({ tool: "Bash", command: "npm test" });
+		});
+
+		it("extracts notification text", () => {
+			const context = contextFromHookInput({
+				hook_event_name: "Notification",
+				message: "Claude is waiting for your input",
+			});
+
+			expect(context).toEqual({ message: "Claude is waiting for your input" });
+		});
+
+		it("never includes prompts", () => {
+			const context = contextFromHookInput({
+				hook_event_name: "UserPromptSubmit",
+				prompt: "my secret plans",
+			});
+
+			expect(context).toBeUndefined();
+		});
+
+		it("ignores malformed tool input", () => {
+			expect(contextFromHookInput({ tool_name: "Bash", tool_input: "ls" } as never)).toEqual({
+				tool: "Bash",
+			});
+		});
+	});
+
+	describe("readHookInput", () => {
+		it("reads and parses piped stdin", async () => {
+			const stdin = createStdin();
+			const promise = readHookInput(stdin);
+			(stdin as unknown as PassThrough).end(JSON.stringify({ session_id: "piped" }));
+
+			const input = await promise;
+
+			expect(input?.session_id).toBe("piped");
+		});
+
+		it("returns null when stdin is a TTY", async () => {
+			const input = await readHookInput(createStdin(true));
+
+			expect(input).toBeNull();
+		});
+
+		it("gives up when stdin never closes", async () => {
+			const input = await readHookInput(createStdin(), 10);
+
+			expect(input).toBeNull();
+		});
+	});
+});
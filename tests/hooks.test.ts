@@ -7,17 +7,29 @@ import {
 	type ClaudeSettings,
 	countBytesideHooks,
 	createBackup,
+	diagnoseHooks,
+	formatClaudeSettings,
 	generateHookConfig,
+	getClaudeSettingsPath,
+	getEffectiveHooks,
 	getGlobalClaudeSettingsPath,
 	getHookStatus,
+	getInstalledTarget,
 	getProjectClaudeSettingsPath,
+	getToolMapping,
+	HOOK_EVENTS,
 	hasBytesideHooks,
 	installHooks,
 	isBytesideHook,
+	isToolFailure,
 	mergeHooks,
 	readClaudeSettings,
 	removeBytesideHooks,
+	repairHooks,
+	stateForHookInput,
+	stateForTool,
 	uninstallHooks,
+	validateToolMapping,
 	writeClaudeSettings,
 } from "../src/hooks";
 
@@ -54,6 +66,10 @@ describe("hooks", () => {
 			expect(isBytesideHook("byteside trigger writing")).toBe(true);
 		});
 
+		it("returns true for byteside hook commands", () => {
+			expect(isBytesideHook("byteside hook PreToolUse")).toBe(true);
+		});
+
 		it("returns false for other commands", () => {
 			expect(isBytesideHook("echo hello")).toBe(false);
 			expect(isBytesideHook("curl http://localhost:3333")).toBe(false);
@@ -72,54 +88,277 @@ describe("hooks", () => {
 			expect(hooks.Stop).toBeDefined();
 		});
 
-		it("generates UserPromptSubmit hook for thinking state", () => {
+		it("generates a single generic hook per event", () => {
 			const hooks = generateHookConfig();
 
-			expect(hooks.UserPromptSubmit).toHaveLength(1);
-			expect(hooks.UserPromptSubmit?.[0].hooks[0].command).toBe("byteside trigger thinking");
+			for (const event of HOOK_EVENTS) {
+				expect(hooks[event]).toHaveLength(1);
+				expect(hooks[event]?.[0].hooks).toEqual([
+					{ type: "command", command: `byteside hook ${event}`, async: true },
+				]);
+			}
+			expect(hooks.PostToolUse?.[0].matcher).toBeUndefined();
 		});
 
-		it("generates PreToolUse hooks for writing tools", () => {
-			const hooks = generateHookConfig();
-			const writingHook = hooks.PreToolUse?.find(
-				(h) => h.hooks[0].command === "byteside trigger writing",
+		it("installs a handler for failed tool calls", () => {
+			expect(generateHookConfig().PostToolUseFailure?.[0].hooks[0]?.command).toBe(
+				"byteside hook PostToolUseFailure",
+			);
+		});
+
+		it("only runs PreToolUse for mapped tools", () => {
+			expect(generateHookConfig().PreToolUse?.[0].matcher).toBe(
+				"Edit|Write|MultiEdit|NotebookEdit|Bash",
 			);
 
-			expect(writingHook).toBeDefined();
-			expect(writingHook?.matcher).toContain("Edit");
-			expect(writingHook?.matcher).toContain("Write");
+			const hooks = generateHookConfig(getToolMapping({ "mcp__.*": "thinking" }));
+			expect(hooks.PreToolUse?.[0].matcher).toBe("mcp__.*|Edit|Write|MultiEdit|NotebookEdit|Bash");
 		});
+	});
 
-		it("generates PreToolUse hooks for bash", () => {
-			const hooks = generateHookConfig();
-			const bashHook = hooks.PreToolUse?.find(
-				(h) => h.hooks[0].command === "byteside trigger bash",
+	describe("server targets", () => {
+		it("embeds the target in every hook command", () => {
+			const hooks = generateHookConfig(undefined, { port: 4000 });
+
+			for (const event of HOOK_EVENTS) {
+				const command = hooks[event]?.[0].hooks[0]?.command ?? "";
+				expect(command).toBe(`byteside hook ${event} --port 4000`);
+				expect(isBytesideHook(command)).toBe(true);
+			}
+		});
+
+		it("reads the installed target back", () => {
+			expect(
+				getInstalledTarget({ hooks: generateHookConfig(undefined, { instance: "a" }) }),
+			).toEqual({
+				instance: "a",
+			});
+			expect(getInstalledTarget({ hooks: generateHookConfig() })).toEqual({});
+			expect(getInstalledTarget(null)).toEqual({});
+		});
+
+		it("installs hooks with the target", async () => {
+			const path = join(testDir, "target-test", ".claude", "settings.json");
+			await rm(dirname(dirname(path)), { recursive: true, force: true });
+
+			await installHooks(path, { target: { url: "http://localhost:4000" } });
+
+			const settings = await readClaudeSettings(path);
+			expect(settings?.hooks?.Stop?.[0]?.hooks[0]?.command).toBe(
+				"byteside hook Stop --url http://localhost:4000",
 			);
+		});
+	});
 
-			expect(bashHook).toBeDefined();
-			expect(bashHook?.matcher).toBe("Bash");
+	describe("getToolMapping", () => {
+		it("returns the built-in mapping by default", () => {
+			expect(getToolMapping()).toEqual([
+				{ pattern: "Edit|Write|MultiEdit|NotebookEdit", state: "writing", source: "default" },
+				{ pattern: "Bash", state: "bash", source: "default" },
+			]);
 		});
 
-		it("generates PostToolUse hook to return to thinking", () => {
-			const hooks = generateHookConfig();
+		it("puts configured entries first and lets them replace built-in ones", () => {
+			const mapping = getToolMapping({ "Read|Grep": "reading", Bash: "thinking" });
 
-			expect(hooks.PostToolUse).toHaveLength(1);
-			expect(hooks.PostToolUse?.[0].matcher).toBe("*");
-			expect(hooks.PostToolUse?.[0].hooks[0].command).toBe("byteside trigger thinking");
+			expect(mapping).toEqual([
+				{ pattern: "Read|Grep", state: "reading", source: "config" },
+				{ pattern: "Bash", state: "thinking", source: "config" },
+				{ pattern: "Edit|Write|MultiEdit|NotebookEdit", state: "writing", source: "default" },
+			]);
 		});
 
-		it("generates Notification hook for waiting state", () => {
-			const hooks = generateHookConfig();
+		it("skips unusable entries", () => {
+			const mapping = getToolMapping({ "(bad": "thinking", Task: 42, WebFetch: "" });
 
-			expect(hooks.Notification).toHaveLength(1);
-			expect(hooks.Notification?.[0].hooks[0].command).toBe("byteside trigger waiting");
+			expect(mapping.every((entry) => entry.source === "default")).toBe(true);
+			expect(getToolMapping("nope")).toEqual(getToolMapping());
 		});
+	});
 
-		it("generates Stop hook for success state", () => {
-			const hooks = generateHookConfig();
+	describe("stateForTool", () => {
+		it("matches whole tool names, first entry wins", () => {
+			const mapping = getToolMapping({ "mcp__github__.*": "reading", "mcp__.*": "thinking" });
+
+			expect(stateForTool("mcp__github__get_issue", mapping)).toBe("reading");
+			expect(stateForTool("mcp__slack__post", mapping)).toBe("thinking");
+			expect(stateForTool("Edit", mapping)).toBe("writing");
+			expect(stateForTool("BashOutput", mapping)).toBeNull();
+		});
+	});
+
+	describe("validateToolMapping", () => {
+		const validStates = ["idle", "thinking", "writing", "bash", "reading"];
+
+		it("accepts entries that reference known states", () => {
+			expect(
+				validateToolMapping({ "Read|Grep": "reading", "mcp__.*": "thinking" }, validStates),
+			).toEqual([]);
+		});
+
+		it("reports invalid patterns, states and unknown states", () => {
+			expect(
+				validateToolMapping({ "(bad": "thinking", Task: 1, WebFetch: "browsing" }, validStates),
+			).toEqual([
+				'hooks.mapping pattern "(bad" is not a valid regular expression',
+				'hooks.mapping["Task"] must be a state name (string)',
+				'hooks.mapping["WebFetch"] references state "browsing", which the avatar doesn\'t define',
+			]);
+		});
 
-			expect(hooks.Stop).toHaveLength(1);
-			expect(hooks.Stop?.[0].hooks[0].command).toBe("byteside trigger success");
+		it("rejects a mapping that isn't an object", () => {
+			expect(validateToolMapping(["Read"], validStates)).toHaveLength(1);
+		});
+	});
+
+	describe("stateForHookInput", () => {
+		it("maps prompts to thinking", () => {
+			expect(stateForHookInput({ hook_event_name: "UserPromptSubmit", prompt: "hi" })).toBe(
+				"thinking",
+			);
+		});
+
+		it("maps writing tools to writing", () => {
+			for (const tool of ["Edit", "Write", "MultiEdit", "NotebookEdit"]) {
+				expect(
+					stateForHookInput({
+						hook_event_name: "PreToolUse",
+						tool_name: tool,
+						tool_input: { file_path: "/project/a.ts" },
+					}),
+				).toBe("writing");
+			}
+		});
+
+		it("maps Bash to bash", () => {
+			expect(
+				stateForHookInput({
+					hook_event_name: "PreToolUse",
+					tool_name: "Bash",
+					tool_input: { command: "npm test" },
+				}),
+			).toBe("bash");
+		});
+
+		it("uses the given tool mapping", () => {
+			const mapping = getToolMapping({ "Read|Grep|Glob": "reading" });
+
+			expect(stateForHookInput({ hook_event_name: "PreToolUse", tool_name: "Grep" }, mapping)).toBe(
+				"reading",
+			);
+		});
+
+		it("leaves the state alone for other tools", () => {
+			expect(stateForHookInput({ hook_event_name: "PreToolUse", tool_name: "Read" })).toBeNull();
+			expect(stateForHookInput({ hook_event_name: "PreToolUse" })).toBeNull();
+		});
+
+		it("returns to thinking after a tool call, or shows errors", () => {
+			expect(
+				stateForHookInput({
+					hook_event_name: "PostToolUse",
+					tool_name: "Bash",
+					tool_response: { stdout: "ok", exit_code: 0 },
+				}),
+			).toBe("thinking");
+			expect(
+				stateForHookInput({
+					hook_event_name: "PostToolUse",
+					tool_name: "Bash",
+					tool_response: { stderr: "boom", exit_code: 1 },
+				}),
+			).toBe("error");
+		});
+
+		it("maps notifications to waiting and stop to success", () => {
+			expect(stateForHookInput({ hook_event_name: "Notification", message: "Waiting" })).toBe(
+				"waiting",
+			);
+			expect(stateForHookInput({ hook_event_name: "Stop" })).toBe("success");
+		});
+
+		it("maps session and compaction events", () => {
+			expect(stateForHookInput({ hook_event_name: "SessionStart", source: "startup" })).toBe(
+				"starting",
+			);
+			expect(stateForHookInput({ hook_event_name: "PreCompact", trigger: "auto" })).toBe(
+				"compacting",
+			);
+			expect(stateForHookInput({ hook_event_name: "SubagentStop" })).toBe("thinking");
+			expect(stateForHookInput({ hook_event_name: "SessionEnd", reason: "exit" })).toBe("idle");
+		});
+
+		it("ignores unknown events", () => {
+			expect(stateForHookInput({ hook_event_name: "SomethingNew" })).toBeNull();
+			expect(stateForHookInput({})).toBeNull();
+		});
+	});
+
+	describe("isToolFailure", () => {
+		const postToolUse = (tool_name: string, tool_response: unknown) => ({
+			session_id: "abc",
+			hook_event_name: "PostToolUse",
+			tool_name,
+			tool_input: {},
+			tool_response,
+		});
+
+		it("detects non-zero Bash exit codes", () => {
+			expect(isToolFailure(postToolUse("Bash", { stdout: "", stderr: "boom", exit_code: 1 }))).toBe(
+				true,
+			);
+			expect(isToolFailure(postToolUse("Bash", { stdout: "", exitCode: 127 }))).toBe(true);
+			expect(isToolFailure(postToolUse("Bash", { stdout: "", returnCode: 2 }))).toBe(true);
+		});
+
+		it("accepts zero Bash exit codes", () => {
+			expect(isToolFailure(postToolUse("Bash", { stdout: "ok", stderr: "", exit_code: 0 }))).toBe(
+				false,
+			);
+		});
+
+		it("detects is_error tool responses", () => {
+			expect(
+				isToolFailure(postToolUse("Edit", { is_error: true, content: "String not found" })),
+			).toBe(true);
+			expect(
+				isToolFailure(
+					postToolUse("mcp__github__create_issue", {
+						isError: true,
+						content: [{ type: "text", text: "Not Found" }],
+					}),
+				),
+			).toBe(true);
+		});
+
+		it("detects success: false and error messages", () => {
+			expect(isToolFailure(postToolUse("Write", { success: false }))).toBe(true);
+			expect(isToolFailure(postToolUse("WebFetch", { error: "Request timed out" }))).toBe(true);
+		});
+
+		it("treats PostToolUseFailure events as failures", () => {
+			expect(isToolFailure({ hook_event_name: "PostToolUseFailure", tool_name: "Bash" })).toBe(
+				true,
+			);
+		});
+
+		it("accepts successful responses", () => {
+			expect(
+				isToolFailure(postToolUse("Write", { filePath: "/project/a.ts", success: true })),
+			).toBe(false);
+			expect(
+				isToolFailure(postToolUse("Read", { file: { filePath: "/project/a.ts", content: "" } })),
+			).toBe(false);
+			expect(
+				isToolFailure(postToolUse("Bash", { stdout: "", stderr: "", interrupted: false })),
+			).toBe(false);
+			expect(isToolFailure(postToolUse("Grep", { error: "" }))).toBe(false);
+		});
+
+		it("ignores payloads without a structured tool_response", () => {
+			expect(isToolFailure(postToolUse("Bash", "exit code 1"))).toBe(false);
+			expect(isToolFailure(postToolUse("Bash", null))).toBe(false);
+			expect(isToolFailure({ hook_event_name: "Stop" })).toBe(false);
 		});
 	});
 
@@ -159,6 +398,37 @@ describe("hooks", () => {
 
 			await expect(readClaudeSettings(settingsPath)).rejects.toThrow();
 		});
+
+		it("reads settings with comments and trailing commas", async () => {
+			await mkdir(dirname(settingsPath), { recursive: true });
+			await writeFile(settingsPath, '{\n  // model\n  "model": "opus", /* inline */\n}');
+
+			expect(await readClaudeSettings(settingsPath)).toEqual({ model: "opus" });
+		});
+
+		it("keeps the formatting of existing files", async () => {
+			await mkdir(dirname(settingsPath), { recursive: true });
+			await writeFile(settingsPath, '{\n  // model\n  "model": "opus"\n}\n');
+
+			await writeClaudeSettings(settingsPath, { model: "sonnet", hooks: { Stop: [] } });
+
+			expect(await readFile(settingsPath, "utf-8")).toBe(
+				'{\n  // model\n  "model": "sonnet",\n  "hooks": {\n    "Stop": []\n  }\n}\n',
+			);
+		});
+	});
+
+	describe("formatClaudeSettings", () => {
+		it("uses tabs for new files", () => {
+			expect(formatClaudeSettings(null, { a: 1 })).toBe('{\n\t"a": 1\n}');
+			expect(formatClaudeSettings("  ", { a: 1 })).toBe('{\n\t"a": 1\n}');
+		});
+
+		it("only changes what differs", () => {
+			const original = '{ "b": 2,\n  "a": 1 }';
+
+			expect(formatClaudeSettings(original, { b: 2, a: 3 })).toBe('{ "b": 2,\n  "a": 3 }');
+		});
 	});
 
 	describe("createBackup", () => {
@@ -241,6 +511,24 @@ describe("hooks", () => {
 
 			expect(result).toEqual(settings);
 		});
+
+		it("handles events byteside doesn't know", () => {
+			const settings: ClaudeSettings = {
+				hooks: {
+					FutureEvent: [
+						{ hooks: [{ type: "command", command: "byteside hook FutureEvent" }] },
+						{ hooks: [{ type: "command", command: "echo future" }] },
+					],
+					SessionStart: [{ hooks: [{ type: "command", command: "byteside hook SessionStart" }] }],
+				},
+			};
+
+			const result = removeBytesideHooks(settings);
+
+			expect(result.hooks).toEqual({
+				FutureEvent: [{ hooks: [{ type: "command", command: "echo future" }] }],
+			});
+		});
 	});
 
 	describe("mergeHooks", () => {
@@ -250,10 +538,22 @@ describe("hooks", () => {
 			const result = mergeHooks(null, bytesideHooks);
 
 			expect(result.hooks?.UserPromptSubmit).toHaveLength(1);
-			expect(result.hooks?.PreToolUse).toHaveLength(2);
+			expect(result.hooks?.PreToolUse).toHaveLength(1);
 			expect(result.hooks?.PostToolUse).toHaveLength(1);
 			expect(result.hooks?.Notification).toHaveLength(1);
 			expect(result.hooks?.Stop).toHaveLength(1);
+			expect(result.hooks?.PreCompact).toHaveLength(1);
+			expect(result.hooks?.SessionStart).toHaveLength(1);
+		});
+
+		it("keeps hooks for events byteside doesn't know", () => {
+			const existing: ClaudeSettings = {
+				hooks: { FutureEvent: [{ hooks: [{ type: "command", command: "echo future" }] }] },
+			};
+
+			const result = mergeHooks(existing, generateHookConfig());
+
+			expect(result.hooks?.["FutureEvent"]).toEqual(existing.hooks?.["FutureEvent"]);
 		});
 
 		it("preserves existing non-byteside hooks", () => {
@@ -266,8 +566,8 @@ describe("hooks", () => {
 
 			const result = mergeHooks(existing, bytesideHooks);
 
-			// Should have custom hook + 2 byteside hooks
-			expect(result.hooks?.PreToolUse).toHaveLength(3);
+			// Should have custom hook + 1 byteside hook
+			expect(result.hooks?.PreToolUse).toHaveLength(2);
 			expect(result.hooks?.PreToolUse?.[0].matcher).toBe("Custom");
 		});
 
@@ -297,8 +597,8 @@ describe("hooks", () => {
 
 			const result = mergeHooks(existing, bytesideHooks);
 
-			// Should have custom hook + 2 new byteside hooks (old one removed)
-			expect(result.hooks?.PreToolUse).toHaveLength(3);
+			// Should have custom hook + 1 new byteside hook (old one removed)
+			expect(result.hooks?.PreToolUse).toHaveLength(2);
 		});
 	});
 
@@ -310,8 +610,8 @@ describe("hooks", () => {
 
 			const count = countBytesideHooks(settings);
 
-			// 3 PreToolUse + 1 PostToolUse + 1 Notification + 1 Stop = 6
-			expect(count).toBe(6);
+			// One per event in HOOK_EVENTS
+			expect(count).toBe(10);
 		});
 
 		it("returns 0 for null settings", () => {
@@ -355,7 +655,7 @@ describe("hooks", () => {
 			expect(result.message).toContain("Installed");
 
 			const settings = await readClaudeSettings(installPath);
-			expect(countBytesideHooks(settings)).toBe(6);
+			expect(countBytesideHooks(settings)).toBe(10);
 		});
 
 		it("fails if hooks already exist without force", async () => {
@@ -404,6 +704,64 @@ describe("hooks", () => {
 			expect(result.success).toBe(false);
 			expect(result.message).toContain("Invalid JSON");
 		});
+
+		it("keeps comments and formatting of the rest of the file", async () => {
+			await mkdir(dirname(installPath), { recursive: true });
+			const original = '{\n  // team defaults\n  "model": "opus",\n  "env": { "A": "1" }\n}\n';
+			await writeFile(installPath, original);
+
+			await installHooks(installPath, { noBackup: true });
+			const content = await readFile(installPath, "utf-8");
+
+			expect(
+				content.startsWith(
+					'{\n  // team defaults\n  "model": "opus",\n  "env": { "A": "1" },\n  "hooks": {\n    "UserPromptSubmit": [',
+				),
+			).toBe(true);
+
+			await uninstallHooks(installPath, { noBackup: true });
+
+			expect(await readFile(installPath, "utf-8")).toBe(original);
+		});
+
+		it.each([
+			[
+				"trailing commas",
+				'{\n\t// My settings\n\t"model": "opus",\n\t"hooks": {\n\t\t"Stop": [\n\t\t\t{ "hooks": [{ "type": "command", "command": "say done" }] }, // mine\n\t\t],\n\t},\n\t"env": { "A": "1" },\n}\n',
+			],
+			[
+				"no trailing commas",
+				'{\n  "hooks": {\n    /* ours */\n    "Stop": [\n      { "hooks": [{ "type": "command", "command": "say done" }] } // mine\n    ]\n  }\n}',
+			],
+		])("gives back the original file on uninstall, with %s", async (_, original) => {
+			await mkdir(dirname(installPath), { recursive: true });
+			await writeFile(installPath, original);
+
+			await installHooks(installPath, { noBackup: true });
+			const installed = await readFile(installPath, "utf-8");
+
+			expect(installed).toContain('"command": "say done" }] }');
+			expect(installed).toMatch(/"say done" \}\] \}, \/\/ mine\r?\n/);
+
+			await uninstallHooks(installPath, { noBackup: true });
+
+			expect(await readFile(installPath, "utf-8")).toBe(original);
+		});
+
+		it("reports the changes without writing on a dry run", async () => {
+			await mkdir(dirname(installPath), { recursive: true });
+			await writeFile(installPath, '{\n\t"model": "opus"\n}');
+
+			const result = await installHooks(installPath, { dryRun: true });
+
+			expect(result.success).toBe(true);
+			expect(result.message).toContain("Would install 10");
+			expect(result.backupPath).toBeUndefined();
+			expect(result.diff?.filter((line) => line.type === "remove")).toEqual([
+				{ type: "remove", text: '\t"model": "opus"' },
+			]);
+			expect(await readFile(installPath, "utf-8")).toBe('{\n\t"model": "opus"\n}');
+		});
 	});
 
 	describe("uninstallHooks", () => {
@@ -472,6 +830,18 @@ describe("hooks", () => {
 			expect(result.success).toBe(true);
 			expect(result.backupPath).toBeDefined();
 		});
+
+		it("reports the changes without writing on a dry run", async () => {
+			await installHooks(uninstallPath);
+			const before = await readFile(uninstallPath, "utf-8");
+
+			const result = await uninstallHooks(uninstallPath, { dryRun: true });
+
+			expect(result.success).toBe(true);
+			expect(result.message).toContain("Would remove");
+			expect(result.diff?.some((line) => line.type === "remove")).toBe(true);
+			expect(await readFile(uninstallPath, "utf-8")).toBe(before);
+		});
 	});
 
 	describe("getHookStatus", () => {
@@ -496,7 +866,7 @@ describe("hooks", () => {
 			const status = await getHookStatus(statusPath);
 
 			expect(status.installed).toBe(true);
-			expect(status.hookCount).toBe(6);
+			expect(status.hookCount).toBe(10);
 			expect(status.exists).toBe(true);
 		});
 
@@ -515,4 +885,142 @@ describe("hooks", () => {
 			expect(status.exists).toBe(true);
 		});
 	});
+
+	describe("getClaudeSettingsPath", () => {
+		it("maps scopes to settings files", () => {
+			expect(getClaudeSettingsPath("global")).toBe(getGlobalClaudeSettingsPath());
+			expect(getClaudeSettingsPath("project")).toBe(getProjectClaudeSettingsPath());
+			expect(getClaudeSettingsPath("local")).toBe(
+				join(process.cwd(), ".claude", "settings.local.json"),
+			);
+		});
+	});
+
+	describe("getEffectiveHooks", () => {
+		it("lists every handled event with the scopes that install it", () => {
+			const effective = getEffectiveHooks({ local: { hooks: generateHookConfig() } });
+
+			expect(effective.map(({ event }) => event)).toEqual([...HOOK_EVENTS]);
+			expect(effective.every(({ scopes, count }) => scopes.join() === "local" && count === 1)).toBe(
+				true,
+			);
+		});
+
+		it("counts hooks installed in several scopes", () => {
+			const effective = getEffectiveHooks({
+				global: { hooks: generateHookConfig() },
+				project: { hooks: { Stop: generateHookConfig().Stop } },
+				local: null,
+			});
+
+			expect(effective.find(({ event }) => event === "Stop")).toEqual({
+				event: "Stop",
+				scopes: ["global", "project"],
+				count: 2,
+			});
+			expect(effective.find(({ event }) => event === "PreToolUse")?.count).toBe(1);
+		});
+
+		it("reports events nothing installs", () => {
+			const effective = getEffectiveHooks({});
+
+			expect(effective.every(({ scopes, count }) => scopes.length === 0 && count === 0)).toBe(true);
+		});
+	});
+
+	describe("diagnoseHooks", () => {
+		it("reports nothing for an up-to-date installation", () => {
+			expect(diagnoseHooks({ hooks: generateHookConfig() })).toEqual([]);
+		});
+
+		it("reports nothing when byteside isn't installed", () => {
+			expect(diagnoseHooks(null)).toEqual([]);
+			expect(
+				diagnoseHooks({
+					hooks: { Stop: [{ hooks: [{ type: "command", command: "echo done" }] }] },
+				}),
+			).toEqual([]);
+		});
+
+		it("reports missing events and legacy trigger hooks", () => {
+			const issues = diagnoseHooks({
+				hooks: {
+					PreToolUse: [
+						{
+							matcher: "Edit|Write",
+							hooks: [{ type: "command", command: "byteside trigger writing" }],
+						},
+						{ matcher: "Bash", hooks: [{ type: "command", command: "byteside trigger bash" }] },
+					],
+				},
+			});
+
+			expect(
+				issues.filter((issue) => issue.kind === "missing").map((issue) => issue.event),
+			).toEqual(HOOK_EVENTS.filter((event) => event !== "PreToolUse"));
+			expect(issues).toContainEqual(
+				expect.objectContaining({ event: "PreToolUse", kind: "duplicate" }),
+			);
+			expect(issues).toContainEqual(
+				expect.objectContaining({ event: "PreToolUse", kind: "outdated" }),
+			);
+		});
+
+		it("reports a matcher that no longer matches the tool mapping", () => {
+			const installed = generateHookConfig();
+			const expected = generateHookConfig(getToolMapping({ "mcp__.*": "thinking" }));
+
+			expect(diagnoseHooks({ hooks: installed }, expected)).toEqual([
+				{
+					event: "PreToolUse",
+					kind: "outdated",
+					message:
+						'found "byteside hook PreToolUse" (matcher "Edit|Write|MultiEdit|NotebookEdit|Bash"), expected "byteside hook PreToolUse" (matcher "mcp__.*|Edit|Write|MultiEdit|NotebookEdit|Bash")',
+				},
+			]);
+		});
+
+		it("reports duplicates and hooks for events byteside doesn't handle", () => {
+			const hooks = generateHookConfig();
+			hooks.Stop = [...(hooks.Stop ?? []), ...(hooks.Stop ?? [])];
+			hooks["SomethingOld"] = [
+				{ hooks: [{ type: "command", command: "byteside hook SomethingOld", async: true }] },
+			];
+
+			expect(diagnoseHooks({ hooks }).map(({ event, kind }) => ({ event, kind }))).toEqual([
+				{ event: "Stop", kind: "duplicate" },
+				{ event: "SomethingOld", kind: "unexpected" },
+			]);
+		});
+	});
+
+	describe("repairHooks", () => {
+		const repairPath = join(testDir, "repair-test", ".claude", "settings.json");
+
+		beforeEach(async () => {
+			await rm(join(testDir, "repair-test"), { recursive: true, force: true });
+		});
+
+		it("replaces drifted hooks, keeps other hooks and creates a backup", async () => {
+			await mkdir(dirname(repairPath), { recursive: true });
+			await writeClaudeSettings(repairPath, {
+				hooks: {
+					PreToolUse: [
+						{ matcher: "Bash", hooks: [{ type: "command", command: "byteside trigger bash" }] },
+						{ hooks: [{ type: "command", command: "echo mine" }] },
+					],
+				},
+			});
+
+			const result = await repairHooks(repairPath);
+
+			expect(result.success).toBe(true);
+			expect(result.message).toContain("Repaired");
+			expect(result.backupPath).toBeDefined();
+
+			const settings = await readClaudeSettings(repairPath);
+			expect(diagnoseHooks(settings)).toEqual([]);
+			expect(settings?.hooks?.PreToolUse?.[0]?.hooks[0]?.command).toBe("echo mine");
+		});
+	});
 });
@@ -0,0 +1,172 @@
+import { existsSync } from "node:fs";
+import { mkdir, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+	findInstanceForPath,
+	formatHookTarget,
+	type InstanceInfo,
+	isProcessAlive,
+	listInstances,
+	parseHookTarget,
+	registerInstance,
+	resolveServerUrl,
+	unregisterInstance,
+} from "../src/instances";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const testDir = join(__dirname, ".test-instances");
+
+// Above the Linux pid limit, so never a running process
+const DEAD_PID = 99_999_999;
+
+function instance(overrides: Partial<InstanceInfo> = {}): InstanceInfo {
+	return {
+		name: "project-a",
+		port: 4000,
+		pid: process.pid,
+		cwd: "/projects/a",
+		avatar: "default",
+		startedAt: 1000,
+		...overrides,
+	};
+}
+
+describe("instances", () => {
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true });
+	});
+
+	describe("registry", () => {
+		it("registers and lists running instances", async () => {
+			await registerInstance(instance({ port: 4000, startedAt: 2000 }), testDir);
+			await registerInstance(instance({ name: "project-b", port: 4001, startedAt: 1000 }), testDir);
+
+			const instances = await listInstances(testDir);
+
+			expect(instances.map((i) => i.name)).toEqual(["project-b", "project-a"]);
+		});
+
+		it("prunes entries of exited processes and unreadable entries", async () => {
+			await registerInstance(instance({ pid: DEAD_PID }), testDir);
+			await writeFile(join(testDir, "4002.json"), "not json");
+
+			expect(await listInstances(testDir)).toEqual([]);
+			expect(existsSync(join(testDir, "4000.json"))).toBe(false);
+			expect(existsSync(join(testDir, "4002.json"))).toBe(false);
+		});
+
+		it("returns an empty list without a registry", async () => {
+			expect(await listInstances(testDir)).toEqual([]);
+		});
+
+		it("only unregisters entries owned by the process", async () => {
+			await registerInstance(instance({ port: 4000 }), testDir);
+			await registerInstance(instance({ port: 4001, pid: DEAD_PID }), testDir);
+
+			unregisterInstance(4000, process.pid, testDir);
+			unregisterInstance(4001, process.pid, testDir);
+
+			expect(existsSync(join(testDir, "4000.json"))).toBe(false);
+			expect(existsSync(join(testDir, "4001.json"))).toBe(true);
+		});
+
+		it("detects whether a process is alive", () => {
+			expect(isProcessAlive(process.pid)).toBe(true);
+			expect(isProcessAlive(DEAD_PID)).toBe(false);
+		});
+	});
+
+	describe("findInstanceForPath", () => {
+		const instances = [
+			instance({ name: "root", cwd: "/projects" }),
+			instance({ name: "a", cwd: "/projects/a" }),
+			instance({ name: "ab", cwd: "/projects/ab" }),
+		];
+
+		it("picks the closest directory containing the path", () => {
+			expect(findInstanceForPath(instances, "/projects/a/src")?.name).toBe("a");
+			expect(findInstanceForPath(instances, "/projects/a")?.name).toBe("a");
+			expect(findInstanceForPath(instances, "/projects/abc")?.name).toBe("root");
+		});
+
+		it("returns null outside every instance directory", () => {
+			expect(findInstanceForPath(instances, "/elsewhere")).toBeNull();
+		});
+	});
+
+	describe("hook targets", () => {
+		it("formats the most specific target", () => {
+			expect(formatHookTarget({})).toBe("");
+			expect(formatHookTarget({ instance: "a" })).toBe("--instance a");
+			expect(formatHookTarget({ port: 4000, instance: "a" })).toBe("--port 4000");
+			expect(formatHookTarget({ url: "http://10.0.0.2:3333", port: 4000 })).toBe(
+				"--url http://10.0.0.2:3333",
+			);
+		});
+
+		it("reads targets back from hook commands", () => {
+			expect(parseHookTarget("byteside hook Stop --port 4000")).toEqual({ port: 4000 });
+			expect(parseHookTarget("byteside hook Stop --url http://host:3333")).toEqual({
+				url: "http://host:3333",
+			});
+			expect(parseHookTarget("byteside hook Stop --instance=a")).toEqual({ instance: "a" });
+			expect(parseHookTarget("byteside hook Stop")).toEqual({});
+		});
+	});
+
+	describe("resolveServerUrl", () => {
+		it("prefers an explicit url or port", async () => {
+			expect(await resolveServerUrl({ url: "http://host:3333/" }, "/", 3333, testDir)).toBe(
+				"http://host:3333",
+			);
+			expect(await resolveServerUrl({ port: 4000 }, "/", 3333, testDir)).toBe(
+				"http://localhost:4000",
+			);
+		});
+
+		it("looks up named instances", async () => {
+			await registerInstance(instance({ name: "a", port: 4000 }), testDir);
+
+			expect(await resolveServerUrl({ instance: "a" }, "/", 3333, testDir)).toBe(
+				"http://localhost:4000",
+			);
+			expect(await resolveServerUrl({ instance: "b" }, "/", 3333, testDir)).toBeNull();
+		});
+
+		it("discovers the instance for the project directory", async () => {
+			await mkdir(testDir, { recursive: true });
+			await registerInstance(instance({ name: "a", port: 4000, cwd: "/projects/a" }), testDir);
+			await registerInstance(instance({ name: "b", port: 4001, cwd: "/projects/b" }), testDir);
+
+			expect(await resolveServerUrl({}, "/projects/b/src", 3333, testDir)).toBe(
+				"http://localhost:4001",
+			);
+			// No match: the configured port
+			expect(await resolveServerUrl({}, "/elsewhere", 3333, testDir)).toBe("http://localhost:3333");
+		});
+
+		it("falls back to the only running instance", async () => {
+			await registerInstance(instance({ port: 4000, cwd: "/projects/a" }), testDir);
+
+			expect(await resolveServerUrl({}, "/elsewhere", 3333, testDir)).toBe("http://localhost:4000");
+		});
+
+		it("only loads the default port when no instance matches", async () => {
+			const loadPort = vi.fn(async () => 3334);
+			await registerInstance(instance({ port: 4000, cwd: "/projects/a" }), testDir);
+
+			expect(await resolveServerUrl({}, "/projects/a", loadPort, testDir)).toBe(
+				"http://localhost:4000",
+			);
+			expect(loadPort).not.toHaveBeenCalled();
+
+			await registerInstance(instance({ port: 4001, cwd: "/projects/b" }), testDir);
+			expect(await resolveServerUrl({}, "/elsewhere", loadPort, testDir)).toBe(
+				"http://localhost:3334",
+			);
+		});
+	});
+});
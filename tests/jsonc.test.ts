@@ -0,0 +1,167 @@
+import { describe, expect, it } from "vitest";
+import { isDeepEqual, parseJsonc, updateJsonc } from "../src/jsonc";
+
+describe("jsonc", () => {
+	describe("parseJsonc", () => {
+		it("parses plain JSON", () => {
+			expect(parseJsonc('{"a": [1, -2.5e3, true, null, "x\\"y"]}')).toEqual({
+				a: [1, -2500, true, null, 'x"y'],
+			});
+		});
+
+		it("allows comments and trailing commas", () => {
+			const text = '// head\n{\n\t"a": 1, /* inline */\n\t"b": [2, 3,],\n}\n';
+
+			expect(parseJsonc(text)).toEqual({ a: 1, b: [2, 3] });
+		});
+
+		it("keeps comment markers inside strings", () => {
+			expect(parseJsonc('{"url": "http://x/*y*/"}')).toEqual({ url: "http://x/*y*/" });
+		});
+
+		it("keeps __proto__ as an ordinary key", () => {
+			const value = parseJsonc('{"__proto__": {"polluted": true}}') as Record<string, unknown>;
+
+			expect(Object.keys(value)).toEqual(["__proto__"]);
+			expect(({} as Record<string, unknown>)["polluted"]).toBeUndefined();
+		});
+
+		it("parses escaped quotes in keys and a byte order mark", () => {
+			expect(parseJsonc('\uFEFF{"say \\"hi\\"": 1}')).toEqual({ 'say "hi"': 1 });
+		});
+
+		it.each([
+			["", "ValueExpected"],
+			["{ invalid }", "InvalidSymbol"],
+			['{"a": 1 "b": 2}', "CommaExpected"],
+			['{"a": 1} extra', "InvalidSymbol"],
+			["/* open", "UnexpectedEndOfComment"],
+			['"open', "UnexpectedEndOfString"],
+		])("rejects %j", (text, message) => {
+			expect(() => parseJsonc(text)).toThrow(SyntaxError);
+			expect(() => parseJsonc(text)).toThrow(message);
+		});
+	});
+
+	describe("isDeepEqual", () => {
+		it("ignores key order", () => {
+			expect(isDeepEqual({ a: 1, b: [1, { c: 2 }] }, { b: [1, { c: 2 }], a: 1 })).toBe(true);
+			expect(isDeepEqual({ a: 1 }, { a: 1, b: undefined })).toBe(false);
+			expect(isDeepEqual([1, 2], [2, 1])).toBe(false);
+		});
+	});
+
+	describe("updateJsonc", () => {
+		it("returns the text unchanged when nothing differs", () => {
+			const text = '{  "a" :1 , // c\n"b":[ ] }';
+
+			expect(updateJsonc(text, { b: [], a: 1 })).toBe(text);
+		});
+
+		it("replaces changed values in place", () => {
+			expect(updateJsonc('{\n  "a": 1, // one\n  "b": 2\n}', { a: 10, b: 2 })).toBe(
+				'{\n  "a": 10, // one\n  "b": 2\n}',
+			);
+		});
+
+		it("adds properties with the file's indentation", () => {
+			expect(updateJsonc('{\n    "a": 1\n}', { a: 1, b: { c: true } })).toBe(
+				'{\n    "a": 1,\n    "b": {\n        "c": true\n    }\n}',
+			);
+		});
+
+		it("keeps comments when adding after them", () => {
+			expect(updateJsonc('{\n\t"a": 1 // one\n}', { a: 1, b: 2 })).toBe(
+				'{\n\t"a": 1,\n\t"b": 2 // one\n}',
+			);
+		});
+
+		it("keeps trailing commas", () => {
+			expect(updateJsonc('{\n\t"a": 1,\n}', { a: 1, b: 2 })).toBe('{\n\t"a": 1,\n\t"b": 2,\n}');
+		});
+
+		it("fills empty objects and arrays", () => {
+			expect(updateJsonc('{\n\t"a": []\n}', { a: [1] })).toBe('{\n\t"a": [\n\t\t1\n\t]\n}');
+			expect(updateJsonc('{\n\t"a": {}\n}', { a: { b: 1 } })).toBe(
+				'{\n\t"a": {\n\t\t"b": 1\n\t}\n}',
+			);
+		});
+
+		it("removes properties with their lines", () => {
+			expect(updateJsonc('{\n\t"a": 1,\n\t"b": 2,\n\t"c": 3\n}', { a: 1, c: 3 })).toBe(
+				'{\n\t"a": 1,\n\t"c": 3\n}',
+			);
+			expect(updateJsonc('{\n\t"a": 1,\n\t"b": 2\n}', { a: 1 })).toBe('{\n\t"a": 1\n}');
+		});
+
+		it("removes properties from single-line objects", () => {
+			expect(updateJsonc('{"a": 1, "b": 2, "c": 3}', { a: 1, c: 3 })).toBe('{"a": 1, "c": 3}');
+			expect(updateJsonc('{"a": 1, "b": 2}', { a: 1 })).toBe('{"a": 1}');
+			expect(updateJsonc('{"a": 1}', {})).toBe("{}");
+		});
+
+		it("inserts and removes array items without touching the others", () => {
+			const text = '[\n  "a", // first\n  "c"\n]';
+
+			expect(updateJsonc(text, ["a", "b", "c"])).toBe('[\n  "a", // first\n  "b",\n  "c"\n]');
+			expect(updateJsonc(text, ["c"])).toBe('[\n  "c"\n]');
+		});
+
+		it.each([
+			["[\n\t1, // one\n\t2 /* two */\n]", [1, 2, { a: [3] }]],
+			['{\n  "a": [\n    1,\n    2, // two\n  ],\n}', { a: [1, 2, 3, 4] }],
+			['{\r\n\t"a": [\r\n\t\t1 // one\r\n\t]\r\n}', { a: [1, "b"] }],
+			["[1, 2]", [1, 2, 3]],
+		])("gives back %j after adding and removing items", (text, target) => {
+			const updated = updateJsonc(text, target);
+
+			expect(parseJsonc(updated)).toEqual(target);
+			expect(updateJsonc(updated, parseJsonc(text))).toBe(text);
+		});
+
+		it("removes items from single-line arrays with their separator", () => {
+			expect(updateJsonc("[1, 2, 3]", [1, 2])).toBe("[1, 2]");
+			expect(updateJsonc("[1, 2, 3,]", [2, 3])).toBe("[2, 3,]");
+		});
+
+		it("puts added items on lines of their own", () => {
+			expect(updateJsonc("[\n\t1 // one\n]", [1, { a: 2 }])).toBe(
+				'[\n\t1, // one\n\t{\n\t\t"a": 2\n\t}\n]',
+			);
+			expect(updateJsonc("[\n\t1, // one\n]", [1, 2])).toBe("[\n\t1, // one\n\t2,\n]");
+		});
+
+		it("keeps CRLF line endings", () => {
+			expect(updateJsonc('{\r\n\t"a": 1\r\n}', { a: 1, b: [2] })).toBe(
+				'{\r\n\t"a": 1,\r\n\t"b": [\r\n\t\t2\r\n\t]\r\n}',
+			);
+		});
+
+		it("keeps comments inside arrays", () => {
+			const text = '{\n\t"a": [\n\t\t// first\n\t\t1,\n\t\t/* second */ 2\n\t]\n}';
+
+			expect(updateJsonc(text, { a: [1, 3] })).toBe(
+				'{\n\t"a": [\n\t\t// first\n\t\t1,\n\t\t/* second */ 3\n\t]\n}',
+			);
+		});
+
+		it("updates documents with trailing commas in arrays", () => {
+			expect(updateJsonc('{\n\t"a": [1, 2,],\n}', { a: [1, 3] })).toBe('{\n\t"a": [1, 3,],\n}');
+		});
+
+		it("changes values under keys with escaped quotes", () => {
+			expect(updateJsonc('{"say \\"hi\\"": 1}', { 'say "hi"': 2 })).toBe('{"say \\"hi\\"": 2}');
+		});
+
+		it("removes values from CRLF documents", () => {
+			expect(updateJsonc('{\r\n\t"a": 1,\r\n\t"b": 2\r\n}', { a: 1 })).toBe('{\r\n\t"a": 1\r\n}');
+		});
+
+		it("produces text that parses to the target", () => {
+			const text = '{\n  // settings\n  "x": [1, {"y": 2}, 3],\n  "z": "keep"\n}\n';
+			const target = { z: "keep", x: [{ y: 3 }, 3, 4], w: null };
+
+			expect(parseJsonc(updateJsonc(text, target))).toEqual(target);
+		});
+	});
+});
@@ -4,6 +4,7 @@ import { fileURLToPath } from "node:url";
 import { afterAll, beforeAll, describe, expect, it } from "vitest";
 import {
 	type AvatarManifest,
+	getFallbackChain,
 	getStateConfig,
 	parseManifest,
 	validateAvatar,
@@ -319,6 +320,85 @@ describe("manifest validation", () => {
 				expect(result.manifest?.states.dancing).toBeDefined();
 				expect(result.manifest?.states.sleeping).toBeDefined();
 			});
+
+			it("warns about custom states without a fallback", () => {
+				const manifest = {
+					...validManifest,
+					states: { ...validManifest.states, dancing: { file: "dancing.webm" } },
+				};
+				const result = validateManifest(manifest);
+
+				expect(result.valid).toBe(true);
+				expect(result.warnings).toContainEqual(expect.stringContaining("dancing"));
+			});
+
+			it("allows file-less states that declare a fallback", () => {
+				const manifest = {
+					...validManifest,
+					states: {
+						...validManifest.states,
+						compacting: { fallback: "thinking" },
+						reviewing: { file: "reviewing.webm", fallback: "compacting" },
+					},
+				};
+				const result = validateManifest(manifest);
+
+				expect(result.valid).toBe(true);
+				expect(result.warnings).toEqual([]);
+			});
+
+			it("rejects states with neither file nor fallback", () => {
+				const manifest = {
+					...validManifest,
+					states: { ...validManifest.states, compacting: { duration: 1000 } },
+				};
+				const result = validateManifest(manifest);
+
+				expect(result.valid).toBe(false);
+				expect(result.errors).toContainEqual(expect.stringContaining('State "compacting"'));
+			});
+
+			it.each(["readingDocs", "2fast", "deep thought"])(
+				"rejects the state name %j, which byteside trigger can't send",
+				(name) => {
+					const manifest = {
+						...validManifest,
+						states: { ...validManifest.states, [name]: { fallback: "thinking" } },
+					};
+					const result = validateManifest(manifest);
+
+					expect(result.valid).toBe(false);
+					expect(result.errors).toContainEqual(
+						expect.stringContaining(`State "${name}" must start with a lowercase letter`),
+					);
+				},
+			);
+
+			it("rejects fallbacks to undefined states", () => {
+				const manifest = {
+					...validManifest,
+					states: { ...validManifest.states, compacting: { fallback: "pondering" } },
+				};
+				const result = validateManifest(manifest);
+
+				expect(result.valid).toBe(false);
+				expect(result.errors).toContainEqual(expect.stringContaining("pondering"));
+			});
+
+			it("rejects fallback loops", () => {
+				const manifest = {
+					...validManifest,
+					states: {
+						...validManifest.states,
+						compacting: { fallback: "reviewing" },
+						reviewing: { fallback: "compacting" },
+					},
+				};
+				const result = validateManifest(manifest);
+
+				expect(result.valid).toBe(false);
+				expect(result.errors).toContainEqual(expect.stringContaining("loop"));
+			});
 		});
 
 		describe("error collection", () => {
@@ -383,6 +463,58 @@ describe("manifest validation", () => {
 
 			expect(config).toEqual({ file: "dancing.webm" });
 		});
+
+		it("follows the fallback chain to a state with a file", () => {
+			const manifestWithAlias: AvatarManifest = {
+				...validManifest,
+				states: {
+					...validManifest.states,
+					compacting: { fallback: "reviewing" },
+					reviewing: { fallback: "thinking" },
+				},
+			};
+			const config = getStateConfig(manifestWithAlias, "compacting");
+
+			expect(config).toEqual({ file: "thinking.webm" });
+		});
+	});
+
+	describe("getFallbackChain", () => {
+		it("ends with idle", () => {
+			expect(getFallbackChain(validManifest, "thinking")).toEqual(["thinking", "idle"]);
+			expect(getFallbackChain(validManifest, "idle")).toEqual(["idle"]);
+		});
+
+		it("lists each fallback in order", () => {
+			const manifest: AvatarManifest = {
+				...validManifest,
+				states: {
+					...validManifest.states,
+					compacting: { fallback: "reviewing" },
+					reviewing: { file: "reviewing.webm", fallback: "thinking" },
+				},
+			};
+
+			expect(getFallbackChain(manifest, "compacting")).toEqual([
+				"compacting",
+				"reviewing",
+				"thinking",
+				"idle",
+			]);
+		});
+
+		it("stops at a loop", () => {
+			const manifest: AvatarManifest = {
+				...validManifest,
+				states: {
+					...validManifest.states,
+					a: { fallback: "b" },
+					b: { fallback: "a" },
+				},
+			};
+
+			expect(getFallbackChain(manifest, "a")).toEqual(["a", "b", "idle"]);
+		});
 	});
 
 	describe("validateAvatarFiles", () => {
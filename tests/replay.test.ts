@@ -0,0 +1,151 @@
+import { rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { loadTimeline, parseSpeed, ReplayPlayer } from "../src/replay";
+import type { StateHistoryEntry } from "../src/types";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const testFile = join(__dirname, ".test-replay.jsonl");
+
+function timeline(...offsets: number[]): StateHistoryEntry[] {
+	return offsets.map((offset, i) => ({
+		state: i % 2 === 0 ? "thinking" : "writing",
+		previous: "idle",
+		timestamp: 10_000 + offset,
+		source: "trigger",
+	}));
+}
+
+describe("replay", () => {
+	describe("loadTimeline", () => {
+		afterAll(async () => {
+			await rm(testFile, { force: true });
+		});
+
+		it("keeps triggers in timestamp order and skips timer-driven entries", async () => {
+			await writeFile(
+				testFile,
+				[
+					'{"state":"writing","timestamp":3000,"source":"trigger"}',
+					'{"state":"thinking","timestamp":1000}',
+					'{"state":"idle","timestamp":4000,"source":"transition"}',
+					'{"state":"bash","timestamp":2000,"source":"spool"}',
+					"not json",
+					"",
+					'{"state":"idle","timestamp":5000,"source":"timeout"}',
+				].join("\n"),
+			);
+
+			const entries = await loadTimeline(testFile);
+
+			expect(entries.map((e) => [e.state, e.timestamp])).toEqual([
+				["thinking", 1000],
+				["bash", 2000],
+				["writing", 3000],
+			]);
+		});
+	});
+
+	describe("parseSpeed", () => {
+		it("parses factors with or without x", () => {
+			expect(parseSpeed("4x")).toBe(4);
+			expect(parseSpeed("4")).toBe(4);
+			expect(parseSpeed("0.5x")).toBe(0.5);
+			expect(parseSpeed("2X")).toBe(2);
+		});
+
+		it("rejects zero and garbage", () => {
+			expect(parseSpeed("0x")).toBeNull();
+			expect(parseSpeed("fast")).toBeNull();
+			expect(parseSpeed("-2x")).toBeNull();
+		});
+	});
+
+	describe("ReplayPlayer", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("sends entries with their original spacing", async () => {
+			const send = vi.fn();
+			const player = new ReplayPlayer(timeline(0, 1000, 3000), { send });
+
+			player.start();
+			await vi.advanceTimersByTimeAsync(0);
+			expect(send).toHaveBeenCalledTimes(1);
+
+			await vi.advanceTimersByTimeAsync(999);
+			expect(send).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(1);
+			expect(send).toHaveBeenCalledTimes(2);
+
+			await vi.advanceTimersByTimeAsync(2000);
+			expect(send).toHaveBeenCalledTimes(3);
+			await expect(player.done).resolves.toBeUndefined();
+			expect(player.position).toEqual({ sent: 3, total: 3 });
+		});
+
+		it("scales the spacing by the speed factor", async () => {
+			const send = vi.fn();
+			const player = new ReplayPlayer(timeline(0, 4000), { send, speed: 4 });
+
+			player.start();
+			await vi.advanceTimersByTimeAsync(1000);
+
+			expect(send).toHaveBeenCalledTimes(2);
+		});
+
+		it("pauses and resumes with the remaining delay", async () => {
+			const send = vi.fn();
+			const player = new ReplayPlayer(timeline(0, 1000), { send });
+
+			player.start();
+			await vi.advanceTimersByTimeAsync(400);
+			player.pause();
+			await vi.advanceTimersByTimeAsync(5000);
+			expect(send).toHaveBeenCalledTimes(1);
+
+			player.resume();
+			await vi.advanceTimersByTimeAsync(599);
+			expect(send).toHaveBeenCalledTimes(1);
+			await vi.advanceTimersByTimeAsync(1);
+			expect(send).toHaveBeenCalledTimes(2);
+		});
+
+		it("steps through entries while paused", async () => {
+			const send = vi.fn();
+			const player = new ReplayPlayer(timeline(0, 60_000, 120_000), { send });
+
+			player.start();
+			await vi.advanceTimersByTimeAsync(0);
+			player.pause();
+
+			await player.step();
+			expect(send).toHaveBeenCalledTimes(2);
+			expect(send).toHaveBeenLastCalledWith(expect.objectContaining({ state: "writing" }), 1);
+
+			await player.step();
+			expect(send).toHaveBeenCalledTimes(3);
+			await expect(player.done).resolves.toBeUndefined();
+		});
+
+		it("stops without sending the rest", async () => {
+			const send = vi.fn();
+			const player = new ReplayPlayer(timeline(0, 1000, 2000), { send });
+
+			player.start();
+			await vi.advanceTimersByTimeAsync(0);
+			player.stop();
+			await vi.advanceTimersByTimeAsync(5000);
+
+			expect(send).toHaveBeenCalledTimes(1);
+			expect(player.position).toEqual({ sent: 1, total: 3 });
+		});
+	});
+});
@@ -0,0 +1,146 @@
+import { rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, describe, expect, it } from "vitest";
+import {
+	DEFAULT_HOLD_MS,
+	loadScenario,
+	PRESET_SCENARIOS,
+	scenarioTimeline,
+	validateScenario,
+} from "../src/scenario";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const testFile = join(__dirname, ".test-scenario.json");
+
+describe("scenario", () => {
+	describe("validateScenario", () => {
+		it("accepts a scenario object", () => {
+			const result = validateScenario({
+				name: "quick",
+				steps: [{ state: "thinking", holdMs: 500 }, { state: "success" }],
+			});
+
+			expect(result.valid).toBe(true);
+			expect(result.scenario?.name).toBe("quick");
+			expect(result.scenario?.steps).toHaveLength(2);
+		});
+
+		it("accepts a bare array of steps and uses the fallback name", () => {
+			const result = validateScenario([{ state: "writing" }], "steps.json");
+
+			expect(result.valid).toBe(true);
+			expect(result.scenario?.name).toBe("steps.json");
+		});
+
+		it("accepts custom state names", () => {
+			expect(validateScenario([{ state: "compacting" }]).valid).toBe(true);
+		});
+
+		it("rejects a scenario without steps", () => {
+			expect(validateScenario({ name: "empty", steps: [] }).errors).toContain(
+				'Scenario must have a non-empty "steps" array',
+			);
+			expect(validateScenario("nope").valid).toBe(false);
+		});
+
+		it("reports invalid steps", () => {
+			const result = validateScenario([
+				{ holdMs: 100 },
+				{ state: "writing", holdMs: -1 },
+				{ state: "bash", context: { tool: 1 } },
+				"idle",
+			]);
+
+			expect(result.valid).toBe(false);
+			expect(result.errors).toEqual([
+				'Step 1 must have a "state" property (string)',
+				"Step 2.holdMs must be a non-negative number",
+				"Step 3.context must only contain tool, file, command or message strings",
+				"Step 4 must be an object",
+			]);
+		});
+	});
+
+	describe("loadScenario", () => {
+		afterEach(async () => {
+			await rm(testFile, { force: true });
+		});
+
+		it("loads presets by name", async () => {
+			for (const name of ["typical-edit-loop", "failing-tests", "long-wait"]) {
+				const result = await loadScenario(name);
+				expect(result.valid).toBe(true);
+				expect(result.scenario).toBe(PRESET_SCENARIOS[name]);
+			}
+		});
+
+		it("loads and validates a scenario file", async () => {
+			await writeFile(testFile, JSON.stringify({ steps: [{ state: "thinking" }] }));
+
+			const result = await loadScenario(testFile);
+			expect(result.valid).toBe(true);
+			expect(result.scenario?.name).toBe(testFile);
+		});
+
+		it("reports invalid JSON", async () => {
+			await writeFile(testFile, "{ steps: ");
+
+			const result = await loadScenario(testFile);
+			expect(result.valid).toBe(false);
+			expect(result.errors[0]).toMatch(/^Invalid JSON/);
+		});
+
+		it("lists presets for an unknown name", async () => {
+			const result = await loadScenario("no-such-scenario");
+
+			expect(result.valid).toBe(false);
+			expect(result.errors[0]).toContain("typical-edit-loop");
+		});
+
+		it.each(["toString", "constructor", "__proto__"])(
+			"doesn't take the inherited %s for a preset",
+			async (name) => {
+				const result = await loadScenario(name);
+
+				expect(result.valid).toBe(false);
+				expect(result.errors[0]).toContain(`Unknown scenario "${name}"`);
+			},
+		);
+	});
+
+	describe("scenarioTimeline", () => {
+		it("spaces entries by each step's hold time", () => {
+			const timeline = scenarioTimeline(
+				{
+					name: "test",
+					steps: [
+						{ state: "thinking", holdMs: 500 },
+						{ state: "writing", context: { tool: "Edit", file: "a.ts" }, sessionId: "s1" },
+						{ state: "success" },
+					],
+				},
+				1000,
+			);
+
+			expect(timeline).toEqual([
+				{ state: "thinking", previous: "idle", timestamp: 1000, source: "trigger" },
+				{
+					state: "writing",
+					previous: "thinking",
+					timestamp: 1500,
+					source: "trigger",
+					sessionId: "s1",
+					context: { tool: "Edit", file: "a.ts" },
+				},
+				{
+					state: "success",
+					previous: "writing",
+					timestamp: 1500 + DEFAULT_HOLD_MS,
+					source: "trigger",
+				},
+			]);
+		});
+	});
+});
@@ -0,0 +1,99 @@
+import { execFileSync } from "node:child_process";
+import { describe, expect, it } from "vitest";
+import {
+	DEFAULT_IGNORED_COMMANDS,
+	generateShellInit,
+	isShell,
+	parseIgnoredCommands,
+	SHELLS,
+} from "../src/shell";
+
+describe("shell", () => {
+	describe("isShell", () => {
+		it("accepts supported shells", () => {
+			for (const shell of SHELLS) {
+				expect(isShell(shell)).toBe(true);
+			}
+			expect(isShell("tcsh")).toBe(false);
+		});
+	});
+
+	describe("parseIgnoredCommands", () => {
+		it("splits a comma-separated list", () => {
+			expect(parseIgnoredCommands("vim, less,,git-log")).toEqual(["vim", "less", "git-log"]);
+		});
+
+		it("rejects names that would need quoting", () => {
+			expect(parseIgnoredCommands("vim;rm")).toBeNull();
+			expect(parseIgnoredCommands("a b")).toBeNull();
+		});
+	});
+
+	describe("generateShellInit", () => {
+		it.each(SHELLS)("sends states in the background under a per-shell session (%s)", (shell) => {
+			const script = generateShellInit(shell);
+			const session = shell === "fish" ? "shell-$fish_pid" : "shell-$$";
+
+			expect(script).toContain(`--session ${session}`);
+			expect(script).toMatch(
+				/sleep 3 && (__byteside_trigger|exec "\$@"' sh byteside trigger) bash/,
+			);
+			expect(script).toContain("</dev/null >/dev/null 2>&1 &");
+			expect(script).toContain("__byteside_trigger success");
+			expect(script).toContain("__byteside_trigger error");
+		});
+
+		it("uses the minimum duration", () => {
+			expect(generateShellInit("bash", { minDuration: 7 })).toContain(
+				"[ $((SECONDS - __byteside_start)) -ge 7 ]",
+			);
+			expect(generateShellInit("zsh", { minDuration: 7 })).toContain(
+				"(( SECONDS - __byteside_start >= 7 ))",
+			);
+			expect(generateShellInit("fish", { minDuration: 7 })).toContain(
+				"test $CMD_DURATION -ge 7000",
+			);
+			expect(generateShellInit("bash", { minDuration: 7 })).toContain("sleep 7 &&");
+		});
+
+		it("ignores interactive programs by default", () => {
+			const script = generateShellInit("zsh");
+
+			expect(script).toContain(`__byteside_ignore=" ${DEFAULT_IGNORED_COMMANDS.join(" ")} "`);
+			expect(generateShellInit("fish", { ignore: ["vim", "less"] })).toContain(
+				"set -g __byteside_ignore vim less",
+			);
+		});
+
+		it("embeds the server target", () => {
+			expect(generateShellInit("bash", { target: { port: 4000 } })).toContain(
+				'byteside trigger "$1" --session shell-$$ --port 4000',
+			);
+			expect(generateShellInit("fish", { target: { instance: "api" } })).toContain(
+				"byteside trigger bash --session shell-$fish_pid --instance api",
+			);
+		});
+
+		it("uses each shell's hooks", () => {
+			expect(generateShellInit("bash")).toContain(`trap '__byteside_debug "$_"' DEBUG`);
+			expect(generateShellInit("bash")).toContain("preexec_functions+=(__byteside_preexec)");
+			expect(generateShellInit("zsh")).toContain("add-zsh-hook precmd __byteside_precmd");
+			expect(generateShellInit("fish")).toContain("--on-event fish_postexec");
+		});
+
+		it.skipIf(process.platform === "win32")("keeps a DEBUG trap bash already has", () => {
+			const script = [
+				"trap 'mine' DEBUG",
+				'eval "$BYTESIDE_INIT"',
+				'eval "$BYTESIDE_INIT"',
+				"trap -p DEBUG",
+			].join("\n");
+			const output = execFileSync("bash", ["-c", script], {
+				env: { ...process.env, BYTESIDE_INIT: generateShellInit("bash") },
+				encoding: "utf-8",
+			});
+
+			expect(output).toBe(`trap -- 'mine\n__byteside_debug "$_"' DEBUG\n`);
+		});
+	});
+});
@@ -0,0 +1,199 @@
+import { existsSync } from "node:fs";
+import { chmod, mkdir, rm, stat, writeFile } from "node:fs/promises";
+import { connect, createServer, type Server } from "node:net";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import {
+	createStateSocketServer,
+	getSocketPath,
+	listenOnSocket,
+	MAX_LINE_LENGTH,
+	type SocketReply,
+	sendSocketUpdate,
+	socketPathForUrl,
+} from "../src/socket";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const testDir = join(__dirname, ".test-socket");
+const socketPath = join(testDir, "4000.sock");
+
+/**
+ * Handler that accepts every update and records it.
+ */
+function recorder(received: unknown[]): (update: unknown) => SocketReply {
+	return (update) => {
+		received.push(update);
+		return update === null
+			? { ok: false, error: "Invalid JSON", validStates: [] }
+			: { ok: true, state: "thinking", previous: "idle" };
+	};
+}
+
+function closeServer(server: Server): Promise<void> {
+	return new Promise((resolveClosed) => server.close(() => resolveClosed()));
+}
+
+/**
+ * Write raw text to a socket and collect the replies until the server closes it
+ * or `lines` replies have arrived.
+ */
+function exchange(text: string, lines: number): Promise<string[]> {
+	return new Promise((resolveReplies) => {
+		let buffer = "";
+		const socket = connect(socketPath);
+		const finish = () => {
+			socket.destroy();
+			resolveReplies(buffer.split("\n").filter(Boolean));
+		};
+		socket.setEncoding("utf-8");
+		socket.on("data", (chunk: string) => {
+			buffer += chunk;
+			if (buffer.split("\n").length > lines) finish();
+		});
+		socket.on("close", finish);
+		socket.on("error", finish);
+		socket.write(text);
+	});
+}
+
+describe.skipIf(process.platform === "win32")("state socket", () => {
+	let server: Server | null = null;
+
+	beforeEach(async () => {
+		await mkdir(testDir, { recursive: true });
+	});
+
+	afterEach(async () => {
+		if (server?.listening) {
+			await closeServer(server);
+		}
+		server = null;
+		await rm(testDir, { recursive: true, force: true });
+	});
+
+	describe("getSocketPath", () => {
+		it("names the socket after the port", () => {
+			expect(getSocketPath(3333, testDir)).toBe(join(testDir, "3333.sock"));
+		});
+	});
+
+	describe("socketPathForUrl", () => {
+		it("returns the socket for local servers", () => {
+			expect(socketPathForUrl("http://localhost:4000", testDir)).toBe(socketPath);
+			expect(socketPathForUrl("http://127.0.0.1:4000", testDir)).toBe(socketPath);
+		});
+
+		it("returns null for remote servers and invalid URLs", () => {
+			expect(socketPathForUrl("http://example.com:4000", testDir)).toBeNull();
+			expect(socketPathForUrl("https://localhost:4000", testDir)).toBeNull();
+			expect(socketPathForUrl("not a url", testDir)).toBeNull();
+		});
+	});
+
+	describe("sendSocketUpdate", () => {
+		it("sends one line and returns the reply", async () => {
+			const received: unknown[] = [];
+			server = createStateSocketServer(recorder(received));
+			await listenOnSocket(server, socketPath);
+
+			const reply = await sendSocketUpdate(socketPath, { state: "thinking", sessionId: "s1" });
+			expect(reply).toEqual({ ok: true, state: "thinking", previous: "idle" });
+			expect(received).toEqual([{ state: "thinking", sessionId: "s1" }]);
+		});
+
+		it("returns null when nothing listens on the socket", async () => {
+			expect(await sendSocketUpdate(socketPath, { state: "idle" })).toBeNull();
+		});
+
+		it("returns null when the server doesn't reply in time", async () => {
+			// Reads input without replying
+			server = createServer((socket) => socket.resume());
+			await listenOnSocket(server, socketPath);
+
+			expect(await sendSocketUpdate(socketPath, { state: "idle" }, 50)).toBeNull();
+		});
+	});
+
+	describe("createStateSocketServer", () => {
+		it("answers every line of a connection", async () => {
+			const received: unknown[] = [];
+			server = createStateSocketServer(recorder(received));
+			await listenOnSocket(server, socketPath);
+
+			const replies = await exchange('{"state":"bash"}\n\n{"state":"writing"}\n', 2);
+			expect(replies).toHaveLength(2);
+			expect(received).toEqual([{ state: "bash" }, { state: "writing" }]);
+		});
+
+		it("waits for asynchronous handlers and keeps the replies in order", async () => {
+			server = createStateSocketServer(async (update) => {
+				const { state } = update as { state: string };
+				await new Promise((resolveDelay) => setTimeout(resolveDelay, state === "bash" ? 20 : 0));
+				return { ok: true, state, previous: "idle" };
+			});
+			await listenOnSocket(server, socketPath);
+
+			const replies = await exchange('{"state":"bash"}\n{"state":"writing"}\n', 2);
+			expect(replies.map((reply) => JSON.parse(reply).state)).toEqual(["bash", "writing"]);
+		});
+
+		it("passes null for invalid JSON", async () => {
+			const received: unknown[] = [];
+			server = createStateSocketServer(recorder(received));
+			await listenOnSocket(server, socketPath);
+
+			const [reply] = await exchange("{not json\n", 1);
+			expect(JSON.parse(reply ?? "")).toMatchObject({ ok: false });
+			expect(received).toEqual([null]);
+		});
+
+		it("closes connections sending overlong lines", async () => {
+			server = createStateSocketServer(recorder([]));
+			await listenOnSocket(server, socketPath);
+
+			expect(await exchange("x".repeat(MAX_LINE_LENGTH + 1), 1)).toEqual([]);
+		});
+	});
+
+	describe("listenOnSocket", () => {
+		it("replaces a stale socket file", async () => {
+			await writeFile(socketPath, "");
+			server = createStateSocketServer(recorder([]));
+			await listenOnSocket(server, socketPath);
+
+			expect(await sendSocketUpdate(socketPath, { state: "idle" })).toMatchObject({ ok: true });
+		});
+
+		it("refuses a socket another server listens on", async () => {
+			server = createStateSocketServer(recorder([]));
+			await listenOnSocket(server, socketPath);
+
+			const other = createStateSocketServer(recorder([]));
+			await expect(listenOnSocket(other, socketPath)).rejects.toThrow("Another server");
+			expect(await sendSocketUpdate(socketPath, { state: "idle" })).toMatchObject({ ok: true });
+		});
+
+		it("keeps other users out of the socket and its directory", async () => {
+			const dir = join(testDir, "run");
+			await mkdir(dir, { mode: 0o755 });
+			await chmod(dir, 0o755);
+			server = createStateSocketServer(recorder([]));
+			await listenOnSocket(server, join(dir, "4001.sock"));
+
+			expect((await stat(dir)).mode & 0o777).toBe(0o700);
+			expect((await stat(join(dir, "4001.sock"))).mode & 0o777).toBe(0o600);
+		});
+
+		it("creates the directory and removes the socket on close", async () => {
+			const path = join(testDir, "run", "4001.sock");
+			server = createStateSocketServer(recorder([]));
+			await listenOnSocket(server, path);
+			expect(existsSync(path)).toBe(true);
+
+			await closeServer(server);
+			expect(existsSync(path)).toBe(false);
+		});
+	});
+});
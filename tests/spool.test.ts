@@ -0,0 +1,202 @@
+import { existsSync } from "node:fs";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { replaySpool } from "../plugins/spool";
+import {
+	endSession,
+	getHistory,
+	getSessions,
+	getState,
+	resetHistoryForTests,
+	setState,
+} from "../plugins/state";
+import {
+	freshSpoolEntries,
+	latestSpoolEntries,
+	MAX_SPOOL_ENTRIES,
+	parseSpoolLine,
+	spoolState,
+	takeSpool,
+} from "../src/spool";
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const testDir = join(__dirname, ".test-spool");
+const spoolFile = join(testDir, "4000.jsonl");
+
+describe("spool", () => {
+	beforeEach(async () => {
+		await mkdir(testDir, { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(testDir, { recursive: true, force: true });
+	});
+
+	describe("parseSpoolLine", () => {
+		it("parses entries", () => {
+			expect(
+				parseSpoolLine(
+					'{"state":"bash","timestamp":1000,"sessionId":"s1","context":{"tool":"Bash"}}',
+				),
+			).toEqual({ state: "bash", timestamp: 1000, sessionId: "s1", context: { tool: "Bash" } });
+		});
+
+		it("rejects blank and invalid lines", () => {
+			expect(parseSpoolLine("")).toBeNull();
+			expect(parseSpoolLine("{not json")).toBeNull();
+			expect(parseSpoolLine('{"state":"bash"}')).toBeNull();
+			expect(parseSpoolLine('{"state":"bash","timestamp":1,"sessionId":2}')).toBeNull();
+			expect(parseSpoolLine('{"state":"bash","timestamp":1,"context":{"x":"y"}}')).toBeNull();
+		});
+
+		it("keeps the end of a session", () => {
+			expect(
+				parseSpoolLine('{"state":"idle","timestamp":1,"sessionId":"s1","endSession":true}'),
+			).toEqual({ state: "idle", timestamp: 1, sessionId: "s1", endSession: true });
+		});
+	});
+
+	describe("spoolState", () => {
+		it("appends entries with the time they were sent", async () => {
+			await spoolState(4000, { state: "thinking", sessionId: "s1" }, testDir, 1000);
+			await spoolState(4000, { state: "bash" }, testDir, 2000);
+
+			expect(await readFile(spoolFile, "utf-8")).toBe(
+				'{"state":"thinking","sessionId":"s1","timestamp":1000}\n{"state":"bash","timestamp":2000}\n',
+			);
+		});
+
+		it("creates the spool directory", async () => {
+			const dir = join(testDir, "nested");
+			await spoolState(4000, { state: "idle" }, dir, 1000);
+			expect(existsSync(join(dir, "4000.jsonl"))).toBe(true);
+		});
+
+		it("keeps only the newest entries", async () => {
+			const context = { message: "x".repeat(100) };
+			for (let i = 0; i < MAX_SPOOL_ENTRIES * 3; i++) {
+				await spoolState(4000, { state: "bash", context }, testDir, i);
+			}
+
+			const entries = await takeSpool(4000, testDir);
+			expect(entries.length).toBeLessThan(MAX_SPOOL_ENTRIES * 3);
+			expect(entries.at(-1)?.timestamp).toBe(MAX_SPOOL_ENTRIES * 3 - 1);
+		});
+	});
+
+	describe("takeSpool", () => {
+		it("returns the entries oldest first and empties the spool", async () => {
+			await writeFile(
+				spoolFile,
+				'{"state":"bash","timestamp":2000}\ninvalid\n{"state":"thinking","timestamp":1000}\n',
+			);
+
+			expect(await takeSpool(4000, testDir)).toEqual([
+				{ state: "thinking", timestamp: 1000 },
+				{ state: "bash", timestamp: 2000 },
+			]);
+			expect(existsSync(spoolFile)).toBe(false);
+			expect(await takeSpool(4000, testDir)).toEqual([]);
+		});
+
+		it("only takes the spool of the given port", async () => {
+			await spoolState(4001, { state: "bash" }, testDir, 1000);
+			expect(await takeSpool(4000, testDir)).toEqual([]);
+			expect(await takeSpool(4001, testDir)).toHaveLength(1);
+		});
+	});
+
+	describe("freshSpoolEntries", () => {
+		it("drops entries older than the maximum age and from the future", () => {
+			const entries = [
+				{ state: "thinking", timestamp: 1000 },
+				{ state: "bash", timestamp: 9000 },
+				{ state: "error", timestamp: 11_000 },
+			];
+			expect(freshSpoolEntries(entries, 5000, 10_000)).toEqual([
+				{ state: "bash", timestamp: 9000 },
+			]);
+			expect(freshSpoolEntries(entries, 0, 10_000)).toEqual([]);
+		});
+	});
+
+	describe("latestSpoolEntries", () => {
+		it("keeps the newest entry per session, oldest first", () => {
+			expect(
+				latestSpoolEntries([
+					{ state: "thinking", timestamp: 1000, sessionId: "a" },
+					{ state: "bash", timestamp: 3000, sessionId: "a" },
+					{ state: "writing", timestamp: 2000 },
+					{ state: "error", timestamp: 1500 },
+					{ state: "waiting", timestamp: 2500, sessionId: "b" },
+				]),
+			).toEqual([
+				{ state: "writing", timestamp: 2000 },
+				{ state: "waiting", timestamp: 2500, sessionId: "b" },
+				{ state: "bash", timestamp: 3000, sessionId: "a" },
+			]);
+		});
+	});
+
+	describe("replaySpool", () => {
+		beforeEach(() => {
+			setState("idle");
+			resetHistoryForTests();
+		});
+
+		it("replays the latest fresh entry of each session", async () => {
+			const now = Date.now();
+			await spoolState(4000, { state: "thinking", sessionId: "spool-a" }, testDir, now - 3000);
+			await spoolState(4000, { state: "thinking", sessionId: "spool-b" }, testDir, now - 2500);
+			await spoolState(4000, { state: "bash", sessionId: "spool-a" }, testDir, now - 2000);
+			await spoolState(4000, { state: "writing", sessionId: "spool-a" }, testDir, now - 60_000);
+
+			expect(await replaySpool(4000, 10_000, testDir, now)).toBe(2);
+			expect(getState()).toMatchObject({ state: "bash", timestamp: now - 2000 });
+			expect(getHistory().map((entry) => [entry.state, entry.source, entry.sessionId])).toEqual([
+				["thinking", "spool", "spool-b"],
+				["bash", "spool", "spool-a"],
+			]);
+			expect(existsSync(spoolFile)).toBe(false);
+			endSession("spool-a");
+			endSession("spool-b");
+		});
+
+		it("forgets sessions that ended while the server wasn't running", async () => {
+			const now = Date.now();
+			await spoolState(4000, { state: "bash", sessionId: "spool-a" }, testDir, now - 2000);
+			await spoolState(
+				4000,
+				{ state: "idle", sessionId: "spool-a", endSession: true },
+				testDir,
+				now - 1000,
+			);
+
+			expect(await replaySpool(4000, 10_000, testDir, now)).toBe(1);
+			expect(getState().state).toBe("idle");
+			expect(getSessions()).toEqual([]);
+		});
+
+		it("falls back to an earlier entry when the latest one is invalid", async () => {
+			const now = Date.now();
+			await spoolState(4000, { state: "bash", sessionId: "spool-a" }, testDir, now - 2000);
+			await spoolState(4000, { state: "dancing", sessionId: "spool-a" }, testDir, now - 1000);
+
+			expect(await replaySpool(4000, 10_000, testDir, now)).toBe(1);
+			expect(getState().state).toBe("bash");
+			endSession("spool-a");
+		});
+
+		it("skips states the avatar doesn't know and invalid sessions", async () => {
+			const now = Date.now();
+			await spoolState(4000, { state: "dancing" }, testDir, now - 1000);
+			await spoolState(4000, { state: "bash", sessionId: "x".repeat(200) }, testDir, now - 1000);
+
+			expect(await replaySpool(4000, 10_000, testDir, now)).toBe(0);
+			expect(getState().state).toBe("idle");
+		});
+	});
+});
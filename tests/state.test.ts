@@ -1,5 +1,25 @@
-import { beforeEach, describe, expect, it } from "vitest";
-import { getState, isValidState, setState, VALID_STATES } from "../plugins/state";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+	applyStateUpdate,
+	configureState,
+	endSession,
+	getHistory,
+	getSessionState,
+	getSessions,
+	getState,
+	getValidStates,
+	HISTORY_SIZE,
+	isValidSessionId,
+	isValidState,
+	replayState,
+	resetHistoryForTests,
+	resolveState,
+	SESSION_TTL_MS,
+	setManifest,
+	setState,
+	VALID_STATES,
+} from "../plugins/state";
+import type { AvatarManifest } from "../src/manifest";
 import type { AvatarState } from "../src/types";
 
 describe("state plugin", () => {
@@ -50,6 +70,25 @@ describe("state plugin", () => {
 			expect(previous).toBe("idle");
 		});
 
+		it("stores context with the state", () => {
+			setState("writing", undefined, { tool: "Edit", file: "src/cli.ts" });
+
+			expect(getState().context).toEqual({ tool: "Edit", file: "src/cli.ts" });
+			expect(getHistory().at(-1)?.context).toEqual({ tool: "Edit", file: "src/cli.ts" });
+
+			setState("thinking");
+			expect(getState().context).toBeUndefined();
+		});
+
+		it("redacts context when configured", () => {
+			configureState({ redactContext: true });
+			setState("bash", "redact-session", { tool: "Bash", command: "rm -rf /tmp/build" });
+			configureState();
+
+			expect(getSessionState("redact-session")?.context).toEqual({ tool: "Bash", command: "rm" });
+			endSession("redact-session");
+		});
+
 		it("updates the timestamp", () => {
 			const before = getState().timestamp;
 			// Small delay to ensure timestamp difference
@@ -61,6 +100,609 @@ describe("state plugin", () => {
 		});
 	});
 
+	describe("sessions", () => {
+		afterEach(() => {
+			for (const { sessionId } of getSessions()) {
+				endSession(sessionId);
+			}
+			vi.useRealTimers();
+		});
+
+		it("tracks state per session", () => {
+			setState("writing", "session-a");
+			setState("bash", "session-b");
+
+			expect(getSessionState("session-a")?.state).toBe("writing");
+			expect(getSessionState("session-b")?.state).toBe("bash");
+		});
+
+		it("keeps the global state as the most recent update from any session", () => {
+			setState("writing", "session-a");
+			setState("bash", "session-b");
+
+			expect(getState().state).toBe("bash");
+		});
+
+		it("returns the previous state of the same session", () => {
+			setState("writing", "session-a");
+			setState("bash", "session-b");
+			const previous = setState("thinking", "session-a");
+
+			expect(previous).toBe("writing");
+		});
+
+		it("treats a new session as starting from idle", () => {
+			setState("bash");
+			const previous = setState("thinking", "session-new");
+
+			expect(previous).toBe("idle");
+		});
+
+		it("returns null for unknown sessions", () => {
+			expect(getSessionState("missing")).toBeNull();
+		});
+
+		it("lists sessions most recently active first", () => {
+			vi.useFakeTimers();
+			setState("writing", "session-a");
+			vi.advanceTimersByTime(10);
+			setState("bash", "session-b");
+
+			const sessions = getSessions();
+
+			expect(sessions.map((s) => s.sessionId)).toEqual(["session-b", "session-a"]);
+			expect(sessions[0]).toEqual({
+				sessionId: "session-b",
+				state: "bash",
+				timestamp: expect.any(Number),
+			});
+		});
+
+		it("drops sessions that have been quiet longer than the TTL", () => {
+			vi.useFakeTimers();
+			setState("writing", "session-old");
+			vi.advanceTimersByTime(SESSION_TTL_MS + 1);
+			setState("bash", "session-new");
+
+			expect(getSessions().map((s) => s.sessionId)).toEqual(["session-new"]);
+			expect(getSessionState("session-old")).toBeNull();
+		});
+
+		it("endSession removes a session", () => {
+			setState("writing", "session-a");
+
+			expect(endSession("session-a")).toBe(true);
+			expect(endSession("session-a")).toBe(false);
+			expect(getSessions()).toHaveLength(0);
+		});
+
+		it("forgets a session whose update ends it", () => {
+			setState("writing", "session-a");
+			setState("bash", "session-b");
+
+			expect(applyStateUpdate({ state: "idle", sessionId: "session-a", endSession: true })).toEqual(
+				{
+					ok: true,
+					state: "idle",
+					previous: "writing",
+					sessionId: "session-a",
+				},
+			);
+			expect(getState().state).toBe("idle");
+			expect(getSessions().map((s) => s.sessionId)).toEqual(["session-b"]);
+		});
+
+		it("rejects an endSession that isn't a boolean", () => {
+			expect(
+				applyStateUpdate({ state: "idle", sessionId: "session-a", endSession: "yes" }),
+			).toMatchObject({ ok: false, error: expect.stringContaining("endSession") });
+		});
+	});
+
+	describe("history", () => {
+		beforeEach(() => {
+			resetHistoryForTests();
+		});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("records each transition with its previous state", () => {
+			setState("thinking");
+			setState("writing");
+
+			expect(getHistory()).toEqual([
+				{
+					state: "thinking",
+					previous: "idle",
+					timestamp: expect.any(Number),
+					source: "trigger",
+					sessionId: undefined,
+				},
+				{
+					state: "writing",
+					previous: "thinking",
+					timestamp: expect.any(Number),
+					source: "trigger",
+					sessionId: undefined,
+				},
+			]);
+		});
+
+		it("records the session id", () => {
+			setState("bash", "history-session");
+
+			expect(getHistory()[0]?.sessionId).toBe("history-session");
+			endSession("history-session");
+		});
+
+		it("returns only entries newer than since", () => {
+			vi.useFakeTimers();
+			setState("thinking");
+			const since = Date.now();
+			vi.advanceTimersByTime(5);
+			setState("writing");
+
+			expect(getHistory({ since }).map((e) => e.state)).toEqual(["writing"]);
+		});
+
+		it("limits to the most recent entries", () => {
+			setState("thinking");
+			setState("writing");
+			setState("bash");
+
+			expect(getHistory({ limit: 2 }).map((e) => e.state)).toEqual(["writing", "bash"]);
+			expect(getHistory({ limit: 0 })).toEqual([]);
+		});
+
+		it("evicts the oldest entries once full", () => {
+			setState("thinking");
+			for (let i = 0; i < HISTORY_SIZE; i++) {
+				setState("writing");
+			}
+
+			const entries = getHistory();
+			expect(entries).toHaveLength(HISTORY_SIZE);
+			expect(entries[0]?.state).toBe("writing");
+		});
+
+		it("returns a copy that callers cannot mutate", () => {
+			setState("thinking");
+			getHistory().pop();
+
+			expect(getHistory()).toHaveLength(1);
+		});
+	});
+
+	describe("timed transitions", () => {
+		const manifest: AvatarManifest = {
+			name: "test-avatar",
+			author: "Test",
+			version: "1.0.0",
+			format: "webm",
+			states: {
+				idle: { file: "idle.webm" },
+				bash: { file: "bash.webm" },
+				success: { file: "success.webm", duration: 2000, transition_to: "idle" },
+				error: { file: "error.webm", duration: 1000, transition_to: "success" },
+			},
+		};
+
+		beforeEach(() => {
+			vi.useFakeTimers();
+			setManifest(manifest);
+			resetHistoryForTests();
+		});
+
+		afterEach(() => {
+			setManifest(null);
+			for (const { sessionId } of getSessions()) {
+				endSession(sessionId);
+			}
+			vi.useRealTimers();
+		});
+
+		it("moves to transition_to after the state's duration", () => {
+			setState("success");
+
+			vi.advanceTimersByTime(1999);
+			expect(getState().state).toBe("success");
+
+			vi.advanceTimersByTime(1);
+			expect(getState().state).toBe("idle");
+		});
+
+		it("records the timed transition in the history", () => {
+			setState("success");
+			vi.advanceTimersByTime(2000);
+
+			expect(getHistory().at(-1)).toMatchObject({
+				state: "idle",
+				previous: "success",
+				source: "transition",
+			});
+		});
+
+		it("chains transitions", () => {
+			setState("error");
+
+			vi.advanceTimersByTime(1000);
+			expect(getState().state).toBe("success");
+
+			vi.advanceTimersByTime(2000);
+			expect(getState().state).toBe("idle");
+		});
+
+		it("cancels the pending transition when a new state arrives", () => {
+			setState("success");
+			vi.advanceTimersByTime(1000);
+			setState("bash");
+
+			vi.advanceTimersByTime(5000);
+			expect(getState().state).toBe("bash");
+		});
+
+		it("transitions each session independently", () => {
+			setState("success", "session-a");
+			vi.advanceTimersByTime(1000);
+			setState("bash", "session-b");
+
+			vi.advanceTimersByTime(1000);
+			expect(getSessionState("session-a")?.state).toBe("idle");
+			expect(getSessionState("session-b")?.state).toBe("bash");
+		});
+
+		it("does not move the overall state when another session owns it", () => {
+			setState("success", "session-a");
+			setState("bash", "session-b");
+
+			vi.advanceTimersByTime(2000);
+			expect(getState().state).toBe("bash");
+		});
+
+		it("moves the overall state when the session still owns it", () => {
+			setState("bash", "session-b");
+			setState("success", "session-a");
+
+			vi.advanceTimersByTime(2000);
+			expect(getState().state).toBe("idle");
+		});
+
+		it("does nothing without a manifest", () => {
+			setManifest(null);
+			setState("success");
+
+			vi.advanceTimersByTime(5000);
+			expect(getState().state).toBe("success");
+		});
+
+		it("setManifest cancels pending transitions", () => {
+			setState("success");
+			setManifest(manifest);
+
+			vi.advanceTimersByTime(5000);
+			expect(getState().state).toBe("success");
+		});
+	});
+
+	describe("idle timeout", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			resetHistoryForTests();
+			configureState({ idleTimeoutMs: 60_000 });
+		});
+
+		afterEach(() => {
+			configureState();
+			for (const { sessionId } of getSessions()) {
+				endSession(sessionId);
+			}
+			vi.useRealTimers();
+		});
+
+		it("falls back to idle when no trigger arrives in time", () => {
+			setState("bash");
+
+			vi.advanceTimersByTime(59_999);
+			expect(getState().state).toBe("bash");
+
+			vi.advanceTimersByTime(1);
+			expect(getState().state).toBe("idle");
+			expect(getHistory().at(-1)).toMatchObject({
+				state: "idle",
+				previous: "bash",
+				source: "timeout",
+			});
+		});
+
+		it("restarts the countdown on every trigger", () => {
+			setState("bash");
+			vi.advanceTimersByTime(50_000);
+			setState("writing");
+
+			vi.advanceTimersByTime(50_000);
+			expect(getState().state).toBe("writing");
+		});
+
+		it("applies per-state overrides", () => {
+			configureState({ idleTimeoutMs: 60_000, idleTimeouts: { waiting: 0, bash: 10_000 } });
+
+			setState("bash");
+			vi.advanceTimersByTime(10_000);
+			expect(getState().state).toBe("idle");
+
+			setState("waiting");
+			vi.advanceTimersByTime(120_000);
+			expect(getState().state).toBe("waiting");
+		});
+
+		it("falls back to a configured idle state", () => {
+			configureState({ idleTimeoutMs: 1000, idleState: "waiting" });
+
+			setState("thinking");
+			vi.advanceTimersByTime(1000);
+
+			expect(getState().state).toBe("waiting");
+		});
+
+		it("uses idle when the avatar doesn't define the idle state", () => {
+			configureState({ idleTimeoutMs: 1000, idleState: "sleeping" });
+
+			setState("thinking");
+			vi.advanceTimersByTime(1000);
+
+			expect(getState().state).toBe("idle");
+		});
+
+		it("falls back to a custom idle state declared by the avatar", () => {
+			setManifest({
+				name: "test-avatar",
+				author: "Test",
+				version: "1.0.0",
+				format: "webm",
+				states: { idle: { file: "idle.webm" }, sleeping: { file: "sleeping.webm" } },
+			});
+			configureState({ idleTimeoutMs: 1000, idleState: "sleeping" });
+
+			setState("thinking");
+			vi.advanceTimersByTime(1000);
+
+			expect(getState().state).toBe("sleeping");
+			setManifest(null);
+		});
+
+		it("times out each session independently", () => {
+			setState("bash", "session-a");
+			vi.advanceTimersByTime(30_000);
+			setState("writing", "session-b");
+
+			vi.advanceTimersByTime(30_000);
+			expect(getSessionState("session-a")?.state).toBe("idle");
+			expect(getSessionState("session-b")?.state).toBe("writing");
+			expect(getState().state).toBe("writing");
+		});
+
+		it("is disabled by default", () => {
+			configureState();
+			setState("bash");
+
+			vi.advanceTimersByTime(24 * 60 * 60 * 1000);
+			expect(getState().state).toBe("bash");
+		});
+	});
+
+	describe("minimum dwell time", () => {
+		beforeEach(() => {
+			vi.useFakeTimers();
+			setState("idle");
+			resetHistoryForTests();
+			configureState({
+				minDwellMs: 500,
+				priority: ["error", "waiting", "bash", "writing", "thinking"],
+			});
+		});
+
+		afterEach(() => {
+			configureState();
+			for (const { sessionId } of getSessions()) {
+				endSession(sessionId);
+			}
+			vi.useRealTimers();
+		});
+
+		it("defers a lower-priority state until the dwell time has passed", () => {
+			setState("writing");
+			vi.advanceTimersByTime(100);
+			const previous = setState("thinking");
+
+			expect(previous).toBe("writing");
+			expect(getState().state).toBe("writing");
+
+			vi.advanceTimersByTime(400);
+			expect(getState().state).toBe("thinking");
+		});
+
+		it("keeps only the latest deferred state", () => {
+			setState("bash");
+			setState("thinking");
+			setState("writing");
+
+			vi.advanceTimersByTime(500);
+
+			expect(getState().state).toBe("writing");
+			expect(getHistory().map((e) => e.state)).toEqual(["bash", "writing"]);
+		});
+
+		it("lets a higher-priority state interrupt immediately", () => {
+			setState("writing");
+			setState("error");
+
+			expect(getState().state).toBe("error");
+		});
+
+		it("drops a deferred state when a higher-priority state interrupts", () => {
+			setState("bash");
+			setState("thinking");
+			setState("error");
+
+			vi.advanceTimersByTime(1000);
+			expect(getState().state).toBe("error");
+		});
+
+		it("applies states immediately once the dwell time has passed", () => {
+			setState("writing");
+			vi.advanceTimersByTime(500);
+			setState("thinking");
+
+			expect(getState().state).toBe("thinking");
+		});
+
+		it("applies per-state overrides", () => {
+			configureState({ minDwellMs: 500, minDwells: { idle: 0, success: 2000 } });
+			setState("success");
+			vi.advanceTimersByTime(1000);
+			setState("thinking");
+
+			expect(getState().state).toBe("success");
+
+			vi.advanceTimersByTime(1000);
+			expect(getState().state).toBe("thinking");
+		});
+
+		it("tracks dwell time per session", () => {
+			setState("writing", "session-a");
+			setState("thinking", "session-b");
+			setState("thinking", "session-a");
+
+			expect(getSessionState("session-a")?.state).toBe("writing");
+			expect(getSessionState("session-b")?.state).toBe("thinking");
+		});
+
+		it("applies a session's last state without waiting and forgets its pending state", () => {
+			setState("writing", "session-a");
+			setState("thinking", "session-a");
+			applyStateUpdate({ state: "idle", sessionId: "session-a", endSession: true });
+
+			expect(getState().state).toBe("idle");
+			vi.advanceTimersByTime(1000);
+			expect(getState().state).toBe("idle");
+			expect(getSessions()).toHaveLength(0);
+		});
+
+		it("cancels the inactivity fallback while a state is deferred", () => {
+			configureState({ minDwellMs: 500, idleTimeoutMs: 300 });
+			setState("writing");
+			vi.advanceTimersByTime(100);
+			setState("bash");
+
+			vi.advanceTimersByTime(400);
+			expect(getState().state).toBe("bash");
+		});
+	});
+
+	describe("replayState", () => {
+		beforeEach(() => {
+			resetHistoryForTests();
+		});
+
+		it("applies the state with the time it was sent", () => {
+			const sentAt = Date.now() - 60_000;
+			expect(replayState("bash", "spooled", { command: "npm test" }, sentAt)).toBe(true);
+
+			expect(getState()).toMatchObject({ state: "bash", timestamp: sentAt });
+			expect(getHistory()).toEqual([
+				{
+					state: "bash",
+					previous: "idle",
+					timestamp: sentAt,
+					source: "spool",
+					sessionId: "spooled",
+					context: { command: "npm test" },
+				},
+			]);
+			endSession("spooled");
+		});
+
+		it("ignores the minimum dwell time", () => {
+			configureState({ minDwellMs: 10_000 });
+			setState("success");
+			resetHistoryForTests();
+
+			expect(replayState("thinking", undefined, undefined, Date.now() - 1000)).toBe(true);
+			expect(getState().state).toBe("thinking");
+			configureState();
+		});
+
+		it("skips states older than a trigger received since", () => {
+			setState("writing", "live");
+
+			expect(replayState("bash", "spooled", undefined, Date.now() - 1000)).toBe(false);
+			expect(getState().state).toBe("writing");
+			expect(getSessionState("spooled")).toBeNull();
+			endSession("live");
+		});
+
+		it("counts the idle timeout from the time the state was sent", () => {
+			vi.useFakeTimers();
+			configureState({ idleTimeoutMs: 10_000 });
+
+			replayState("bash", "spooled", undefined, Date.now() - 9000);
+			vi.advanceTimersByTime(999);
+			expect(getState().state).toBe("bash");
+			vi.advanceTimersByTime(1);
+			expect(getState().state).toBe("idle");
+
+			configureState();
+			endSession("spooled");
+			vi.useRealTimers();
+		});
+
+		it("runs overdue transitions at once, keeping the history in time order", () => {
+			vi.useFakeTimers();
+			setManifest({
+				name: "test-avatar",
+				author: "Test",
+				version: "1.0.0",
+				format: "webm",
+				states: {
+					idle: { file: "idle.webm" },
+					success: { file: "success.webm", duration: 2000, transition_to: "idle" },
+				},
+			});
+			const now = Date.now();
+
+			replayState("success", "old", undefined, now - 60_000);
+			replayState("thinking", "recent", undefined, now - 10_000);
+			vi.advanceTimersByTime(0);
+
+			expect(getSessionState("old")).toMatchObject({ state: "idle", timestamp: now - 58_000 });
+			expect(getHistory().map((entry) => [entry.state, entry.timestamp])).toEqual([
+				["success", now - 60_000],
+				["idle", now - 58_000],
+				["thinking", now - 10_000],
+			]);
+
+			setManifest(null);
+			endSession("old");
+			endSession("recent");
+			vi.useRealTimers();
+		});
+	});
+
+	describe("isValidSessionId", () => {
+		it("accepts non-empty strings", () => {
+			expect(isValidSessionId("abc-123")).toBe(true);
+		});
+
+		it("rejects empty, oversized and non-string values", () => {
+			expect(isValidSessionId("")).toBe(false);
+			expect(isValidSessionId("x".repeat(129))).toBe(false);
+			expect(isValidSessionId(42)).toBe(false);
+			expect(isValidSessionId(null)).toBe(false);
+		});
+	});
+
 	describe("isValidState", () => {
 		it("accepts all valid states", () => {
 			const validStates: AvatarState[] = [
@@ -92,6 +734,59 @@ describe("state plugin", () => {
 			expect(isValidState({})).toBe(false);
 			expect(isValidState([])).toBe(false);
 		});
+
+		it("accepts custom states declared by the active manifest", () => {
+			expect(isValidState("celebrating")).toBe(false);
+
+			setManifest({
+				name: "test-avatar",
+				author: "Test",
+				version: "1.0.0",
+				format: "webm",
+				states: { idle: { file: "idle.webm" }, celebrating: { fallback: "success" } },
+			});
+			expect(isValidState("celebrating")).toBe(true);
+			expect(getValidStates()).toEqual([...VALID_STATES, "starting", "compacting", "celebrating"]);
+
+			setManifest(null);
+			expect(isValidState("celebrating")).toBe(false);
+			expect(getValidStates()).toEqual([...VALID_STATES, "starting", "compacting"]);
+		});
+
+		it("always accepts optional states", () => {
+			expect(isValidState("starting")).toBe(true);
+			expect(isValidState("compacting")).toBe(true);
+			expect(isValidState("constructor")).toBe(false);
+		});
+	});
+
+	describe("resolveState", () => {
+		afterEach(() => {
+			setManifest(null);
+		});
+
+		it("maps optional states to their core fallback", () => {
+			expect(resolveState("compacting")).toBe("thinking");
+			expect(resolveState("starting")).toBe("idle");
+		});
+
+		it("keeps optional states the avatar declares", () => {
+			setManifest({
+				name: "test-avatar",
+				author: "Test",
+				version: "1.0.0",
+				format: "webm",
+				states: { idle: { file: "idle.webm" }, compacting: { file: "compacting.webm" } },
+			});
+
+			expect(resolveState("compacting")).toBe("compacting");
+			expect(resolveState("starting")).toBe("idle");
+		});
+
+		it("returns other states unchanged", () => {
+			expect(resolveState("writing")).toBe("writing");
+			expect(resolveState("celebrating")).toBe("celebrating");
+		});
 	});
 
 	describe("VALID_STATES", () => {
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { endSession, setState } from "../plugins/state";
+import {
+	getSessionStats,
+	getStats,
+	MAX_STATS_SESSIONS,
+	resetStatsForTests,
+} from "../plugins/stats";
+
+describe("stats plugin", () => {
+	beforeEach(() => {
+		vi.useFakeTimers();
+		setState("idle");
+		resetStatsForTests();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it("accumulates time per state", () => {
+		vi.advanceTimersByTime(1000);
+		setState("thinking");
+		vi.advanceTimersByTime(3000);
+		setState("writing");
+		vi.advanceTimersByTime(2000);
+
+		const { overall } = getStats();
+		expect(overall.durations).toEqual({ idle: 1000, thinking: 3000, writing: 2000 });
+		expect(overall.transitions).toBe(2);
+	});
+
+	it("counts tool calls, errors and waits", () => {
+		setState("writing");
+		setState("thinking");
+		setState("bash");
+		setState("error");
+		setState("waiting");
+		setState("thinking");
+		setState("waiting");
+
+		const { overall } = getStats();
+		expect(overall.toolCalls).toBe(2);
+		expect(overall.errors).toBe(1);
+		expect(overall.waits).toBe(2);
+	});
+
+	it("tracks sessions separately", () => {
+		setState("thinking", "stats-a");
+		vi.advanceTimersByTime(1000);
+		setState("bash", "stats-b");
+		vi.advanceTimersByTime(4000);
+		setState("error", "stats-a");
+
+		const a = getSessionStats("stats-a");
+		const b = getSessionStats("stats-b");
+		expect(a?.durations).toEqual({ thinking: 5000 });
+		expect(a?.errors).toBe(1);
+		expect(b?.durations).toEqual({ bash: 4000 });
+		expect(b?.toolCalls).toBe(1);
+
+		// Most recently active first
+		expect(getStats().sessions.map((s) => s.sessionId)).toEqual(["stats-a", "stats-b"]);
+		endSession("stats-a");
+		endSession("stats-b");
+	});
+
+	it("returns null for unknown sessions", () => {
+		expect(getSessionStats("never-seen")).toBeNull();
+	});
+
+	it("drops the least recently active sessions", () => {
+		for (let i = 0; i <= MAX_STATS_SESSIONS; i++) {
+			setState("thinking", `bulk-${i}`);
+		}
+
+		expect(getStats().sessions).toHaveLength(MAX_STATS_SESSIONS);
+		expect(getSessionStats("bulk-0")).toBeNull();
+		expect(getSessionStats(`bulk-${MAX_STATS_SESSIONS}`)).not.toBeNull();
+		for (let i = 0; i <= MAX_STATS_SESSIONS; i++) {
+			endSession(`bulk-${i}`);
+		}
+	});
+});
@@ -148,6 +148,22 @@ describe("TerminalRenderer", () => {
 
 			// Should not throw
 		});
+
+		it("follows the fallback chain for states without frames", async () => {
+			const manifestWithAlias: AvatarManifest = {
+				...mockManifest,
+				states: {
+					...mockManifest.states,
+					compacting: { fallback: "thinking" },
+				},
+			};
+			const renderer = new TerminalRenderer(manifestWithAlias, mockOptions);
+			await renderer.init();
+
+			renderer.setState("compacting");
+
+			expect((renderer as unknown as { currentState: string }).currentState).toBe("thinking");
+		});
 	});
 
 	describe("start() and stop()", () => {
@@ -195,24 +211,22 @@ describe("TerminalRenderer", () => {
 	});
 
 	describe("auto-transitions", () => {
-		it("schedules transition for states with duration", async () => {
+		it("leaves timed transitions to the server", async () => {
 			const manifestWithTransition: AvatarManifest = {
 				...mockManifest,
 				states: {
 					...mockManifest.states,
-					success: { file: "success.webm", duration: 1000, transition_to: "idle" },
+					thinking: { file: "thinking.webm", duration: 1000, transition_to: "idle" },
 				},
 			};
 
 			const renderer = new TerminalRenderer(manifestWithTransition, mockOptions);
 			await renderer.init();
 
-			renderer.setState("success");
-
-			// Advance timers past the duration
-			vi.advanceTimersByTime(1100);
+			renderer.setState("thinking");
 
-			// Should have transitioned (no direct way to verify, but should not throw)
+			// The server broadcasts transition_to; the renderer schedules nothing itself
+			expect(vi.getTimerCount()).toBe(0);
 		});
 	});
 });
@@ -289,4 +303,33 @@ describe("createTerminalRenderer()", () => {
 
 		expect(renderer).toBeInstanceOf(TerminalRenderer);
 	});
+
+	it("keeps the caption row inside a short terminal", async () => {
+		vi.useFakeTimers();
+		const written: string[] = [];
+		const originalWrite = process.stdout.write;
+		process.stdout.write = vi.fn((data: string | Uint8Array) => {
+			if (typeof data === "string") {
+				written.push(data);
+			}
+			return true;
+		}) as typeof process.stdout.write;
+
+		try {
+			// 20 frame rows from row 10 would put the caption on row 30
+			const renderer = createTerminalRenderer(mockManifest, "/path/to/avatar", 10, 25);
+			await renderer?.init();
+			await renderer?.start("http://localhost:3333");
+			vi.advanceTimersByTime(125);
+			renderer?.stop();
+		} finally {
+			process.stdout.write = originalWrite;
+			vi.useRealTimers();
+		}
+
+		const output = written.join("");
+		expect(output).toContain("\x1b[24;1H");
+		expect(output).toContain("\x1b[25;1H");
+		expect(output).not.toContain("\x1b[26;1H");
+	});
 });
@@ -0,0 +1,155 @@
+import { spawn } from "node:child_process";
+import { existsSync } from "node:fs";
+import { mkdir, rm } from "node:fs/promises";
+import { createServer, type Server } from "node:http";
+import type { AddressInfo, Server as SocketServer } from "node:net";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, beforeAll, bench, describe } from "vitest";
+import { applyStateUpdate } from "../plugins/state";
+import { loadBytesideConfig } from "../src/config";
+import { registerInstance, resolveServerUrl } from "../src/instances";
+import {
+	createStateSocketServer,
+	listenOnSocket,
+	sendSocketUpdate,
+	socketPathForUrl,
+} from "../src/socket";
+import { postState } from "../src/trigger";
+import type { StateUpdate } from "../src/types";
+
+/**
+ * Compares the ways a hook reaches the server. Run with `npm run bench`.
+ * The first two groups run in one process, so they leave out Node's start-up and
+ * fetch reuses its connection between iterations. The last group spawns the built
+ * CLI (`npm run build` first) like a hook does, so it includes loading the modules.
+ */
+
+const __filename = fileURLToPath(import.meta.url);
+const __dirname = dirname(__filename);
+const testDir = join(__dirname, ".test-trigger-bench");
+// Spawned commands get this as their home, so they find the instance and its socket
+const homeDir = join(testDir, "home");
+const instancesDir = join(homeDir, ".byteside", "instances");
+const runDir = join(homeDir, ".byteside", "run");
+// A home without the socket, so the command falls back to HTTP
+const socketlessHomeDir = join(testDir, "socketless");
+const cliPath = join(__dirname, "..", "dist", "cli.mjs");
+
+const update: StateUpdate = {
+	state: "bash",
+	sessionId: "bench",
+	context: { tool: "Bash", command: "npm test" },
+};
+
+let httpServer: Server;
+let socketServer: SocketServer;
+let serverUrl: string;
+let socketPath: string;
+
+beforeAll(async () => {
+	await mkdir(testDir, { recursive: true });
+	await mkdir(socketlessHomeDir, { recursive: true });
+
+	// POST /state, as served by Nitro
+	httpServer = createServer((req, res) => {
+		let body = "";
+		req.on("data", (chunk: Buffer) => {
+			body += chunk.toString();
+		});
+		req.on("end", () => {
+			const result = applyStateUpdate(JSON.parse(body));
+			res.writeHead(result.ok ? 200 : 400, { "Content-Type": "application/json" });
+			res.end(JSON.stringify(result));
+		});
+	});
+	await new Promise<void>((resolveListening) => httpServer.listen(0, resolveListening));
+	const { port } = httpServer.address() as AddressInfo;
+	serverUrl = `http://localhost:${port}`;
+
+	socketPath = socketPathForUrl(serverUrl, runDir) ?? "";
+	socketServer = createStateSocketServer(applyStateUpdate);
+	await listenOnSocket(socketServer, socketPath);
+
+	await registerInstance(
+		{ name: "bench", port, pid: process.pid, cwd: testDir, avatar: "default", startedAt: 0 },
+		instancesDir,
+	);
+});
+
+afterAll(async () => {
+	httpServer.closeAllConnections();
+	await new Promise((resolveClosed) => httpServer.close(resolveClosed));
+	await new Promise((resolveClosed) => socketServer.close(resolveClosed));
+	await rm(testDir, { recursive: true, force: true });
+});
+
+describe("trigger path", () => {
+	bench("full: load config, resolve server, POST /state", async () => {
+		const config = await loadBytesideConfig(testDir);
+		const url = await resolveServerUrl({}, testDir, config.server?.port ?? 3333, instancesDir);
+		await postState(url ?? serverUrl, update);
+	});
+
+	bench("quick: resolve server, write to the state socket", async () => {
+		const url = await resolveServerUrl(
+			{},
+			testDir,
+			async () => (await loadBytesideConfig(testDir)).server?.port ?? 3333,
+			instancesDir,
+		);
+		await sendSocketUpdate(socketPathForUrl(url ?? serverUrl, runDir) ?? socketPath, update);
+	});
+});
+
+describe("transport", () => {
+	bench("HTTP: POST /state", async () => {
+		await postState(serverUrl, update);
+	});
+
+	bench("socket: one line", async () => {
+		await sendSocketUpdate(socketPath, update);
+	});
+});
+
+/**
+ * Run a command the way an agent runs a hook: a new process with the payload on stdin.
+ */
+function runCli(args: string[], home: string): Promise<void> {
+	return new Promise((resolveExit, rejectExit) => {
+		const child = spawn(process.execPath, [cliPath, ...args], {
+			cwd: testDir,
+			env: { ...process.env, HOME: home },
+			stdio: ["pipe", "ignore", "inherit"],
+		});
+		child.on("error", rejectExit);
+		child.on("exit", (code) => {
+			if (code === 0) {
+				resolveExit();
+			} else {
+				rejectExit(new Error(`byteside ${args.join(" ")} exited with ${code}`));
+			}
+		});
+		child.stdin.end(JSON.stringify({ session_id: "bench", tool_name: "Bash" }));
+	});
+}
+
+describe.skipIf(!existsSync(cliPath))("process", () => {
+	bench("node without a script", async () => {
+		await new Promise<void>((resolveExit) => {
+			spawn(process.execPath, ["-e", ""]).on("exit", () => resolveExit());
+		});
+	});
+
+	bench("quick: byteside trigger, state socket", async () => {
+		await runCli(["trigger", "bash"], homeDir);
+	});
+
+	bench("quick: byteside hook, state socket", async () => {
+		await runCli(["hook", "Stop"], homeDir);
+	});
+
+	bench("full: byteside trigger --url, POST /state", async () => {
+		await runCli(["trigger", "bash", "--url", serverUrl], socketlessHomeDir);
+	});
+});
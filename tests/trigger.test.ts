@@ -0,0 +1,111 @@
+import { describe, expect, it } from "vitest";
+import { parseHookArgs, parseTriggerArgs, triggerUpdate } from "../src/trigger";
+
+describe("trigger", () => {
+	describe("parseTriggerArgs", () => {
+		it("parses the state and options hooks use", () => {
+			expect(
+				parseTriggerArgs([
+					"trigger",
+					"bash",
+					"--session",
+					"s1",
+					"-m",
+					"Running tests",
+					"--detect-error",
+					"--port",
+					"4000",
+				]),
+			).toEqual({
+				state: "bash",
+				options: { session: "s1", message: "Running tests", detectError: true, port: 4000 },
+			});
+		});
+
+		it("accepts options before the state and --flag=value", () => {
+			expect(parseTriggerArgs(["trigger", "--instance=api", "-s", "git", "success"])).toEqual({
+				state: "success",
+				options: { instance: "api", session: "git" },
+			});
+		});
+
+		it("leaves other commands to the full CLI", () => {
+			expect(parseTriggerArgs([])).toBeNull();
+			expect(parseTriggerArgs(["hook", "Stop"])).toBeNull();
+			expect(parseTriggerArgs(["--port", "4000", "trigger", "idle"])).toBeNull();
+		});
+
+		it("leaves unknown options and --url to the full CLI", () => {
+			expect(parseTriggerArgs(["trigger", "idle", "--help"])).toBeNull();
+			expect(parseTriggerArgs(["trigger", "idle", "--url", "http://localhost:3333"])).toBeNull();
+			expect(parseTriggerArgs(["trigger", "idle", "-sx"])).toBeNull();
+		});
+
+		it("rejects invalid states and values", () => {
+			expect(parseTriggerArgs(["trigger"])).toBeNull();
+			expect(parseTriggerArgs(["trigger", "Idle"])).toBeNull();
+			expect(parseTriggerArgs(["trigger", "idle", "bash"])).toBeNull();
+			expect(parseTriggerArgs(["trigger", "idle", "--session"])).toBeNull();
+			expect(parseTriggerArgs(["trigger", "idle", "--port", "99999"])).toBeNull();
+			expect(parseTriggerArgs(["trigger", "idle", "--instance", "a b"])).toBeNull();
+		});
+	});
+
+	describe("parseHookArgs", () => {
+		it("parses the event and options hooks use", () => {
+			expect(parseHookArgs(["hook", "PreToolUse", "--agent", "gemini", "--port", "4000"])).toEqual({
+				event: "PreToolUse",
+				options: { agent: "gemini", port: 4000 },
+			});
+			expect(parseHookArgs(["hook", "--instance=api", "Stop"])).toEqual({
+				event: "Stop",
+				options: { instance: "api" },
+			});
+		});
+
+		it("leaves other commands, unknown options and --url to the full CLI", () => {
+			expect(parseHookArgs(["trigger", "idle"])).toBeNull();
+			expect(parseHookArgs(["hook", "Stop", "--help"])).toBeNull();
+			expect(parseHookArgs(["hook", "Stop", "--url", "http://localhost:3333"])).toBeNull();
+			expect(parseHookArgs(["hook", "Stop", "--detect-error"])).toBeNull();
+			expect(parseHookArgs(["hook", "Stop", "-m", "done"])).toBeNull();
+		});
+
+		it("rejects missing events and invalid values", () => {
+			expect(parseHookArgs(["hook"])).toBeNull();
+			expect(parseHookArgs(["hook", "Stop", "Notification"])).toBeNull();
+			expect(parseHookArgs(["hook", "Stop", "--agent"])).toBeNull();
+			expect(parseHookArgs(["hook", "Stop", "--port", "0"])).toBeNull();
+		});
+	});
+
+	describe("triggerUpdate", () => {
+		it("sends the state alone without input", () => {
+			expect(triggerUpdate("thinking", {}, null)).toEqual({ state: "thinking" });
+		});
+
+		it("takes the session and context from the hook payload", () => {
+			const input = {
+				session_id: "s1",
+				tool_name: "Bash",
+				tool_input: { command: "npm test" },
+			};
+			expect(triggerUpdate("bash", {}, input)).toEqual({
+				state: "bash",
+				sessionId: "s1",
+				context: { tool: "Bash", command: "npm test" },
+			});
+			expect(triggerUpdate("bash", { session: "other", message: "Testing" }, input)).toEqual({
+				state: "bash",
+				sessionId: "other",
+				context: { tool: "Bash", command: "npm test", message: "Testing" },
+			});
+		});
+
+		it("sets error for failed tools with detectError", () => {
+			const input = { tool_name: "Bash", tool_response: { exit_code: 1 } };
+			expect(triggerUpdate("success", { detectError: true }, input).state).toBe("error");
+			expect(triggerUpdate("success", {}, input).state).toBe("success");
+		});
+	});
+});
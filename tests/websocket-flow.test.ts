@@ -1,5 +1,5 @@
 import { beforeEach, describe, expect, it, vi } from "vitest";
-import { setState } from "../plugins/state";
+import { endSession, resetHistoryForTests, setManifest, setState } from "../plugins/state";
 import type { WsPongMessage, WsStateMessage, WsWelcomeMessage } from "../src/types";
 
 // Create mock peer factory
@@ -66,6 +66,33 @@ describe("WebSocket handler", () => {
 			expect(message.type).toBe("welcome");
 			expect(message.state).toBe("idle");
 		});
+
+		it("replays recent history in the welcome message", () => {
+			const peer = createMockPeer();
+			resetHistoryForTests();
+			setState("thinking");
+			setState("writing");
+
+			wsHandlers.current?.open?.(peer);
+
+			const message = JSON.parse(peer.send.mock.calls[0][0]) as WsWelcomeMessage;
+			expect(message.history.map((e) => e.state)).toEqual(["thinking", "writing"]);
+		});
+
+		it("includes live sessions in the welcome message", () => {
+			const peer = createMockPeer();
+			setState("writing", "ws-session");
+
+			wsHandlers.current?.open?.(peer);
+
+			const message = JSON.parse(peer.send.mock.calls[0][0]) as WsWelcomeMessage;
+			expect(message.sessions).toContainEqual({
+				sessionId: "ws-session",
+				state: "writing",
+				timestamp: expect.any(Number),
+			});
+			endSession("ws-session");
+		});
 	});
 
 	describe("message()", () => {
@@ -200,6 +227,65 @@ describe("WebSocket handler", () => {
 			expect(peer3.send).toHaveBeenCalled();
 		});
 
+		it("includes the session id in state broadcasts", () => {
+			const peer = createMockPeer();
+			wsHandlers.current?.open?.(peer);
+			peer.send.mockClear();
+
+			setState("bash", "ws-session");
+
+			const message = JSON.parse(peer.send.mock.calls[0][0]) as WsStateMessage;
+			expect(message.sessionId).toBe("ws-session");
+			expect(message.source).toBe("trigger");
+			expect(message.background).toBeUndefined();
+			endSession("ws-session");
+		});
+
+		it("includes context in state broadcasts", () => {
+			const peer = createMockPeer();
+			wsHandlers.current?.open?.(peer);
+			peer.send.mockClear();
+
+			setState("writing", undefined, { tool: "Write", file: "README.md" });
+
+			const message = JSON.parse(peer.send.mock.calls[0][0]) as WsStateMessage;
+			expect(message.context).toEqual({ tool: "Write", file: "README.md" });
+		});
+
+		it("broadcasts timed transitions and flags ones that only affect a session", () => {
+			vi.useFakeTimers();
+			setManifest({
+				name: "test-avatar",
+				author: "Test",
+				version: "1.0.0",
+				format: "webm",
+				states: {
+					idle: { file: "idle.webm" },
+					success: { file: "success.webm", duration: 2000, transition_to: "idle" },
+				},
+			});
+			const peer = createMockPeer();
+			wsHandlers.current?.open?.(peer);
+			setState("success", "session-a");
+			setState("thinking", "session-b");
+			peer.send.mockClear();
+
+			vi.advanceTimersByTime(2000);
+
+			const message = JSON.parse(peer.send.mock.calls[0][0]) as WsStateMessage;
+			expect(message).toMatchObject({
+				type: "state",
+				state: "idle",
+				source: "transition",
+				sessionId: "session-a",
+				background: true,
+			});
+			setManifest(null);
+			endSession("session-a");
+			endSession("session-b");
+			vi.useRealTimers();
+		});
+
 		it("broadcasts multiple state changes in sequence", () => {
 			const peer = createMockPeer();
 			wsHandlers.current?.open?.(peer);
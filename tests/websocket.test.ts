@@ -15,7 +15,12 @@ describe("state change listeners", () => {
 		setState("thinking");
 
 		expect(listener).toHaveBeenCalledTimes(1);
-		expect(listener).toHaveBeenCalledWith("thinking", expect.any(Number));
+		expect(listener).toHaveBeenCalledWith("thinking", expect.any(Number), {
+			previous: "idle",
+			source: "trigger",
+			sessionId: undefined,
+			background: false,
+		});
 	});
 
 	it("allows unsubscribing", () => {
@@ -42,9 +47,9 @@ describe("state change listeners", () => {
 
 		setState("success");
 
-		expect(listener1).toHaveBeenCalledWith("success", expect.any(Number));
-		expect(listener2).toHaveBeenCalledWith("success", expect.any(Number));
-		expect(listener3).toHaveBeenCalledWith("success", expect.any(Number));
+		expect(listener1).toHaveBeenCalledWith("success", expect.any(Number), expect.any(Object));
+		expect(listener2).toHaveBeenCalledWith("success", expect.any(Number), expect.any(Object));
+		expect(listener3).toHaveBeenCalledWith("success", expect.any(Number), expect.any(Object));
 	});
 
 	it("continues with other listeners if one throws", () => {
@@ -80,4 +85,19 @@ describe("state change listeners", () => {
 		expect(timestamp).toBeGreaterThanOrEqual(before);
 		expect(timestamp).toBeLessThanOrEqual(after);
 	});
+
+	it("passes the session id and per-session previous state to listeners", () => {
+		const listener = vi.fn();
+		onStateChange(listener);
+
+		setState("writing", "listener-session");
+		setState("bash", "listener-session");
+
+		expect(listener).toHaveBeenLastCalledWith("bash", expect.any(Number), {
+			previous: "writing",
+			source: "trigger",
+			sessionId: "listener-session",
+			background: false,
+		});
+	});
 });